@@ -7,6 +7,7 @@ import { ProtectedRoute } from "@/components/ProtectedRoute";
 import NotFound from "@/pages/not-found";
 import LandingPage from "@/pages/LandingPage";
 import BusinessDashboard from "@/pages/BusinessDashboard";
+import BusinessMetrics from "@/pages/BusinessMetrics";
 import CandidateDashboard from "@/pages/CandidateDashboard";
 import CreateProject from "@/pages/CreateProject";
 import ProjectDetail from "@/pages/ProjectDetail";
@@ -33,6 +34,11 @@ function Router() {
           <BusinessDashboard />
         </ProtectedRoute>
       </Route>
+      <Route path="/business/metrics">
+        <ProtectedRoute requireBusiness>
+          <BusinessMetrics />
+        </ProtectedRoute>
+      </Route>
       <Route path="/business/projects/new">
         <ProtectedRoute requireBusiness>
           <CreateProject />
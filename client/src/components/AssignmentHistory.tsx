@@ -0,0 +1,82 @@
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, XCircle, Send, Zap, AlertTriangle, Flag } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import type { AssignmentEvent } from "@shared/schema";
+
+type AssignmentHistoryEntry = AssignmentEvent & { candidateName: string | null };
+
+interface AssignmentHistoryProps {
+  milestoneId: string;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  offer: "Offered",
+  confirm: "Confirmed",
+  reject: "Rejected",
+  activate: "Activated",
+  complete: "Completed",
+  fail: "Failed",
+};
+
+export function AssignmentHistory({ milestoneId }: AssignmentHistoryProps) {
+  const { data: events = [], isLoading } = useQuery<AssignmentHistoryEntry[]>({
+    queryKey: ["/api/milestones", milestoneId, "assignment-history"],
+  });
+
+  const getEventIcon = (eventType: string) => {
+    switch (eventType) {
+      case "offer": return <Send className="w-4 h-4 text-foreground" />;
+      case "confirm": return <CheckCircle2 className="w-4 h-4 text-[hsl(142,76%,36%)]" />;
+      case "reject": return <XCircle className="w-4 h-4 text-muted-foreground" />;
+      case "activate": return <Zap className="w-4 h-4 text-foreground" />;
+      case "complete": return <Flag className="w-4 h-4 text-[hsl(142,76%,36%)]" />;
+      case "fail": return <AlertTriangle className="w-4 h-4 text-[hsl(0,84%,60%)]" />;
+      default: return <div className="w-4 h-4 rounded-full border-2 border-border" />;
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading assignment history...</div>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground text-center py-6" data-testid="assignment-history-empty">
+        No assignment changes recorded yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4" data-testid="assignment-history">
+      {events.map((event) => (
+        <li key={event.id} className="ml-6" data-testid={`assignment-event-${event.id}`}>
+          <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 rounded-full bg-background">
+            {getEventIcon(event.eventType)}
+          </span>
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium text-sm">
+              {EVENT_LABELS[event.eventType] || event.eventType}
+            </span>
+            <Badge variant="outline" className="text-xs">
+              {event.role === "backup" ? "Backup" : "Primary"}
+            </Badge>
+            {event.candidateName && (
+              <span className="text-sm">{event.candidateName}</span>
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            {event.fromStatus || "none"} → {event.toStatus}
+            {" · "}
+            {event.actor || event.actorRole}
+            {" · "}
+            {new Date(event.createdAt).toLocaleString()}
+          </div>
+          {event.reason && (
+            <p className="text-xs text-muted-foreground mt-1 italic">{event.reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
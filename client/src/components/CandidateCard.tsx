@@ -2,7 +2,7 @@ import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card"
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Mail, Calendar, ExternalLink } from "lucide-react";
+import { Mail, Calendar, ExternalLink, Star } from "lucide-react";
 import { FitScoreMeter } from "./FitScoreMeter";
 import type { Candidate } from "@shared/schema";
 
@@ -39,6 +39,14 @@ export function CandidateCard({ candidate, fitScore, onViewProfile, onContact, s
               <Mail className="w-3 h-3" />
               <span className="truncate">{candidate.email}</span>
             </div>
+            {candidate.reputationScore != null && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1" data-testid={`candidate-reputation-${candidate.id}`}>
+                <Star className="w-3 h-3" />
+                <span>
+                  {candidate.reputationScore.toFixed(1)}/5 ({candidate.ratingCount} rating{candidate.ratingCount !== 1 ? "s" : ""})
+                </span>
+              </div>
+            )}
           </div>
           {showFitScore && fitScore !== undefined && (
             <FitScoreMeter score={fitScore} size="sm" showLabel={false} />
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Star } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CandidateRating } from "@shared/schema";
+
+interface MilestoneRatings {
+  ratings: Array<CandidateRating & { candidateName: string }>;
+  pendingCandidates: Array<{ id: string; name: string }>;
+}
+
+interface CandidateRatingFormProps {
+  milestoneId: string;
+  projectId?: string;
+}
+
+const RATING_CATEGORIES = [
+  { key: "skills", label: "Skills" },
+  { key: "communication", label: "Communication" },
+  { key: "timeliness", label: "Timeliness" },
+] as const;
+
+type RatingKey = typeof RATING_CATEGORIES[number]["key"];
+
+function StarInput({ value, onChange, testId }: { value: number; onChange: (value: number) => void; testId: string }) {
+  return (
+    <div className="flex gap-1" data-testid={testId}>
+      {[1, 2, 3, 4, 5].map((n) => (
+        <button
+          key={n}
+          type="button"
+          onClick={() => onChange(n)}
+          aria-label={`${n} star${n > 1 ? "s" : ""}`}
+          data-testid={`${testId}-${n}`}
+        >
+          <Star className={`w-5 h-5 ${n <= value ? "fill-foreground text-foreground" : "text-muted-foreground"}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function RatingEntry({ milestoneId, projectId, candidate }: CandidateRatingFormProps & { candidate: { id: string; name: string } }) {
+  const { toast } = useToast();
+  const [scores, setScores] = useState<Record<RatingKey, number>>({ skills: 0, communication: 0, timeliness: 0 });
+  const [feedback, setFeedback] = useState("");
+
+  const rateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/milestones/${milestoneId}/ratings`, {
+        candidateId: candidate.id,
+        ...scores,
+        feedback,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/milestones", milestoneId, "ratings"] });
+      if (projectId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "candidates"] });
+      }
+      toast({ title: "Rating saved", description: `Thanks for rating ${candidate.name}.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not save rating", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isComplete = RATING_CATEGORIES.every(({ key }) => scores[key] > 0);
+
+  return (
+    <div className="p-3 border border-border rounded-md space-y-3" data-testid={`rating-form-${candidate.id}`}>
+      <div className="font-medium text-sm">Rate {candidate.name}</div>
+      {RATING_CATEGORIES.map(({ key, label }) => (
+        <div key={key} className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">{label}</span>
+          <StarInput
+            value={scores[key]}
+            onChange={(value) => setScores({ ...scores, [key]: value })}
+            testId={`rating-${key}-${candidate.id}`}
+          />
+        </div>
+      ))}
+      <Textarea
+        placeholder="Feedback (optional)"
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+        data-testid={`input-rating-feedback-${candidate.id}`}
+      />
+      <Button
+        size="sm"
+        onClick={() => rateMutation.mutate()}
+        disabled={!isComplete || rateMutation.isPending}
+        data-testid={`button-submit-rating-${candidate.id}`}
+      >
+        {rateMutation.isPending ? "Saving..." : "Submit Rating"}
+      </Button>
+    </div>
+  );
+}
+
+export function CandidateRatingForm({ milestoneId, projectId }: CandidateRatingFormProps) {
+  const { data } = useQuery<MilestoneRatings>({
+    queryKey: ["/api/milestones", milestoneId, "ratings"],
+  });
+
+  if (!data || (data.ratings.length === 0 && data.pendingCandidates.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3" data-testid="candidate-ratings">
+      <h4 className="text-sm font-semibold">Candidate Ratings</h4>
+      {data.ratings.map((rating) => (
+        <div key={rating.id} className="text-xs text-muted-foreground" data-testid={`rating-${rating.id}`}>
+          <span className="font-medium text-foreground">{rating.candidateName}</span>
+          {" — "}Skills {rating.skills}/5 · Communication {rating.communication}/5 · Timeliness {rating.timeliness}/5
+          {rating.feedback && <span className="italic"> — {rating.feedback}</span>}
+        </div>
+      ))}
+      {data.pendingCandidates.map((candidate) => (
+        <RatingEntry key={candidate.id} milestoneId={milestoneId} projectId={projectId} candidate={candidate} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Target } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+
+type ScoreComponent = "score" | "skillOverlap" | "experienceMatch" | "softSkillRelevance";
+
+interface OutcomeCorrelations {
+  onTime: number | null;
+  delay: number | null;
+  rating: number | null;
+}
+
+interface MethodAccuracy {
+  method: "ai" | "rule_based" | "unknown";
+  sampleSize: number;
+  ratedSampleSize: number;
+  averageScore: number | null;
+  onTimeRate: number | null;
+  averageDelay: number | null;
+  averageRating: number | null;
+  correlations: Record<ScoreComponent, OutcomeCorrelations>;
+}
+
+interface FitScoreAccuracyReport {
+  sampleSize: number;
+  methods: MethodAccuracy[];
+}
+
+const METHOD_LABELS: Record<MethodAccuracy["method"], string> = {
+  ai: "AI",
+  rule_based: "Rule-based",
+  unknown: "Unrecorded",
+};
+
+const COMPONENT_LABELS: Record<ScoreComponent, string> = {
+  score: "Overall",
+  skillOverlap: "Skill overlap",
+  experienceMatch: "Experience",
+  softSkillRelevance: "Soft skills",
+};
+
+const chartConfig = {
+  onTime: { label: "On-time delivery", color: "hsl(var(--chart-1))" },
+  delay: { label: "Low delay", color: "hsl(var(--chart-2))" },
+  rating: { label: "Rating", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+function formatCorrelation(value: number | null) {
+  return value === null ? "n/a" : value.toFixed(2);
+}
+
+export function FitScoreAccuracyChart() {
+  const { data: report } = useQuery<FitScoreAccuracyReport>({
+    queryKey: ["/api/business/analytics/fit-accuracy"],
+  });
+
+  if (!report) {
+    return null;
+  }
+
+  // One group of bars per method + component; missing correlations plot as 0
+  const chartData = report.methods.flatMap((method) =>
+    (Object.keys(COMPONENT_LABELS) as ScoreComponent[]).map((component) => ({
+      label: `${METHOD_LABELS[method.method]} · ${COMPONENT_LABELS[component]}`,
+      onTime: method.correlations[component].onTime ?? 0,
+      delay: method.correlations[component].delay ?? 0,
+      rating: method.correlations[component].rating ?? 0,
+    }))
+  );
+
+  return (
+    <Card className="mb-8" data-testid="card-fit-accuracy">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Target className="w-5 h-5 text-muted-foreground" />
+          <CardTitle>Fit Score Accuracy</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          How well fit scores predicted delivery on {report.sampleSize} completed assignment
+          {report.sampleSize === 1 ? "" : "s"}. Bars show correlation from -1 to 1; higher means the score was a better predictor.
+        </p>
+
+        {report.methods.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-6" data-testid="fit-accuracy-empty">
+            No completed milestones with fit scores yet
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {report.methods.map((method) => (
+                <div
+                  key={method.method}
+                  className="p-3 border border-border rounded-md space-y-1"
+                  data-testid={`fit-accuracy-method-${method.method}`}
+                >
+                  <div className="font-medium text-sm">{METHOD_LABELS[method.method]}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {method.sampleSize} assignments · avg score {method.averageScore ?? "n/a"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {method.onTimeRate ?? "n/a"}% on time · avg rating {method.averageRating ?? "n/a"} ({method.ratedSampleSize} rated)
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Overall correlation: on-time {formatCorrelation(method.correlations.score.onTime)}, rating{" "}
+                    {formatCorrelation(method.correlations.score.rating)}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-80 w-full aspect-auto">
+              <BarChart data={chartData} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} angle={-20} textAnchor="end" height={70} />
+                <YAxis domain={[-1, 1]} tickLine={false} axisLine={false} width={32} />
+                <ReferenceLine y={0} stroke="hsl(var(--border))" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="onTime" fill="var(--color-onTime)" radius={2} />
+                <Bar dataKey="delay" fill="var(--color-delay)" radius={2} />
+                <Bar dataKey="rating" fill="var(--color-rating)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
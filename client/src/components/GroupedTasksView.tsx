@@ -8,15 +8,25 @@ import { parseADFToText } from "@/lib/adf-parser";
 interface GroupedTasksViewProps {
   milestones: Milestone[];
   groupBy: "epic" | "sprint" | "none";
+  onTaskClick?: (id: string) => void;
 }
 
 interface TaskGroup {
   key: string;
   name: string;
   tasks: Milestone[];
+  startDate?: Date | null;
+  endDate?: Date | null;
 }
 
-export function GroupedTasksView({ milestones, groupBy }: GroupedTasksViewProps) {
+const formatSprintDates = (startDate?: Date | null, endDate?: Date | null) => {
+  if (!startDate && !endDate) return null;
+  const start = startDate ? new Date(startDate).toLocaleDateString() : "TBD";
+  const end = endDate ? new Date(endDate).toLocaleDateString() : "TBD";
+  return `${start} – ${end}`;
+};
+
+export function GroupedTasksView({ milestones, groupBy, onTaskClick }: GroupedTasksViewProps) {
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
 
   const toggleGroup = (groupKey: string) => {
@@ -66,6 +76,8 @@ export function GroupedTasksView({ milestones, groupBy }: GroupedTasksViewProps)
           key: groupKey,
           name: groupName,
           tasks: [],
+          startDate: groupBy === "sprint" ? milestone.jiraSprintStartDate : null,
+          endDate: groupBy === "sprint" ? milestone.jiraSprintEndDate : null,
         };
       }
 
@@ -76,6 +88,12 @@ export function GroupedTasksView({ milestones, groupBy }: GroupedTasksViewProps)
       // Put "No Epic/Sprint" group at the end
       if (a.key.startsWith("no-")) return 1;
       if (b.key.startsWith("no-")) return -1;
+      // Sprints with dates in chronological order, undated (future) sprints after them
+      if (a.startDate && b.startDate) {
+        return new Date(a.startDate).getTime() - new Date(b.startDate).getTime();
+      }
+      if (a.startDate) return -1;
+      if (b.startDate) return 1;
       return a.name.localeCompare(b.name);
     });
   };
@@ -127,6 +145,7 @@ export function GroupedTasksView({ milestones, groupBy }: GroupedTasksViewProps)
       {groups.map((group) => {
         const isExpanded = expandedGroups.has(group.key);
         const totalHours = group.tasks.reduce((sum, task) => sum + (task.estimatedHours || 0), 0);
+        const sprintDates = formatSprintDates(group.startDate, group.endDate);
         
         return (
           <Card key={group.key} data-testid={`group-${group.key}`}>
@@ -146,6 +165,11 @@ export function GroupedTasksView({ milestones, groupBy }: GroupedTasksViewProps)
                   <Badge variant="outline" data-testid={`group-count-${group.key}`}>
                     {group.tasks.length} {group.tasks.length === 1 ? "task" : "tasks"}
                   </Badge>
+                  {sprintDates && (
+                    <span className="text-sm text-muted-foreground" data-testid={`group-dates-${group.key}`}>
+                      {sprintDates}
+                    </span>
+                  )}
                 </div>
                 {totalHours > 0 && (
                   <span className="text-sm text-muted-foreground" data-testid={`group-hours-${group.key}`}>
@@ -160,7 +184,8 @@ export function GroupedTasksView({ milestones, groupBy }: GroupedTasksViewProps)
                 {group.tasks.map((task) => (
                   <div
                     key={task.id}
-                    className="p-3 border border-border rounded-md hover-elevate"
+                    className={`p-3 border border-border rounded-md hover-elevate ${onTaskClick ? 'cursor-pointer' : ''}`}
+                    onClick={() => onTaskClick?.(task.id)}
                     data-testid={`task-${task.id}`}
                   >
                     <div className="flex items-start justify-between gap-2">
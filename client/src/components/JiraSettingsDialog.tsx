@@ -12,10 +12,9 @@ import { apiRequest } from "@/lib/queryClient";
 interface JiraSettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  businessUserId: string;
 }
 
-export function JiraSettingsDialog({ open, onOpenChange, businessUserId }: JiraSettingsDialogProps) {
+export function JiraSettingsDialog({ open, onOpenChange }: JiraSettingsDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [jiraDomain, setJiraDomain] = useState("");
@@ -24,7 +23,7 @@ export function JiraSettingsDialog({ open, onOpenChange, businessUserId }: JiraS
 
   // Fetch existing settings
   const { data: settings, isLoading } = useQuery({
-    queryKey: ["/api/jira/settings", businessUserId],
+    queryKey: ["/api/jira/settings"],
     enabled: open,
   });
 
@@ -43,8 +42,6 @@ export function JiraSettingsDialog({ open, onOpenChange, businessUserId }: JiraS
     mutationFn: async () => {
       const response = await fetch(`/api/jira/test-connection`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ businessUserId }),
       });
       if (!response.ok) {
         const error = await response.json();
@@ -57,7 +54,7 @@ export function JiraSettingsDialog({ open, onOpenChange, businessUserId }: JiraS
         title: "Connection Successful",
         description: data.message,
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/jira/settings", businessUserId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jira/settings"] });
     },
     onError: (error: any) => {
       toast({
@@ -73,7 +70,6 @@ export function JiraSettingsDialog({ open, onOpenChange, businessUserId }: JiraS
     mutationFn: async () => {
       // Only include API token if provided (to preserve existing token)
       const payload: any = {
-        businessUserId,
         jiraDomain,
         jiraEmail,
         connectionType: "manual",
@@ -91,7 +87,7 @@ export function JiraSettingsDialog({ open, onOpenChange, businessUserId }: JiraS
         title: "Settings Saved",
         description: "Jira configuration has been saved successfully.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/jira/settings", businessUserId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jira/settings"] });
       onOpenChange(false);
     },
     onError: (error: any) => {
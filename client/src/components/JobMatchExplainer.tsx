@@ -1,6 +1,6 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, TrendingUp, Users, Lightbulb } from "lucide-react";
+import { CheckCircle2, TrendingUp, Users, Lightbulb, Star } from "lucide-react";
 
 interface JobMatchExplainerProps {
   fitScore: {
@@ -9,6 +9,9 @@ interface JobMatchExplainerProps {
     experienceMatch: number;
     softSkillRelevance: number;
     reasoning?: string;
+    baseScore?: number | null;
+    reputationAdjustment?: number | null;
+    reputationScore?: number | null;
   };
   className?: string;
 }
@@ -84,6 +87,24 @@ export function JobMatchExplainer({ fitScore, className }: JobMatchExplainerProp
           </div>
         </div>
 
+        {fitScore.reputationScore != null && (
+          <div className="flex items-start gap-3 pt-2 border-t border-border" data-testid="reputation-adjustment">
+            <Star className="w-4 h-4 mt-0.5 shrink-0 text-foreground" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">Reputation</span>
+                <Badge variant="outline" className="border-0 bg-muted/50">
+                  {(fitScore.reputationAdjustment ?? 0) >= 0 ? "+" : ""}{fitScore.reputationAdjustment ?? 0} pts
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                Rated {fitScore.reputationScore.toFixed(1)}/5 on past projects
+                {fitScore.baseScore != null && ` · ${fitScore.baseScore}% base fit → ${fitScore.score}%`}
+              </p>
+            </div>
+          </div>
+        )}
+
         {fitScore.reasoning && (
           <div className="pt-2 border-t border-border">
             <p className="text-xs text-muted-foreground italic">
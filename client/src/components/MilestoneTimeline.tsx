@@ -1,6 +1,6 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { AlertTriangle, CheckCircle2, Clock } from "lucide-react";
+import { AlertTriangle, CheckCircle2, Clock, Calendar } from "lucide-react";
 import type { Milestone } from "@shared/schema";
 import { parseADFToText } from "@/lib/adf-parser";
 
@@ -59,6 +59,19 @@ export function MilestoneTimeline({ milestones, onMilestoneClick }: MilestoneTim
                 <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
                   {parseADFToText(milestone.description)}
                 </p>
+                {milestone.jiraSprintName && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground mt-2" data-testid={`milestone-sprint-${milestone.id}`}>
+                    <Calendar className="w-3 h-3" />
+                    <span>{milestone.jiraSprintName}</span>
+                    {(milestone.jiraSprintStartDate || milestone.jiraSprintEndDate) && (
+                      <span>
+                        ({milestone.jiraSprintStartDate ? new Date(milestone.jiraSprintStartDate).toLocaleDateString() : "TBD"}
+                        {" – "}
+                        {milestone.jiraSprintEndDate ? new Date(milestone.jiraSprintEndDate).toLocaleDateString() : "TBD"})
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </CardHeader>
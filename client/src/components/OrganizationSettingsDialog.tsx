@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Mail, Trash2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+type OrganizationRole = "owner" | "manager" | "viewer";
+
+interface OrganizationMember {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+}
+
+interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: string;
+}
+
+interface OrganizationResponse {
+  organization: { id: string; name: string };
+  role: OrganizationRole;
+  members: OrganizationMember[];
+  invitations: OrganizationInvitation[];
+}
+
+interface OrganizationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  viewer: "Viewer",
+};
+
+export function OrganizationSettingsDialog({ open, onOpenChange }: OrganizationSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("viewer");
+
+  const { data, isLoading } = useQuery<OrganizationResponse>({
+    queryKey: ["/api/organization"],
+    enabled: open,
+  });
+
+  const isOwner = data?.role === "owner";
+
+  const onError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update organization.",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/organization/invitations", { email: inviteEmail, role: inviteRole });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Invitation Sent",
+        description: `${inviteEmail} will receive a login link by email.`,
+      });
+      setInviteEmail("");
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      return await apiRequest("DELETE", `/api/organization/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    },
+    onError,
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: OrganizationRole }) => {
+      return await apiRequest("PATCH", `/api/organization/members/${memberId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      return await apiRequest("DELETE", `/api/organization/members/${memberId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-organization-settings">
+        <DialogHeader>
+          <DialogTitle className="text-2xl">{data?.organization.name || "Organization"}</DialogTitle>
+          <DialogDescription>
+            Teammates share your projects and Jira connection. Managers can edit projects; viewers have read-only access.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : data && (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Members</Label>
+              {data.members.map((member) => (
+                <div
+                  key={member.id}
+                  className="flex items-center justify-between gap-2 p-2 border border-border rounded-md"
+                  data-testid={`organization-member-${member.id}`}
+                >
+                  <span className="text-sm truncate">{member.email}</span>
+                  {isOwner ? (
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => updateRoleMutation.mutate({ memberId: member.id, role: role as OrganizationRole })}
+                      >
+                        <SelectTrigger className="w-32" data-testid={`select-member-role-${member.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map((role) => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeMutation.mutate(member.id)}
+                        data-testid={`button-remove-member-${member.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {isOwner && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email">Invite a teammate</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      placeholder="teammate@company.com"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      data-testid="input-invite-email"
+                    />
+                    <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as OrganizationRole)}>
+                      <SelectTrigger className="w-32" data-testid="select-invite-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as OrganizationRole[]).map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => inviteMutation.mutate()}
+                      disabled={!inviteEmail || inviteMutation.isPending}
+                      data-testid="button-send-invite"
+                    >
+                      {inviteMutation.isPending ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Mail className="w-4 h-4 mr-2" />
+                      )}
+                      Invite
+                    </Button>
+                  </div>
+                </div>
+
+                {data.invitations.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Pending invitations</Label>
+                    {data.invitations.map((invitation) => (
+                      <div
+                        key={invitation.id}
+                        className="flex items-center justify-between gap-2 p-2 border border-border rounded-md"
+                        data-testid={`organization-invitation-${invitation.id}`}
+                      >
+                        <span className="text-sm truncate">{invitation.email}</span>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{ROLE_LABELS[invitation.role]}</Badge>
+                          <span className="text-xs text-muted-foreground">
+                            expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => revokeMutation.mutate(invitation.id)}
+                            data-testid={`button-revoke-invitation-${invitation.id}`}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
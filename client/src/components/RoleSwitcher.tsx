@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { switchRole, type UserRole } from "@/lib/auth";
+import { ArrowLeftRight, Loader2 } from "lucide-react";
+
+const PORTAL_LABELS: Record<UserRole, string> = {
+  business: "Business Portal",
+  candidate: "Candidate Portal",
+};
+
+/**
+ * Header button for accounts holding both roles; hidden otherwise
+ */
+export function RoleSwitcher() {
+  const [, setLocation] = useLocation();
+  const { user, isDualRole, refetch } = useAuth();
+  const { toast } = useToast();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (!user || !isDualRole) {
+    return null;
+  }
+
+  const otherRole: UserRole = user.role === "business" ? "candidate" : "business";
+
+  const handleSwitch = async () => {
+    setIsSwitching(true);
+    try {
+      const { redirectTo } = await switchRole(otherRole);
+      await refetch();
+      setLocation(redirectTo);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could not switch portal",
+        description: error.message,
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      onClick={handleSwitch}
+      disabled={isSwitching}
+      data-testid="button-switch-role"
+    >
+      {isSwitching ? (
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+      ) : (
+        <ArrowLeftRight className="w-4 h-4 mr-2" />
+      )}
+      {PORTAL_LABELS[otherRole]}
+    </Button>
+  );
+}
@@ -1,11 +1,24 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { SkillMap } from "@shared/schema";
+import type { SkillImportance, SkillMap, SkillRequirement } from "@shared/schema";
 
 interface SkillMapDisplayProps {
   skillMap: SkillMap;
 }
 
+const IMPORTANCE_SECTIONS: { importance: SkillImportance; label: string; className?: string; variant?: "secondary" | "outline" }[] = [
+  { importance: "must", label: "Must Have", className: "bg-black text-white" },
+  { importance: "should", label: "Should Have", variant: "secondary" },
+  { importance: "nice", label: "Nice to Have", variant: "outline" },
+];
+
+function formatMinimums(skill: SkillRequirement): string | null {
+  const parts: string[] = [];
+  if (skill.min_proficiency) parts.push(skill.min_proficiency);
+  if (skill.min_years !== undefined) parts.push(`${skill.min_years}+ yrs`);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
 export function SkillMapDisplay({ skillMap }: SkillMapDisplayProps) {
   return (
     <Card data-testid="skill-map-display">
@@ -13,20 +26,32 @@ export function SkillMapDisplay({ skillMap }: SkillMapDisplayProps) {
         <CardTitle className="text-lg">{skillMap.milestone}</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div>
-          <div className="text-sm font-medium mb-2">Required Skills</div>
-          <div className="flex flex-wrap gap-2">
-            {skillMap.required_skills.map((skill, idx) => (
-              <Badge 
-                key={idx} 
-                className="bg-black text-white" 
-                data-testid={`skill-${idx}`}
-              >
-                {skill}
-              </Badge>
-            ))}
-          </div>
-        </div>
+        {IMPORTANCE_SECTIONS.map(({ importance, label, className, variant }) => {
+          const skills = skillMap.skills.filter((skill) => skill.importance === importance);
+          if (skills.length === 0) return null;
+          
+          return (
+            <div key={importance} data-testid={`skills-${importance}`}>
+              <div className="text-sm font-medium mb-2">{label}</div>
+              <div className="flex flex-wrap gap-2">
+                {skills.map((skill, idx) => {
+                  const minimums = formatMinimums(skill);
+                  return (
+                    <Badge 
+                      key={idx} 
+                      variant={variant}
+                      className={className} 
+                      data-testid={`skill-${importance}-${idx}`}
+                    >
+                      {skill.name}
+                      {minimums && <span className="ml-1 opacity-70">({minimums})</span>}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
         
         <div className="grid grid-cols-2 gap-4">
           <div>
@@ -36,6 +61,15 @@ export function SkillMapDisplay({ skillMap }: SkillMapDisplayProps) {
             </Badge>
           </div>
           
+          {skillMap.domain && (
+            <div>
+              <div className="text-sm font-medium mb-2">Domain</div>
+              <Badge variant="outline" data-testid="skill-map-domain">
+                {skillMap.domain}
+              </Badge>
+            </div>
+          )}
+          
           {skillMap.soft_skills && skillMap.soft_skills.length > 0 && (
             <div>
               <div className="text-sm font-medium mb-2">Soft Skills</div>
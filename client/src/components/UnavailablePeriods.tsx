@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarX, Plus, Trash2 } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { CandidateUnavailability } from "@shared/schema";
+
+export function UnavailablePeriods() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: periods = [] } = useQuery<CandidateUnavailability[]>({
+    queryKey: ["/api/candidate/unavailability"],
+  });
+
+  const addPeriodMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/candidate/unavailability", { startDate, endDate, reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/unavailability"] });
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not add period", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removePeriodMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/candidate/unavailability/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/unavailability"] });
+    },
+  });
+
+  return (
+    <Card data-testid="card-unavailable-periods">
+      <CardHeader>
+        <CardTitle>Unavailable Periods</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          You won't be offered milestones scheduled during these dates.
+        </p>
+
+        {periods.length > 0 && (
+          <div className="space-y-2">
+            {periods.map((period) => (
+              <div
+                key={period.id}
+                className="flex items-center justify-between gap-2 p-3 border border-border rounded-md"
+                data-testid={`unavailable-period-${period.id}`}
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <CalendarX className="w-4 h-4 text-muted-foreground" />
+                  <span>
+                    {new Date(period.startDate).toLocaleDateString()} – {new Date(period.endDate).toLocaleDateString()}
+                  </span>
+                  {period.reason && <span className="text-muted-foreground">({period.reason})</span>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removePeriodMutation.mutate(period.id)}
+                  disabled={removePeriodMutation.isPending}
+                  data-testid={`button-remove-period-${period.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="unavailable-start">From</Label>
+            <Input
+              id="unavailable-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              data-testid="input-unavailable-start"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="unavailable-end">Until</Label>
+            <Input
+              id="unavailable-end"
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              data-testid="input-unavailable-end"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="unavailable-reason">Reason</Label>
+            <Input
+              id="unavailable-reason"
+              placeholder="e.g. Vacation"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-unavailable-reason"
+            />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => addPeriodMutation.mutate()}
+          disabled={!startDate || !endDate || addPeriodMutation.isPending}
+          data-testid="button-add-period"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Unavailable Period
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
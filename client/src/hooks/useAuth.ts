@@ -16,6 +16,7 @@ export function useAuth() {
     isAuthenticated: !!data,
     isBusinessUser: data?.role === "business",
     isCandidateUser: data?.role === "candidate",
+    isDualRole: (data?.roles.length ?? 0) > 1,
     refetch,
   };
 }
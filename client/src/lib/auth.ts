@@ -1,9 +1,17 @@
 import { apiRequest } from "./queryClient";
 
+export type UserRole = 'candidate' | 'business';
+
 interface User {
   id: string;
   email: string;
-  role: 'candidate' | 'business';
+  role: UserRole; // Active role of this session
+  roles: UserRole[]; // Every role the account holds
+}
+
+interface SwitchRoleResponse {
+  user: User;
+  redirectTo: string;
 }
 
 let cachedUser: User | null | undefined = undefined;
@@ -41,6 +49,13 @@ export async function logout(): Promise<void> {
   }
 }
 
+export async function switchRole(role: UserRole): Promise<SwitchRoleResponse> {
+  const response = await apiRequest("POST", "/api/auth/switch-role", { role });
+  const data: SwitchRoleResponse = await response.json();
+  cachedUser = data.user;
+  return data;
+}
+
 export async function isAuthenticated(): Promise<boolean> {
   const user = await fetchSession();
   return user !== null;
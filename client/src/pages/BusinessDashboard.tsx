@@ -1,18 +1,24 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ProjectCard } from "@/components/ProjectCard";
-import { Plus, FolderKanban, Users, TrendingUp, AlertTriangle, ArrowLeft, Download, Settings } from "lucide-react";
+import { Plus, FolderKanban, Users, TrendingUp, AlertTriangle, ArrowLeft, Download, Settings, BarChart3, Building2 } from "lucide-react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { JiraSettingsDialog } from "@/components/JiraSettingsDialog";
+import { OrganizationSettingsDialog } from "@/components/OrganizationSettingsDialog";
+import { RoleSwitcher } from "@/components/RoleSwitcher";
+import { FitScoreAccuracyChart } from "@/components/FitScoreAccuracyChart";
+import type { BackgroundJob } from "@shared/schema";
 
 export default function BusinessDashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [jiraSettingsOpen, setJiraSettingsOpen] = useState(false);
+  const [organizationSettingsOpen, setOrganizationSettingsOpen] = useState(false);
+  const [importJobId, setImportJobId] = useState<string | null>(null);
 
   const { data: projects = [] } = useQuery<any[]>({
     queryKey: ["/api/projects"],
@@ -31,8 +37,6 @@ export default function BusinessDashboard() {
     mutationFn: async () => {
       const response = await fetch("/api/jira/import-projects", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ businessUserId: "demo-business-user" }),
       });
       if (!response.ok) {
         throw new Error("Failed to import projects");
@@ -40,12 +44,7 @@ export default function BusinessDashboard() {
       return await response.json();
     },
     onSuccess: (data: any) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/business/stats"] });
-      toast({
-        title: "Import Successful",
-        description: `Imported ${data.imported} project(s) from Jira with AI-powered skill mapping.`,
-      });
+      setImportJobId(data.jobId);
     },
     onError: (error: any) => {
       toast({
@@ -56,6 +55,40 @@ export default function BusinessDashboard() {
     },
   });
 
+  // Poll the background import job until it finishes
+  const { data: importJob } = useQuery<BackgroundJob>({
+    queryKey: ["/api/jobs", importJobId],
+    enabled: !!importJobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 2000;
+    },
+  });
+
+  useEffect(() => {
+    if (!importJob || importJob.id !== importJobId) return;
+
+    if (importJob.status === "completed") {
+      const result = importJob.result as any;
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/business/stats"] });
+      toast({
+        title: "Import Successful",
+        description: `Imported ${result?.imported ?? 0} project(s) from Jira with AI-powered skill mapping.`,
+      });
+      setImportJobId(null);
+    } else if (importJob.status === "failed") {
+      toast({
+        title: "Import Failed",
+        description: importJob.error || "Failed to import projects from Jira. Please check your Jira connection.",
+        variant: "destructive",
+      });
+      setImportJobId(null);
+    }
+  }, [importJob, importJobId, toast]);
+
+  const isImporting = importFromJiraMutation.isPending || !!importJobId;
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b border-border bg-white sticky top-0 z-50">
@@ -73,6 +106,15 @@ export default function BusinessDashboard() {
               <h1 className="text-2xl font-bold" data-testid="business-dashboard-title">Business Portal</h1>
             </div>
             <div className="flex items-center gap-2">
+              <RoleSwitcher />
+              <Button 
+                variant="outline"
+                size="icon"
+                onClick={() => setOrganizationSettingsOpen(true)}
+                data-testid="button-organization-settings"
+              >
+                <Building2 className="w-4 h-4" />
+              </Button>
               <Button 
                 variant="outline"
                 size="icon"
@@ -81,14 +123,22 @@ export default function BusinessDashboard() {
               >
                 <Settings className="w-4 h-4" />
               </Button>
+              <Button 
+                variant="outline"
+                onClick={() => setLocation("/business/metrics")}
+                data-testid="button-metrics"
+              >
+                <BarChart3 className="w-4 h-4 mr-2" />
+                Metrics
+              </Button>
               <Button 
                 variant="outline"
                 onClick={() => importFromJiraMutation.mutate()}
-                disabled={importFromJiraMutation.isPending}
+                disabled={isImporting}
                 data-testid="button-import-jira"
               >
                 <Download className="w-4 h-4 mr-2" />
-                {importFromJiraMutation.isPending ? "Importing..." : "Import from Jira"}
+                {isImporting ? `Importing... ${importJob?.progress ?? 0}%` : "Import from Jira"}
               </Button>
               <Button 
                 onClick={() => setLocation("/business/projects/new")}
@@ -155,6 +205,8 @@ export default function BusinessDashboard() {
           </Card>
         </div>
 
+        <FitScoreAccuracyChart />
+
         <div className="mb-6">
           <h2 className="text-2xl font-semibold mb-4">Your Projects</h2>
           {projects.length === 0 ? (
@@ -188,7 +240,11 @@ export default function BusinessDashboard() {
       <JiraSettingsDialog
         open={jiraSettingsOpen}
         onOpenChange={setJiraSettingsOpen}
-        businessUserId="demo-business-user"
+      />
+
+      <OrganizationSettingsDialog
+        open={organizationSettingsOpen}
+        onOpenChange={setOrganizationSettingsOpen}
       />
     </div>
   );
@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ArrowLeft, Clock, Gauge, LifeBuoy, Filter } from "lucide-react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+
+interface BusinessMetrics {
+  range: { from: string; to: string };
+  timeToFill: {
+    filled: number;
+    unfilled: number;
+    averageHours: number | null;
+    medianHours: number | null;
+    milestones: Array<{ milestoneId: string; milestoneName: string; projectName: string; hours: number }>;
+  };
+  utilization: {
+    averageUtilization: number | null;
+    candidates: Array<{
+      candidateId: string;
+      candidateName: string;
+      weeklyCapacityHours: number;
+      bookedWeeklyHours: number;
+      utilization: number;
+    }>;
+  };
+  backupActivation: {
+    activations: number;
+    succeeded: number;
+    failed: number;
+    pending: number;
+    successRate: number | null;
+  };
+  applicationFunnel: {
+    total: number;
+    rejected: number;
+    withdrawn: number;
+    stages: Array<{ stage: string; count: number; conversion: number }>;
+  };
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  submitted: "Submitted",
+  under_review: "Under review",
+  interview: "Interview",
+  accepted: "Accepted",
+  active: "Active",
+  completed: "Completed",
+};
+
+const timeToFillConfig = {
+  hours: { label: "Hours to fill", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const utilizationConfig = {
+  utilization: { label: "Utilization %", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const funnelConfig = {
+  count: { label: "Applications", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+function toDateInput(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatHours(hours: number | null) {
+  if (hours === null) return "—";
+  return hours >= 48 ? `${Math.round(hours / 24)}d` : `${Math.round(hours)}h`;
+}
+
+export default function BusinessMetrics() {
+  const [, setLocation] = useLocation();
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+
+  // Include the whole "to" day
+  const params = new URLSearchParams({ from, to: `${to}T23:59:59` });
+  const { data: metrics, isLoading, error } = useQuery<BusinessMetrics>({
+    queryKey: [`/api/business/metrics?${params.toString()}`],
+    enabled: !!from && !!to,
+  });
+
+  const funnelData = (metrics?.applicationFunnel.stages || []).map((stage) => ({
+    ...stage,
+    label: STAGE_LABELS[stage.stage] || stage.stage,
+  }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-white sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/business")}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-2xl font-bold flex-1" data-testid="metrics-title">Staffing Metrics</h1>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="metrics-from" className="text-xs">From</Label>
+                <Input
+                  id="metrics-from"
+                  type="date"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  data-testid="input-metrics-from"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="metrics-to" className="text-xs">To</Label>
+                <Input
+                  id="metrics-to"
+                  type="date"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                  data-testid="input-metrics-to"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        {isLoading && <div className="text-muted-foreground">Loading metrics...</div>}
+        {error && (
+          <div className="text-sm text-[hsl(0,84%,60%)]" data-testid="metrics-error">
+            {(error as Error).message}
+          </div>
+        )}
+
+        {metrics && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+              <Card data-testid="metric-time-to-fill">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Median Time-to-Fill</CardTitle>
+                    <Clock className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">{formatHours(metrics.timeToFill.medianHours)}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {metrics.timeToFill.filled} filled · {metrics.timeToFill.unfilled} open
+                  </p>
+                </CardContent>
+              </Card>
+              <Card data-testid="metric-utilization">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Avg Utilization</CardTitle>
+                    <Gauge className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">
+                    {metrics.utilization.averageUtilization === null ? "—" : `${metrics.utilization.averageUtilization}%`}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {metrics.utilization.candidates.length} candidates working
+                  </p>
+                </CardContent>
+              </Card>
+              <Card data-testid="metric-backup-success">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Backup Success</CardTitle>
+                    <LifeBuoy className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">
+                    {metrics.backupActivation.successRate === null ? "—" : `${metrics.backupActivation.successRate}%`}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {metrics.backupActivation.activations} activations · {metrics.backupActivation.pending} in progress
+                  </p>
+                </CardContent>
+              </Card>
+              <Card data-testid="metric-funnel">
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">Applications</CardTitle>
+                    <Filter className="w-4 h-4 text-muted-foreground" />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold">{metrics.applicationFunnel.total}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {metrics.applicationFunnel.stages.find((s) => s.stage === "accepted")?.conversion ?? 0}% accepted
+                    · {metrics.applicationFunnel.rejected} rejected · {metrics.applicationFunnel.withdrawn} withdrawn
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card data-testid="chart-time-to-fill">
+                <CardHeader>
+                  <CardTitle>Time-to-Fill by Milestone</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {metrics.timeToFill.milestones.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No milestones filled in this period</p>
+                  ) : (
+                    <ChartContainer config={timeToFillConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={metrics.timeToFill.milestones}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="milestoneName" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={40} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="hours" fill="var(--color-hours)" radius={2} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card data-testid="chart-utilization">
+                <CardHeader>
+                  <CardTitle>Candidate Utilization</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {metrics.utilization.candidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No candidates working in this period</p>
+                  ) : (
+                    <ChartContainer config={utilizationConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={metrics.utilization.candidates}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="candidateName" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={40} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="utilization" fill="var(--color-utilization)" radius={2} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="lg:col-span-2" data-testid="chart-funnel">
+                <CardHeader>
+                  <CardTitle>Application Funnel</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {metrics.applicationFunnel.total === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No applications in this period</p>
+                  ) : (
+                    <ChartContainer config={funnelConfig} className="h-64 w-full aspect-auto">
+                      <BarChart data={funnelData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                        <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
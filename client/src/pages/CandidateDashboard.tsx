@@ -2,18 +2,30 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Upload, Calendar, Briefcase, TrendingUp, Bookmark, X, Send, ChevronDown, ChevronUp } from "lucide-react";
+import { ArrowLeft, Upload, Calendar, Briefcase, TrendingUp, Bookmark, X, Send, ChevronDown, ChevronUp, Check } from "lucide-react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { JobMatchExplainer } from "@/components/JobMatchExplainer";
+import { RoleSwitcher } from "@/components/RoleSwitcher";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 export default function CandidateDashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [expandedExplainer, setExpandedExplainer] = useState<string | null>(null);
+  const [decliningOffer, setDecliningOffer] = useState<any | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
 
   const { data: candidate } = useQuery({
     queryKey: ["/api/candidate/profile"],
@@ -27,6 +39,39 @@ export default function CandidateDashboard() {
     queryKey: ["/api/candidate/stats"],
   });
 
+  const { data: offers = [] } = useQuery<any[]>({
+    queryKey: ["/api/candidate/offers"],
+  });
+
+  const acceptOfferMutation = useMutation({
+    mutationFn: async (milestoneId: string) => {
+      return await apiRequest("POST", `/api/candidate/offers/${milestoneId}/accept`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/offers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/profile"] });
+      toast({ title: "Offer accepted", description: "You are now confirmed for this milestone." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not accept offer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const declineOfferMutation = useMutation({
+    mutationFn: async ({ milestoneId, reason }: { milestoneId: string; reason: string }) => {
+      return await apiRequest("POST", `/api/candidate/offers/${milestoneId}/decline`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidate/offers"] });
+      setDecliningOffer(null);
+      setDeclineReason("");
+      toast({ title: "Offer declined", description: "Thanks for letting the business know." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Could not decline offer", description: error.message, variant: "destructive" });
+    },
+  });
+
   const saveJobMutation = useMutation({
     mutationFn: async (milestoneId: string) => {
       return await apiRequest("POST", "/api/candidate/save-job", { milestoneId });
@@ -74,12 +119,15 @@ export default function CandidateDashboard() {
               </Button>
               <h1 className="text-2xl font-bold" data-testid="candidate-dashboard-title">Candidate Portal</h1>
             </div>
-            <Button 
-              onClick={() => setLocation("/candidate/profile")}
-              data-testid="button-manage-profile"
-            >
-              Manage Profile
-            </Button>
+            <div className="flex items-center gap-2">
+              <RoleSwitcher />
+              <Button 
+                onClick={() => setLocation("/candidate/profile")}
+                data-testid="button-manage-profile"
+              >
+                Manage Profile
+              </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -152,6 +200,91 @@ export default function CandidateDashboard() {
           </Card>
         )}
 
+        {offers.length > 0 && (
+          <div className="mb-8" data-testid="offers-section">
+            <h2 className="text-2xl font-semibold mb-4">Offers</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {offers.map((offer: any) => (
+                <Card key={offer.milestoneId} className="flex flex-col" data-testid={`offer-${offer.milestoneId}`}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-lg">{offer.milestoneName}</CardTitle>
+                        <p className="text-sm text-muted-foreground">{offer.projectName}</p>
+                      </div>
+                      {offer.fitScore !== null && (
+                        <Badge className="bg-[hsl(142,76%,36%)] text-white shrink-0">
+                          {offer.fitScore}% Fit
+                        </Badge>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex-1 flex flex-col justify-end gap-3">
+                    {offer.estimatedHours && (
+                      <div className="text-sm text-muted-foreground">
+                        Estimate: <span className="font-medium text-foreground">{offer.estimatedHours}h</span>
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => setDecliningOffer(offer)}
+                        disabled={declineOfferMutation.isPending}
+                        data-testid={`button-decline-offer-${offer.milestoneId}`}
+                      >
+                        <X className="w-4 h-4 mr-1" />
+                        Decline
+                      </Button>
+                      <Button
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => acceptOfferMutation.mutate(offer.milestoneId)}
+                        disabled={acceptOfferMutation.isPending}
+                        data-testid={`button-accept-offer-${offer.milestoneId}`}
+                      >
+                        <Check className="w-4 h-4 mr-1" />
+                        Accept
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Dialog open={!!decliningOffer} onOpenChange={(open) => !open && setDecliningOffer(null)}>
+          <DialogContent data-testid="dialog-decline-offer">
+            <DialogHeader>
+              <DialogTitle>Decline Offer</DialogTitle>
+              <DialogDescription>
+                {decliningOffer?.milestoneName} — {decliningOffer?.projectName}
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              placeholder="Reason (optional)"
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+              data-testid="input-decline-reason"
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDecliningOffer(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => declineOfferMutation.mutate({ milestoneId: decliningOffer.milestoneId, reason: declineReason })}
+                disabled={declineOfferMutation.isPending}
+                data-testid="button-confirm-decline"
+              >
+                Decline Offer
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <div>
           <h2 className="text-2xl font-semibold mb-4">Recommended Projects</h2>
           {recommendations.length === 0 ? (
@@ -218,7 +351,10 @@ export default function CandidateDashboard() {
                                 skillOverlap: rec.skillOverlap || 0,
                                 experienceMatch: rec.experienceMatch || 0,
                                 softSkillRelevance: rec.softSkillRelevance || 0,
-                                reasoning: rec.reasoning
+                                reasoning: rec.reasoning,
+                                baseScore: rec.baseScore,
+                                reputationAdjustment: rec.reputationAdjustment,
+                                reputationScore: rec.reputationScore,
                               }}
                             />
                           </div>
@@ -13,6 +13,8 @@ import { useLocation } from "wouter";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { UnavailablePeriods } from "@/components/UnavailablePeriods";
+import type { Candidate } from "@shared/schema";
 
 const profileSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
@@ -22,6 +24,7 @@ const profileSchema = z.object({
   githubUrl: z.string().url().optional().or(z.literal("")),
   availableFrom: z.string().optional(),
   availableUntil: z.string().optional(),
+  weeklyCapacityHours: z.string().regex(/^\d*$/, "Enter a whole number of hours").optional(),
 });
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
@@ -35,7 +38,7 @@ export default function CandidateProfile() {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [parseStage, setParseStage] = useState<'idle' | 'uploading' | 'parsing' | 'analyzing' | 'complete'>('idle');
 
-  const { data: candidate, isLoading: isCandidateLoading } = useQuery({
+  const { data: candidate, isLoading: isCandidateLoading } = useQuery<Candidate>({
     queryKey: ["/api/candidate/profile"],
   });
 
@@ -49,6 +52,7 @@ export default function CandidateProfile() {
       githubUrl: "",
       availableFrom: "",
       availableUntil: "",
+      weeklyCapacityHours: "40",
     },
   });
 
@@ -63,6 +67,7 @@ export default function CandidateProfile() {
         githubUrl: candidate?.githubUrl || "",
         availableFrom: candidate?.availableFrom ? new Date(candidate.availableFrom).toISOString().split('T')[0] : "",
         availableUntil: candidate?.availableUntil ? new Date(candidate.availableUntil).toISOString().split('T')[0] : "",
+        weeklyCapacityHours: String(candidate?.weeklyCapacityHours ?? 40),
       });
     }
   }, [candidate, form]);
@@ -297,7 +302,7 @@ export default function CandidateProfile() {
                 )}
               </div>
             )}
-            {candidate?.cvAnalysis && (
+            {!!candidate?.cvAnalysis && (
               <div className="p-4 border border-border rounded-md bg-muted/30">
                 <div className="text-sm font-medium mb-2">AI Analysis Results</div>
                 <div className="text-sm text-muted-foreground space-y-1">
@@ -432,6 +437,20 @@ export default function CandidateProfile() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="weeklyCapacityHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Weekly Capacity (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={80} {...field} data-testid="input-weekly-capacity" />
+                      </FormControl>
+                      <FormDescription>How many hours per week can you commit across all projects?</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
 
@@ -455,6 +474,10 @@ export default function CandidateProfile() {
             </div>
           </form>
         </Form>
+
+        <div className="mt-6">
+          <UnavailablePeriods />
+        </div>
       </main>
     </div>
   );
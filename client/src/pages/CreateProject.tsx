@@ -4,7 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { ArrowLeft, Plus, Trash2, Sparkles } from "lucide-react";
@@ -17,8 +17,8 @@ import { SkillMapDisplay } from "@/components/SkillMapDisplay";
 const projectSchema = z.object({
   name: z.string().min(3, "Project name must be at least 3 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
-  businessUserId: z.string().default("demo-user"),
   jiraProjectKey: z.string().optional(),
+  aiMatchLimit: z.number().int().min(0).max(100).optional(),
   milestones: z.array(z.object({
     name: z.string().min(1, "Milestone name is required"),
     description: z.string().min(1, "Description is required"),
@@ -40,7 +40,6 @@ export default function CreateProject() {
     defaultValues: {
       name: "",
       description: "",
-      businessUserId: "demo-user",
       jiraProjectKey: "",
       milestones: [{ name: "", description: "", estimatedHours: undefined }],
     },
@@ -189,6 +188,29 @@ export default function CreateProject() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="aiMatchLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>AI-Scored Candidates per Milestone (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="10"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                          data-testid="input-ai-match-limit"
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        All candidates are ranked locally; only the top ones are scored by AI.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
 
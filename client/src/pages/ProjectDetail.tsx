@@ -5,13 +5,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { MilestoneTimeline } from "@/components/MilestoneTimeline";
 import { CandidateCard } from "@/components/CandidateCard";
 import { GroupedTasksView } from "@/components/GroupedTasksView";
+import { AssignmentHistory } from "@/components/AssignmentHistory";
+import { CandidateRatingForm } from "@/components/CandidateRatingForm";
 import { ArrowLeft, AlertTriangle, Users, Target, RefreshCw, List } from "lucide-react";
 import { useLocation, useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Project, Milestone, Candidate } from "@shared/schema";
-import { useState } from "react";
+import type { Project, Milestone, Candidate, BackgroundJob } from "@shared/schema";
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -27,6 +36,8 @@ export default function ProjectDetail() {
   const { toast } = useToast();
   const [groupBy, setGroupBy] = useState<"epic" | "sprint" | "none">("sprint");
   const [viewMode, setViewMode] = useState<"timeline" | "grouped">("grouped");
+  const [syncJobId, setSyncJobId] = useState<string | null>(null);
+  const [historyMilestoneId, setHistoryMilestoneId] = useState<string | null>(null);
 
   const { data: project, isLoading: projectLoading } = useQuery<Project>({
     queryKey: ["/api/projects", projectId],
@@ -46,26 +57,57 @@ export default function ProjectDetail() {
 
   const syncJiraMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest("POST", `/api/projects/${projectId}/sync-jira`, {});
+      const response = await apiRequest("POST", `/api/projects/${projectId}/sync-jira`, {});
+      return await response.json();
     },
     onSuccess: (data: any) => {
+      setSyncJobId(data.jobId);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Sync Failed",
+        description: error.message || "Failed to start Jira sync",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Poll the background sync job until it finishes
+  const { data: syncJob } = useQuery<BackgroundJob>({
+    queryKey: ["/api/jobs", syncJobId],
+    enabled: !!syncJobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 2000;
+    },
+  });
+
+  useEffect(() => {
+    if (!syncJob || syncJob.id !== syncJobId) return;
+
+    if (syncJob.status === "completed") {
+      const result = syncJob.result as any;
       toast({
         title: "Sync Complete",
-        description: data.message || `Successfully synced ${data.synced} tasks from Jira`,
+        description: result?.message || `Successfully synced ${result?.synced ?? 0} tasks from Jira`,
       });
       // Invalidate queries to refresh the data
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "milestones"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "candidates"] });
       queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "risks"] });
-    },
-    onError: (error: any) => {
+      setSyncJobId(null);
+    } else if (syncJob.status === "failed") {
       toast({
         title: "Sync Failed",
-        description: error.message || "Failed to sync tasks from Jira",
+        description: syncJob.error || "Failed to sync tasks from Jira",
         variant: "destructive",
       });
-    },
-  });
+      setSyncJobId(null);
+    }
+  }, [syncJob, syncJobId, projectId, toast]);
+
+  const isSyncing = syncJiraMutation.isPending || !!syncJobId;
+  const historyMilestone = milestones.find(m => m.id === historyMilestoneId);
 
   if (projectLoading) {
     return (
@@ -118,11 +160,11 @@ export default function ProjectDetail() {
               <Button 
                 variant="outline"
                 onClick={() => syncJiraMutation.mutate()}
-                disabled={syncJiraMutation.isPending}
+                disabled={isSyncing}
                 data-testid="button-sync-jira"
               >
-                <RefreshCw className={`w-4 h-4 mr-2 ${syncJiraMutation.isPending ? 'animate-spin' : ''}`} />
-                {syncJiraMutation.isPending ? "Syncing..." : "Sync Tasks from Jira"}
+                <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                {isSyncing ? `Syncing... ${syncJob?.progress ?? 0}%` : "Sync Tasks from Jira"}
               </Button>
             )}
             <Badge className={getStatusColor(project.status)} data-testid="project-status">
@@ -226,9 +268,9 @@ export default function ProjectDetail() {
                 </CardContent>
               </Card>
             ) : viewMode === "timeline" ? (
-              <MilestoneTimeline milestones={milestones} />
+              <MilestoneTimeline milestones={milestones} onMilestoneClick={setHistoryMilestoneId} />
             ) : (
-              <GroupedTasksView milestones={milestones} groupBy={groupBy} />
+              <GroupedTasksView milestones={milestones} groupBy={groupBy} onTaskClick={setHistoryMilestoneId} />
             )}
           </TabsContent>
 
@@ -287,6 +329,21 @@ export default function ProjectDetail() {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <Dialog open={!!historyMilestoneId} onOpenChange={(open) => !open && setHistoryMilestoneId(null)}>
+          <DialogContent className="max-w-lg" data-testid="dialog-assignment-history">
+            <DialogHeader>
+              <DialogTitle>{historyMilestone?.name}</DialogTitle>
+              <DialogDescription>Assignment history and candidate ratings</DialogDescription>
+            </DialogHeader>
+            {historyMilestoneId && (
+              <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+                <CandidateRatingForm milestoneId={historyMilestoneId} projectId={projectId} />
+                <AssignmentHistory milestoneId={historyMilestoneId} />
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </main>
     </div>
   );
@@ -4,6 +4,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Loader2, CheckCircle2, XCircle, AlertCircle } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { switchRole, type UserRole } from "@/lib/auth";
+
+const PORTAL_LABELS: Record<UserRole, string> = {
+  business: "Business Portal",
+  candidate: "Candidate Portal",
+};
 
 export default function VerifyMagicLink() {
   const [, setLocation] = useLocation();
@@ -11,6 +17,8 @@ export default function VerifyMagicLink() {
   const [status, setStatus] = useState<"loading" | "success" | "error">("loading");
   const [error, setError] = useState("");
   const [redirectPath, setRedirectPath] = useState("");
+  const [activeRole, setActiveRole] = useState<UserRole | null>(null);
+  const [otherRoles, setOtherRoles] = useState<UserRole[]>([]);
 
   useEffect(() => {
     const verifyToken = async () => {
@@ -40,10 +48,16 @@ export default function VerifyMagicLink() {
         setStatus("success");
         setRedirectPath(data.redirectTo);
 
-        // Auto-redirect after 2 seconds
-        setTimeout(() => {
-          setLocation(data.redirectTo);
-        }, 2000);
+        // Accounts with both roles choose a portal; everyone else is redirected after 2 seconds
+        const roles: UserRole[] = data.user.roles || [data.user.role];
+        const others = roles.filter((role) => role !== data.user.role);
+        setActiveRole(data.user.role);
+        setOtherRoles(others);
+        if (others.length === 0) {
+          setTimeout(() => {
+            setLocation(data.redirectTo);
+          }, 2000);
+        }
       } catch (err: any) {
         setStatus("error");
         setError(err.message || "Something went wrong. Please try again.");
@@ -53,6 +67,21 @@ export default function VerifyMagicLink() {
     verifyToken();
   }, [setLocation, refetch]);
 
+  const handleOpenPortal = async (role: UserRole) => {
+    if (role === activeRole) {
+      setLocation(redirectPath);
+      return;
+    }
+    try {
+      const { redirectTo } = await switchRole(role);
+      await refetch();
+      setLocation(redirectTo);
+    } catch (err: any) {
+      setStatus("error");
+      setError(err.message || "Could not open that portal.");
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -91,7 +120,7 @@ export default function VerifyMagicLink() {
               </p>
             )}
 
-            {status === "success" && (
+            {status === "success" && otherRoles.length === 0 && (
               <>
                 <p className="text-muted-foreground" data-testid="success-message">
                   You're being redirected to your dashboard...
@@ -102,6 +131,27 @@ export default function VerifyMagicLink() {
               </>
             )}
 
+            {status === "success" && activeRole && otherRoles.length > 0 && (
+              <>
+                <p className="text-muted-foreground" data-testid="success-message">
+                  Your account has access to more than one portal. Where would you like to go?
+                </p>
+                <div className="space-y-2">
+                  {[activeRole, ...otherRoles].map((role) => (
+                    <Button
+                      key={role}
+                      className="w-full"
+                      variant={role === activeRole ? "default" : "outline"}
+                      onClick={() => handleOpenPortal(role)}
+                      data-testid={`button-open-${role}-portal`}
+                    >
+                      {PORTAL_LABELS[role]}
+                    </Button>
+                  ))}
+                </div>
+              </>
+            )}
+
             {status === "error" && (
               <>
                 <div className="bg-destructive/10 border border-destructive/20 rounded-md p-4">
@@ -0,0 +1,51 @@
+-- Deduplicate fit_scores before `npm run db:push` adds the unique
+-- (candidate_id, milestone_id) index. Run once per existing database:
+--   psql "$DATABASE_URL" -f migrations/dedupe_fit_scores.sql
+--
+-- The newest score of each pair is kept. If that row is still pending but an
+-- older duplicate was already accepted or rejected, the decision is carried over.
+
+BEGIN;
+
+WITH ranked AS (
+  SELECT
+    id,
+    candidate_id,
+    milestone_id,
+    status,
+    row_number() OVER (
+      PARTITION BY candidate_id, milestone_id
+      ORDER BY created_at DESC, id DESC
+    ) AS position
+  FROM fit_scores
+),
+decided AS (
+  SELECT DISTINCT ON (candidate_id, milestone_id) candidate_id, milestone_id, status
+  FROM ranked
+  WHERE position > 1 AND status IN ('accepted', 'rejected')
+  ORDER BY candidate_id, milestone_id, position
+)
+UPDATE fit_scores f
+SET status = decided.status
+FROM ranked, decided
+WHERE f.id = ranked.id
+  AND ranked.position = 1
+  AND ranked.candidate_id = decided.candidate_id
+  AND ranked.milestone_id = decided.milestone_id
+  AND COALESCE(f.status, 'pending') = 'pending';
+
+DELETE FROM fit_scores
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      row_number() OVER (
+        PARTITION BY candidate_id, milestone_id
+        ORDER BY created_at DESC, id DESC
+      ) AS position
+    FROM fit_scores
+  ) ranked
+  WHERE position > 1
+);
+
+COMMIT;
@@ -0,0 +1,37 @@
+-- Upgrade stored milestone skill maps to version 2 (weighted, leveled skills).
+-- Safe to run more than once; rows already at a version are left alone:
+--   psql "$DATABASE_URL" -f migrations/upgrade_skill_maps.sql
+--
+-- Same rules as upgradeSkillMap in server/skill-map.ts:
+-- - AI v1 maps: required_skills become "must" skills
+-- - Rule-based maps: requiredSkills become "must", niceToHave "nice";
+--   experienceLevel and domain are carried over
+-- Maps in neither shape are left unchanged and skipped by the matcher.
+
+BEGIN;
+
+UPDATE milestones m
+SET skill_map = jsonb_strip_nulls(jsonb_build_object(
+  'version', 2,
+  'milestone', COALESCE(m.skill_map->>'milestone', m.name),
+  'skills', COALESCE((
+    SELECT jsonb_agg(jsonb_build_object('name', btrim(s.skill), 'importance', s.importance) ORDER BY s.position)
+    FROM (
+      SELECT skill, 'must' AS importance, ordinality AS position
+      FROM jsonb_array_elements_text(COALESCE(m.skill_map->'required_skills', m.skill_map->'requiredSkills')) WITH ORDINALITY AS r(skill, ordinality)
+      UNION ALL
+      SELECT skill, 'nice' AS importance, 100000 + ordinality AS position
+      FROM jsonb_array_elements_text(COALESCE(m.skill_map->'niceToHave', '[]'::jsonb)) WITH ORDINALITY AS n(skill, ordinality)
+    ) s
+    WHERE btrim(s.skill) <> ''
+  ), '[]'::jsonb),
+  'experience_level', COALESCE(m.skill_map->>'experience_level', m.skill_map->>'experienceLevel', 'mid-level'),
+  'soft_skills', CASE WHEN jsonb_typeof(m.skill_map->'soft_skills') = 'array' THEN m.skill_map->'soft_skills' ELSE '[]'::jsonb END,
+  'domain', NULLIF(btrim(m.skill_map->>'domain'), '')
+))
+WHERE m.skill_map IS NOT NULL
+  AND jsonb_typeof(m.skill_map) = 'object'
+  AND NOT (m.skill_map ? 'version')
+  AND jsonb_typeof(COALESCE(m.skill_map->'required_skills', m.skill_map->'requiredSkills')) = 'array';
+
+COMMIT;
@@ -0,0 +1,100 @@
+/**
+ * AI Provider Layer
+ * Every AI call in Lean Workforce goes through the provider selected here,
+ * so routes and jobs never depend on a specific LLM vendor or model name.
+ *
+ * Selection (AI_PROVIDER env var):
+ * - "gemini"  - Google Gemini (default, requires GEMINI_API_KEY)
+ * - "offline" - Deterministic rule-based provider, no network access
+ */
+
+import { createGeminiProvider } from "./gemini-provider";
+import { createOfflineProvider } from "./offline-provider";
+import type { SkillMap } from "@shared/schema";
+
+export type { SkillMap } from "@shared/schema";
+
+export interface CVAnalysis {
+  name: string;
+  email?: string;
+  skills: string[];
+  experience: string;
+  education: string;
+  soft_skills?: string[];
+  domain_expertise?: string[];
+}
+
+export type FitScoringMethod = "ai" | "rule_based";
+
+export interface FitScoreAnalysis {
+  score: number;
+  skillOverlap: number;
+  experienceMatch: number;
+  softSkillRelevance: number;
+  reasoning: string;
+  method: FitScoringMethod;
+}
+
+// Candidate input for batched fit scoring
+export interface CandidateProfile {
+  id: string;
+  skills: string[];
+  experience: string;
+}
+
+export interface RiskAnalysis {
+  risk_level: "low" | "medium" | "high" | "critical";
+  delay_percentage: number;
+  predicted_issues: string[];
+  recommendations: string[];
+  backup_required: boolean;
+}
+
+export type AIProviderName = "gemini" | "offline";
+
+export interface AIProvider {
+  name: AIProviderName;
+  generateSkillMap(milestoneName: string, milestoneDescription: string): Promise<SkillMap>;
+  analyzeCVText(cvText: string): Promise<CVAnalysis>;
+  calculateFitScore(candidateSkills: string[], candidateExperience: string, skillMap: SkillMap): Promise<FitScoreAnalysis>;
+  // One request for many candidates; results are in the same order as `candidates`
+  calculateFitScoresBatch(skillMap: SkillMap, candidates: CandidateProfile[]): Promise<FitScoreAnalysis[]>;
+  predictRisk(milestoneName: string, milestoneDescription: string, delayPercentage: number, estimatedHours: number): Promise<RiskAnalysis>;
+}
+
+const AI_PROVIDER_NAMES: AIProviderName[] = ["gemini", "offline"];
+
+let activeProvider: AIProvider | undefined;
+
+/**
+ * Resolve which provider to use from the environment
+ */
+export function resolveAIProviderName(): AIProviderName {
+  const configured = (process.env.AI_PROVIDER || "gemini").toLowerCase().trim();
+
+  if (!AI_PROVIDER_NAMES.includes(configured as AIProviderName)) {
+    throw new Error(`Unknown AI_PROVIDER "${configured}". Expected one of: ${AI_PROVIDER_NAMES.join(", ")}`);
+  }
+
+  return configured as AIProviderName;
+}
+
+/**
+ * Get the active AI provider (created lazily on first use)
+ */
+export function getAIProvider(): AIProvider {
+  if (!activeProvider) {
+    const name = resolveAIProviderName();
+    activeProvider = name === "offline" ? createOfflineProvider() : createGeminiProvider();
+    console.log(`[AI Provider] Using ${activeProvider.name} provider`);
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Override the active provider (tests and on-prem bootstrapping)
+ */
+export function setAIProvider(provider: AIProvider) {
+  activeProvider = provider;
+}
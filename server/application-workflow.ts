@@ -0,0 +1,144 @@
+/**
+ * Application Status Workflow - Enforced state machine for candidate applications
+ *
+ * submitted → under_review → interview → accepted / rejected
+ * accepted → active → completed
+ * Any open application can be withdrawn by the candidate.
+ */
+
+import { storage } from './storage';
+import type { Application, ApplicationStatusHistory } from '@shared/schema';
+
+export const APPLICATION_STATUSES = [
+  'submitted',
+  'under_review',
+  'interview',
+  'accepted',
+  'rejected',
+  'active',
+  'completed',
+  'withdrawn',
+] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export type ApplicationActorRole = 'business' | 'candidate' | 'system';
+
+const APPLICATION_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  submitted: ['under_review', 'rejected', 'withdrawn'],
+  under_review: ['interview', 'accepted', 'rejected', 'withdrawn'],
+  interview: ['accepted', 'rejected', 'withdrawn'],
+  accepted: ['active', 'withdrawn'],
+  rejected: [],
+  active: ['completed'],
+  completed: [],
+  withdrawn: [],
+};
+
+interface ApplicationTransitionResult {
+  success: boolean;
+  application?: Application;
+  error?: string;
+  statusCode?: number; // HTTP status to return on failure
+}
+
+export function isApplicationStatus(value: unknown): value is ApplicationStatus {
+  return typeof value === 'string' && (APPLICATION_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalize stored status values (applications created before the
+ * state machine used "pending" for new submissions)
+ */
+export function normalizeApplicationStatus(status: string): ApplicationStatus | undefined {
+  if (status === 'pending') return 'submitted';
+  return isApplicationStatus(status) ? status : undefined;
+}
+
+/**
+ * Get the statuses an application can move to from its current status
+ */
+export function getAllowedApplicationTransitions(status: string): ApplicationStatus[] {
+  const current = normalizeApplicationStatus(status);
+  return current ? APPLICATION_TRANSITIONS[current] : [];
+}
+
+export function canTransitionApplication(from: string, to: ApplicationStatus): boolean {
+  return getAllowedApplicationTransitions(from).includes(to);
+}
+
+/**
+ * Submit a new application and record the initial history entry
+ */
+export async function submitApplication(
+  candidateId: string,
+  milestoneId: string,
+  projectId: string,
+  actorEmail: string
+): Promise<Application> {
+  const application = await storage.createApplication({
+    candidateId,
+    milestoneId,
+    projectId,
+    status: 'submitted',
+  });
+
+  await storage.createApplicationStatusHistory({
+    applicationId: application.id,
+    fromStatus: null,
+    toStatus: 'submitted',
+    changedBy: actorEmail,
+    changedByRole: 'candidate',
+  });
+
+  return application;
+}
+
+/**
+ * Move an application to a new status, enforcing the state machine
+ * and recording the change in the status history
+ */
+export async function transitionApplication(
+  applicationId: string,
+  toStatus: ApplicationStatus,
+  actor: { email: string; role: ApplicationActorRole },
+  note?: string
+): Promise<ApplicationTransitionResult> {
+  const application = await storage.getApplication(applicationId);
+  if (!application) {
+    return { success: false, error: 'Application not found', statusCode: 404 };
+  }
+
+  if (!canTransitionApplication(application.status, toStatus)) {
+    const allowed = getAllowedApplicationTransitions(application.status);
+    return {
+      success: false,
+      error: `Cannot move application from "${application.status}" to "${toStatus}". Allowed: ${allowed.length > 0 ? allowed.join(', ') : 'none (final status)'}`,
+      statusCode: 409,
+    };
+  }
+
+  // Conditional on the status we validated against, so concurrent transitions can't both apply
+  const updated = await storage.updateApplicationStatus(applicationId, toStatus, application.status);
+  if (!updated) {
+    return { success: false, error: 'Application status changed concurrently, reload and try again', statusCode: 409 };
+  }
+
+  await storage.createApplicationStatusHistory({
+    applicationId,
+    fromStatus: application.status,
+    toStatus,
+    changedBy: actor.email,
+    changedByRole: actor.role,
+    note: note || null,
+  });
+
+  return { success: true, application: updated };
+}
+
+/**
+ * Get an application's status timeline (oldest first)
+ */
+export async function getApplicationTimeline(applicationId: string): Promise<ApplicationStatusHistory[]> {
+  return await storage.getApplicationStatusHistory(applicationId);
+}
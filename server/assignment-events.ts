@@ -0,0 +1,61 @@
+/**
+ * Assignment Events - Audit log of milestone assignment transitions
+ *
+ * assignmentStatus / backupAssignmentStatus on milestones only hold the current
+ * state; every offer, confirm, reject, activate, complete and fail transition of
+ * the primary or a backup candidate is also appended to assignment_events.
+ */
+
+import { storage } from './storage';
+import type { AssignmentEvent } from '@shared/schema';
+
+export const ASSIGNMENT_EVENT_TYPES = ['offer', 'confirm', 'reject', 'activate', 'complete', 'fail'] as const;
+
+export type AssignmentEventType = typeof ASSIGNMENT_EVENT_TYPES[number];
+
+export type AssignmentRole = 'primary' | 'backup';
+
+export interface AssignmentActor {
+  email?: string;
+  role: 'business' | 'candidate' | 'system';
+}
+
+export const SYSTEM_ACTOR: AssignmentActor = { role: 'system' };
+
+interface AssignmentTransition {
+  milestoneId: string;
+  candidateId: string | null;
+  role: AssignmentRole;
+  eventType: AssignmentEventType;
+  fromStatus: string | null;
+  toStatus: string;
+  reason?: string | null;
+}
+
+/**
+ * Append a transition to the milestone's assignment history.
+ * Never throws: a failed audit write must not undo the transition itself.
+ */
+export async function recordAssignmentEvent(
+  transition: AssignmentTransition,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<AssignmentEvent | undefined> {
+  try {
+    return await storage.createAssignmentEvent({
+      ...transition,
+      reason: transition.reason || null,
+      actor: actor.email || null,
+      actorRole: actor.role,
+    });
+  } catch (error: any) {
+    console.error(`[Assignment Events] Failed to record ${transition.eventType} on milestone ${transition.milestoneId}:`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Get a milestone's assignment history (oldest first)
+ */
+export async function getAssignmentHistory(milestoneId: string): Promise<AssignmentEvent[]> {
+  return await storage.getAssignmentEvents(milestoneId);
+}
@@ -1,8 +1,17 @@
 /**
  * Assignment Validation - Prevents candidate double-booking
+ *
+ * A candidate can take on overlapping milestones as long as the combined
+ * weekly load stays within their weeklyCapacityHours. A milestone's window is
+ * its startDate/endDate (or its Jira sprint dates); undated milestones are
+ * assumed to overlap everything and to be worked full-time until done.
+ * Declared availability (availableFrom/availableUntil) and unavailable date
+ * ranges block any assignment whose window touches them.
  */
 
 import { storage } from './storage';
+import { queueJiraWriteBack } from './jira-writeback';
+import { recordAssignmentEvent, SYSTEM_ACTOR, type AssignmentActor } from './assignment-events';
 import type { Candidate, Milestone } from '@shared/schema';
 
 interface AssignmentValidationResult {
@@ -11,42 +20,118 @@ interface AssignmentValidationResult {
   activeAssignments?: Milestone[];
 }
 
+interface AssignmentResult {
+  success: boolean;
+  error?: string;
+  statusCode?: number; // HTTP status to return on failure
+}
+
+const DEFAULT_WEEKLY_CAPACITY_HOURS = 40;
+const DEFAULT_ESTIMATED_HOURS = 40;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface ScheduleWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Get a milestone's planned window: its own dates, else its Jira sprint dates
+ */
+export function getMilestoneWindow(milestone: Milestone): ScheduleWindow | undefined {
+  const start = milestone.startDate || milestone.jiraSprintStartDate;
+  const end = milestone.endDate || milestone.jiraSprintEndDate;
+  if (!start || !end || new Date(end) < new Date(start)) return undefined;
+  return { start: new Date(start), end: new Date(end) };
+}
+
+/**
+ * Hours per week a milestone needs, spreading the estimate over its window
+ */
+export function getWeeklyLoad(milestone: Milestone): number {
+  const hours = milestone.estimatedHours || DEFAULT_ESTIMATED_HOURS;
+  const window = getMilestoneWindow(milestone);
+  if (!window) return Math.min(hours, DEFAULT_WEEKLY_CAPACITY_HOURS);
+
+  const weeks = Math.max(1, (window.end.getTime() - window.start.getTime()) / WEEK_MS);
+  return hours / weeks;
+}
+
+function windowsOverlap(a: ScheduleWindow | undefined, b: ScheduleWindow | undefined): boolean {
+  if (!a || !b) return true;
+  return a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * Highest combined weekly load of the commitments at any point in the window.
+ * Load only rises where a commitment starts, so those are the points to check.
+ */
+function getPeakWeeklyLoad(commitments: Milestone[], window: ScheduleWindow | undefined): number {
+  if (!window) {
+    return commitments.reduce((sum, m) => sum + getWeeklyLoad(m), 0);
+  }
+
+  const checkpoints = [window.start];
+  for (const commitment of commitments) {
+    const start = getMilestoneWindow(commitment)?.start;
+    if (start && start > window.start && start <= window.end) checkpoints.push(start);
+  }
+
+  let peak = 0;
+  for (const point of checkpoints) {
+    const load = commitments
+      .filter(m => {
+        const w = getMilestoneWindow(m);
+        return !w || (w.start <= point && point <= w.end);
+      })
+      .reduce((sum, m) => sum + getWeeklyLoad(m), 0);
+    peak = Math.max(peak, load);
+  }
+  return peak;
+}
+
+async function getProjectNames(milestones: Milestone[]): Promise<string[]> {
+  return await Promise.all(
+    milestones.map(async (m) => {
+      const project = await storage.getProject(m.projectId);
+      return project?.name || 'Unknown Project';
+    })
+  );
+}
+
 /**
- * Check if candidate has any active assignments
+ * Get the milestones a candidate is committed to (confirmed/active primary or active backup)
  */
 export async function getCandidateActiveAssignments(candidateId: string): Promise<Milestone[]> {
-  // Get all milestones where candidate is assigned
-  const allMilestones = await storage.getMilestonesByProject(''); // This won't work, need better approach
+  return await storage.getCandidateCommitments(candidateId);
+}
+
+/**
+ * Check the milestone window against the candidate's declared availability
+ * and unavailable date ranges. Returns an error message when blocked.
+ */
+async function checkAvailabilityWindow(candidate: Candidate, window: ScheduleWindow | undefined): Promise<string | undefined> {
+  if (!window) return undefined;
   
-  // Actually, let's query by checking all projects
-  const allProjects = await storage.getAllProjects();
-  const activeAssignments: Milestone[] = [];
+  if (candidate.availableFrom && window.start < candidate.availableFrom) {
+    return `${candidate.name} is only available from ${candidate.availableFrom.toLocaleDateString()}.`;
+  }
+  if (candidate.availableUntil && window.end > candidate.availableUntil) {
+    return `${candidate.name} is only available until ${candidate.availableUntil.toLocaleDateString()}.`;
+  }
   
-  for (const project of allProjects) {
-    const milestones = await storage.getMilestonesByProject(project.id);
-    
-    for (const milestone of milestones) {
-      // Check if this candidate is actively assigned
-      const isActivelyAssigned = 
-        milestone.assignedCandidateId === candidateId &&
-        ['confirmed', 'active'].includes(milestone.assignmentStatus || '');
-      
-      const isActiveBackup = 
-        milestone.backupCandidateId === candidateId &&
-        ['active'].includes(milestone.backupAssignmentStatus || '');
-      
-      if (isActivelyAssigned || isActiveBackup) {
-        activeAssignments.push(milestone);
-      }
-    }
+  const blocked = (await storage.getCandidateUnavailability(candidate.id))
+    .find(range => windowsOverlap({ start: range.startDate, end: range.endDate }, window));
+  if (blocked) {
+    return `${candidate.name} is unavailable from ${blocked.startDate.toLocaleDateString()} to ${blocked.endDate.toLocaleDateString()}${blocked.reason ? ` (${blocked.reason})` : ''}.`;
   }
   
-  return activeAssignments;
+  return undefined;
 }
 
 /**
  * Validate if candidate can be assigned to a milestone
- * Prevents double-booking and checks availability
+ * Prevents double-booking beyond capacity and checks availability
  */
 export async function validateCandidateAssignment(
   candidateId: string,
@@ -61,29 +146,40 @@ export async function validateCandidateAssignment(
     };
   }
   
-  // Check if candidate is available
-  if (candidate.isAvailable === false) {
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone) {
+    return {
+      valid: false,
+      error: 'Milestone not found'
+    };
+  }
+  
+  const window = getMilestoneWindow(milestone);
+  const availabilityError = await checkAvailabilityWindow(candidate, window);
+  if (availabilityError) {
     return {
       valid: false,
-      error: `${candidate.name} is currently marked as unavailable. Please ask them to update their availability status.`
+      error: availabilityError
     };
   }
   
-  // Check for active assignments
-  const activeAssignments = await getCandidateActiveAssignments(candidateId);
+  // Check overlapping commitments against weekly capacity
+  const commitments = (await getCandidateActiveAssignments(candidateId)).filter(m => m.id !== milestoneId);
+  const overlapping = commitments.filter(m => windowsOverlap(getMilestoneWindow(m), window));
+  const capacity = candidate.weeklyCapacityHours ?? DEFAULT_WEEKLY_CAPACITY_HOURS;
+  const committedLoad = getPeakWeeklyLoad(overlapping, window);
+  const requiredLoad = getWeeklyLoad(milestone);
   
-  if (activeAssignments.length > 0) {
-    const projectNames = await Promise.all(
-      activeAssignments.map(async (m) => {
-        const project = await storage.getProject(m.projectId);
-        return project?.name || 'Unknown Project';
-      })
-    );
+  if (committedLoad + requiredLoad > capacity) {
+    const projectNames = await getProjectNames(overlapping);
+    const committed = overlapping.length > 0
+      ? `already has ${Math.round(committedLoad)}h/week committed to overlapping work (${projectNames.join(', ')}) and `
+      : '';
     
     return {
       valid: false,
-      error: `${candidate.name} is already assigned to ${activeAssignments.length} active project(s): ${projectNames.join(', ')}. Complete or reassign existing work before adding new assignments.`,
-      activeAssignments
+      error: `${candidate.name} ${committed}cannot take on ${Math.round(requiredLoad)}h/week for this milestone within their ${capacity}h/week capacity.`,
+      activeAssignments: overlapping
     };
   }
   
@@ -109,12 +205,14 @@ export async function validateBackupAssignment(
     };
   }
   
-  // Backup candidates can be on standby even with other assignments
-  // But they should still be generally available
-  if (candidate.isAvailable === false) {
+  // Backup candidates can be on standby even with other assignments,
+  // but must be able to step in at any point of the milestone
+  const milestone = await storage.getMilestone(milestoneId);
+  const availabilityError = milestone ? await checkAvailabilityWindow(candidate, getMilestoneWindow(milestone)) : undefined;
+  if (availabilityError) {
     return {
       valid: false,
-      error: `${candidate.name} is currently unavailable. Please confirm their availability before assigning as backup.`
+      error: availabilityError
     };
   }
   
@@ -123,30 +221,119 @@ export async function validateBackupAssignment(
   };
 }
 
+// Only one active candidate per milestone: an active backup blocks the primary
+const ACTIVE_BACKUP_ERROR = 'A backup candidate is already active on this milestone';
+
+async function hasActiveBackup(milestoneId: string): Promise<boolean> {
+  return (await storage.getMilestoneBackups(milestoneId)).some(b => b.status === 'active');
+}
+
+/**
+ * Offer a milestone to a candidate (business). An outstanding offer to
+ * another candidate is withdrawn; a confirmed assignment cannot be replaced here.
+ */
+export async function offerCandidateAssignment(
+  milestoneId: string,
+  candidateId: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<AssignmentResult> {
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone) {
+    return { success: false, error: 'Milestone not found', statusCode: 404 };
+  }
+  
+  if (milestone.archivedAt) {
+    return { success: false, error: 'Milestone is archived', statusCode: 409 };
+  }
+  
+  if (['confirmed', 'active'].includes(milestone.assignmentStatus || '')) {
+    return { success: false, error: 'Milestone already has a confirmed candidate', statusCode: 409 };
+  }
+  
+  if (['completed', 'replaced'].includes(milestone.assignmentStatus || '')) {
+    return { success: false, error: `Milestone assignment is already ${milestone.assignmentStatus}`, statusCode: 409 };
+  }
+  
+  if (milestone.assignedCandidateId === candidateId && milestone.assignmentStatus === 'offered') {
+    return { success: false, error: 'Milestone already offered to this candidate', statusCode: 409 };
+  }
+  
+  const backups = await storage.getMilestoneBackups(milestoneId);
+  if (backups.some(b => b.status === 'active')) {
+    return { success: false, error: ACTIVE_BACKUP_ERROR, statusCode: 409 };
+  }
+  
+  if (backups.some(b => b.candidateId === candidateId && b.status !== 'rejected')) {
+    return { success: false, error: 'Candidate is in the backup queue for this milestone. Remove them from the queue first.', statusCode: 409 };
+  }
+  
+  const validation = await validateCandidateAssignment(candidateId, milestoneId);
+  if (!validation.valid) {
+    return { success: false, error: validation.error, statusCode: 409 };
+  }
+  
+  // Withdraw an outstanding offer to someone else
+  if (milestone.assignedCandidateId && milestone.assignmentStatus === 'offered') {
+    await recordAssignmentEvent({
+      milestoneId,
+      candidateId: milestone.assignedCandidateId,
+      role: 'primary',
+      eventType: 'reject',
+      fromStatus: 'offered',
+      toStatus: 'unassigned',
+      reason: 'Offer withdrawn: milestone offered to another candidate',
+    }, actor);
+  }
+  
+  await storage.updateMilestone(milestoneId, {
+    assignedCandidateId: candidateId,
+    assignmentStatus: 'offered',
+    assignmentConfirmedAt: null,
+  });
+  
+  await recordAssignmentEvent({
+    milestoneId,
+    candidateId,
+    role: 'primary',
+    eventType: 'offer',
+    fromStatus: milestone.assignmentStatus,
+    toStatus: 'offered',
+  }, actor);
+  
+  return { success: true };
+}
+
 /**
  * Confirm candidate assignment (candidate accepts the offer)
  */
 export async function confirmCandidateAssignment(
   milestoneId: string,
-  candidateId: string
-): Promise<{ success: boolean; error?: string }> {
+  candidateId: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<AssignmentResult> {
   const milestone = await storage.getMilestone(milestoneId);
   if (!milestone) {
-    return { success: false, error: 'Milestone not found' };
+    return { success: false, error: 'Milestone not found', statusCode: 404 };
   }
   
   if (milestone.assignedCandidateId !== candidateId) {
-    return { success: false, error: 'You are not assigned to this milestone' };
+    return { success: false, error: 'You are not assigned to this milestone', statusCode: 403 };
   }
   
-  if (milestone.assignmentStatus === 'confirmed' || milestone.assignmentStatus === 'active') {
-    return { success: false, error: 'Assignment already confirmed' };
+  // Replaced or completed primaries are still assignedCandidateId but have nothing to accept
+  if (milestone.assignmentStatus !== 'offered') {
+    return { success: false, error: 'Only an open offer can be accepted', statusCode: 409 };
   }
   
   // Validate still available (in case status changed)
+  // An activated backup has taken over the milestone (e.g. critical risk escalation)
+  if (await hasActiveBackup(milestoneId)) {
+    return { success: false, error: ACTIVE_BACKUP_ERROR, statusCode: 409 };
+  }
+  
   const validation = await validateCandidateAssignment(candidateId, milestoneId);
   if (!validation.valid) {
-    return { success: false, error: validation.error };
+    return { success: false, error: validation.error, statusCode: 409 };
   }
   
   // Confirm assignment
@@ -155,10 +342,17 @@ export async function confirmCandidateAssignment(
     assignmentConfirmedAt: new Date(),
   });
   
-  // Mark candidate as unavailable (they're now committed)
-  await storage.updateCandidate(candidateId, {
-    isAvailable: false
-  });
+  await recordAssignmentEvent({
+    milestoneId,
+    candidateId,
+    role: 'primary',
+    eventType: 'confirm',
+    fromStatus: milestone.assignmentStatus,
+    toStatus: 'confirmed',
+  }, actor);
+  
+  // Push the assignment to the linked Jira issue
+  await queueJiraWriteBack({ kind: 'assignment', milestoneId, candidateId });
   
   return { success: true };
 }
@@ -169,15 +363,20 @@ export async function confirmCandidateAssignment(
 export async function rejectCandidateAssignment(
   milestoneId: string,
   candidateId: string,
-  reason?: string
-): Promise<{ success: boolean; error?: string }> {
+  reason?: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<AssignmentResult> {
   const milestone = await storage.getMilestone(milestoneId);
   if (!milestone) {
-    return { success: false, error: 'Milestone not found' };
+    return { success: false, error: 'Milestone not found', statusCode: 404 };
   }
   
   if (milestone.assignedCandidateId !== candidateId) {
-    return { success: false, error: 'You are not assigned to this milestone' };
+    return { success: false, error: 'You are not assigned to this milestone', statusCode: 403 };
+  }
+  
+  if (milestone.assignmentStatus !== 'offered') {
+    return { success: false, error: 'Only an open offer can be declined', statusCode: 409 };
   }
   
   // Clear assignment
@@ -187,7 +386,48 @@ export async function rejectCandidateAssignment(
     assignmentConfirmedAt: null,
   });
   
+  await recordAssignmentEvent({
+    milestoneId,
+    candidateId,
+    role: 'primary',
+    eventType: 'reject',
+    fromStatus: milestone.assignmentStatus,
+    toStatus: 'unassigned',
+    reason,
+  }, actor);
+  
   console.log(`Candidate ${candidateId} rejected assignment to milestone ${milestoneId}. Reason: ${reason || 'Not provided'}`);
   
   return { success: true };
 }
+
+/**
+ * Complete the primary assignment once the milestone is done,
+ * releasing the candidate's capacity
+ */
+export async function completeCandidateAssignment(
+  milestoneId: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<AssignmentResult> {
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone) {
+    return { success: false, error: 'Milestone not found', statusCode: 404 };
+  }
+  
+  if (!milestone.assignedCandidateId || !['confirmed', 'active'].includes(milestone.assignmentStatus || '')) {
+    return { success: false, error: 'Milestone has no confirmed assignment to complete', statusCode: 409 };
+  }
+  
+  await storage.updateMilestone(milestoneId, { assignmentStatus: 'completed' });
+  
+  await recordAssignmentEvent({
+    milestoneId,
+    candidateId: milestone.assignedCandidateId,
+    role: 'primary',
+    eventType: 'complete',
+    fromStatus: milestone.assignmentStatus,
+    toStatus: 'completed',
+  }, actor);
+  
+  return { success: true };
+}
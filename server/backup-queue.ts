@@ -0,0 +1,374 @@
+/**
+ * Backup Candidate Queue - Ordered fallbacks per milestone
+ *
+ * Each milestone has an ordered list of backup candidates (milestone_backups),
+ * each with its own status: standby → offered → active → completed, or rejected.
+ * When an offered or active backup rejects, the next standby candidate is
+ * promoted to that status. Only one candidate can be active on a milestone:
+ * activating a backup replaces a confirmed/active primary assignment (or
+ * withdraws an open offer), and the primary cannot be offered or confirmed
+ * while a backup is active. A partial
+ * unique index (milestone_backups_one_active_idx) makes the switch to active the
+ * atomic claim, so concurrent activations get a 409 instead of two active backups.
+ *
+ * milestones.backupCandidateId / backupAssignmentStatus always mirror the head
+ * of the queue (completed or active, else offered, else first standby) for
+ * existing readers. Offer, activate, reject and complete transitions are
+ * recorded in assignment_events.
+ */
+
+import { storage } from './storage';
+import { validateBackupAssignment, validateCandidateAssignment } from './assignment-validator';
+import { recordAssignmentEvent, SYSTEM_ACTOR, type AssignmentActor } from './assignment-events';
+import type { MilestoneBackup } from '@shared/schema';
+
+export const BACKUP_STATUSES = ['standby', 'offered', 'active', 'rejected', 'completed'] as const;
+
+export type BackupStatus = typeof BACKUP_STATUSES[number];
+
+const OPEN_STATUSES: BackupStatus[] = ['standby', 'offered', 'active'];
+
+const ACTIVE_BACKUP_CONFLICT = 'Another backup is already active on this milestone';
+
+// Postgres unique_violation, raised by milestone_backups_one_active_idx
+function isUniqueViolation(error: any): boolean {
+  return error?.code === '23505';
+}
+
+/**
+ * Set a backup to active. Returns undefined if another backup won the race.
+ */
+async function claimActive(backupId: string): Promise<MilestoneBackup | undefined> {
+  try {
+    return await storage.updateMilestoneBackup(backupId, { status: 'active' });
+  } catch (error) {
+    if (isUniqueViolation(error)) return undefined;
+    throw error;
+  }
+}
+
+interface BackupQueueResult {
+  success: boolean;
+  backup?: MilestoneBackup;
+  promoted?: MilestoneBackup;
+  queue?: MilestoneBackup[];
+  error?: string;
+  statusCode?: number; // HTTP status to return on failure
+}
+
+function isOpen(backup: MilestoneBackup): boolean {
+  return OPEN_STATUSES.includes(backup.status as BackupStatus);
+}
+
+/**
+ * Get a milestone's backup queue in order. Milestones that only have the
+ * legacy single backupCandidateId get it adopted as the first queue entry.
+ */
+export async function getBackupQueue(milestoneId: string): Promise<MilestoneBackup[]> {
+  const queue = await storage.getMilestoneBackups(milestoneId);
+  if (queue.length > 0) return queue;
+
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone?.backupCandidateId) return queue;
+
+  const legacyStatus = milestone.backupAssignmentStatus as BackupStatus;
+  await storage.createMilestoneBackup({
+    milestoneId,
+    candidateId: milestone.backupCandidateId,
+    position: 0,
+    status: OPEN_STATUSES.includes(legacyStatus) ? legacyStatus : 'standby',
+  });
+
+  return await storage.getMilestoneBackups(milestoneId);
+}
+
+/**
+ * Mirror the head of the queue onto the milestone
+ */
+async function syncMilestoneBackup(milestoneId: string): Promise<MilestoneBackup[]> {
+  const queue = await storage.getMilestoneBackups(milestoneId);
+  const open = queue.filter(isOpen);
+  const head =
+    queue.find(b => b.status === 'completed') ||
+    open.find(b => b.status === 'active') ||
+    open.find(b => b.status === 'offered') ||
+    open[0];
+
+  await storage.updateMilestone(milestoneId, {
+    backupCandidateId: head?.candidateId || null,
+    backupAssignmentStatus: head?.status || 'none',
+  });
+
+  return queue;
+}
+
+/**
+ * Add a candidate to the end of the backup queue
+ */
+export async function addBackup(milestoneId: string, candidateId: string): Promise<BackupQueueResult> {
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone) {
+    return { success: false, error: 'Milestone not found', statusCode: 404 };
+  }
+
+  if (milestone.assignedCandidateId === candidateId) {
+    return { success: false, error: 'The assigned candidate cannot also be a backup', statusCode: 409 };
+  }
+
+  const queue = await getBackupQueue(milestoneId);
+  if (queue.some(b => b.candidateId === candidateId && isOpen(b))) {
+    return { success: false, error: 'Candidate is already in the backup queue', statusCode: 409 };
+  }
+
+  const validation = await validateBackupAssignment(candidateId, milestoneId);
+  if (!validation.valid) {
+    return { success: false, error: validation.error, statusCode: 409 };
+  }
+
+  const position = queue.reduce((max, b) => Math.max(max, b.position), -1) + 1;
+  const backup = await storage.createMilestoneBackup({ milestoneId, candidateId, position, status: 'standby' });
+
+  return { success: true, backup, queue: await syncMilestoneBackup(milestoneId) };
+}
+
+/**
+ * Reorder the open backups. `backupIds` must list every open backup exactly once.
+ */
+export async function reorderBackups(milestoneId: string, backupIds: string[]): Promise<BackupQueueResult> {
+  const queue = await getBackupQueue(milestoneId);
+  const open = queue.filter(isOpen);
+
+  const sameSet =
+    backupIds.length === open.length &&
+    new Set(backupIds).size === backupIds.length &&
+    open.every(b => backupIds.includes(b.id));
+  if (!sameSet) {
+    return { success: false, error: 'backupIds must list every open backup exactly once', statusCode: 400 };
+  }
+
+  // Open backups in the requested order, rejected ones after them
+  const ordered = [
+    ...backupIds.map(id => open.find(b => b.id === id)!),
+    ...queue.filter(b => !isOpen(b)),
+  ];
+  for (let position = 0; position < ordered.length; position++) {
+    if (ordered[position].position !== position) {
+      await storage.updateMilestoneBackup(ordered[position].id, { position });
+    }
+  }
+
+  return { success: true, queue: await syncMilestoneBackup(milestoneId) };
+}
+
+/**
+ * Remove a backup from the queue
+ */
+export async function removeBackup(milestoneId: string, backupId: string): Promise<BackupQueueResult> {
+  const backup = await storage.getMilestoneBackup(backupId);
+  if (!backup || backup.milestoneId !== milestoneId) {
+    return { success: false, error: 'Backup not found', statusCode: 404 };
+  }
+
+  if (backup.status === 'active') {
+    return { success: false, error: 'An active backup cannot be removed. Reject it to promote the next backup.', statusCode: 409 };
+  }
+
+  await storage.deleteMilestoneBackup(backupId);
+  return { success: true, queue: await syncMilestoneBackup(milestoneId) };
+}
+
+/**
+ * Make a backup the active candidate on the milestone
+ */
+export async function activateBackup(
+  milestoneId: string,
+  backupId: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<BackupQueueResult> {
+  const milestone = await storage.getMilestone(milestoneId);
+  const backup = await storage.getMilestoneBackup(backupId);
+  if (!milestone || !backup || backup.milestoneId !== milestoneId) {
+    return { success: false, error: 'Backup not found', statusCode: 404 };
+  }
+
+  if (backup.status !== 'standby' && backup.status !== 'offered') {
+    return { success: false, error: `Cannot activate a backup with status "${backup.status}"`, statusCode: 409 };
+  }
+
+  const queue = await getBackupQueue(milestoneId);
+  if (queue.some(b => b.status === 'active')) {
+    return { success: false, error: ACTIVE_BACKUP_CONFLICT, statusCode: 409 };
+  }
+
+  // An active backup takes on the work, so it must fit within their capacity
+  const validation = await validateCandidateAssignment(backup.candidateId, milestoneId);
+  if (!validation.valid) {
+    return { success: false, error: validation.error, statusCode: 409 };
+  }
+
+  // Claim the active slot before touching the primary; a concurrent activation loses here
+  const activated = await claimActive(backupId);
+  if (!activated) {
+    return { success: false, error: ACTIVE_BACKUP_CONFLICT, statusCode: 409 };
+  }
+
+  // Only one active candidate per milestone: the backup replaces a confirmed primary
+  // and withdraws an open offer. Re-read so a confirm that raced the claim is seen.
+  const current = await storage.getMilestone(milestoneId) || milestone;
+  if (current.assignmentStatus === 'confirmed' || current.assignmentStatus === 'active') {
+    await storage.updateMilestone(milestoneId, { assignmentStatus: 'replaced' });
+    await recordAssignmentEvent({
+      milestoneId,
+      candidateId: current.assignedCandidateId,
+      role: 'primary',
+      eventType: 'fail',
+      fromStatus: current.assignmentStatus,
+      toStatus: 'replaced',
+      reason: 'Replaced by backup candidate',
+    }, actor);
+  } else if (current.assignmentStatus === 'offered') {
+    await storage.updateMilestone(milestoneId, {
+      assignedCandidateId: null,
+      assignmentStatus: 'unassigned',
+      assignmentConfirmedAt: null,
+    });
+    await recordAssignmentEvent({
+      milestoneId,
+      candidateId: current.assignedCandidateId,
+      role: 'primary',
+      eventType: 'reject',
+      fromStatus: 'offered',
+      toStatus: 'unassigned',
+      reason: 'Offer withdrawn: backup candidate activated',
+    }, actor);
+  }
+
+  await recordAssignmentEvent({
+    milestoneId,
+    candidateId: backup.candidateId,
+    role: 'backup',
+    eventType: 'activate',
+    fromStatus: backup.status,
+    toStatus: 'active',
+  }, actor);
+  return { success: true, backup: activated, queue: await syncMilestoneBackup(milestoneId) };
+}
+
+/**
+ * Activate the first available backup in queue order (critical risk escalation)
+ */
+export async function activateNextBackup(
+  milestoneId: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<BackupQueueResult> {
+  const queue = await getBackupQueue(milestoneId);
+
+  const active = queue.find(b => b.status === 'active');
+  if (active) {
+    return { success: false, backup: active, error: 'A backup is already active', statusCode: 409 };
+  }
+
+  for (const backup of queue.filter(b => b.status === 'standby' || b.status === 'offered')) {
+    const result = await activateBackup(milestoneId, backup.id, actor);
+    if (result.success || result.error === ACTIVE_BACKUP_CONFLICT) return result;
+  }
+
+  return { success: false, error: 'No available backup candidate in the queue', statusCode: 409 };
+}
+
+/**
+ * Record a backup candidate declining. If they were offered or active, the
+ * next available standby backup is promoted to the same status.
+ */
+export async function rejectBackup(
+  milestoneId: string,
+  backupId: string,
+  reason?: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<BackupQueueResult> {
+  const backup = await storage.getMilestoneBackup(backupId);
+  if (!backup || backup.milestoneId !== milestoneId) {
+    return { success: false, error: 'Backup not found', statusCode: 404 };
+  }
+
+  if (!isOpen(backup)) {
+    return { success: false, error: `Backup already ${backup.status}`, statusCode: 409 };
+  }
+
+  const previousStatus = backup.status as BackupStatus;
+  const rejected = await storage.updateMilestoneBackup(backupId, {
+    status: 'rejected',
+    rejectionReason: reason || null,
+  });
+  await recordAssignmentEvent({
+    milestoneId,
+    candidateId: backup.candidateId,
+    role: 'backup',
+    eventType: 'reject',
+    fromStatus: previousStatus,
+    toStatus: 'rejected',
+    reason,
+  }, actor);
+
+  let promoted: MilestoneBackup | undefined;
+  if (previousStatus === 'offered' || previousStatus === 'active') {
+    const queue = await storage.getMilestoneBackups(milestoneId);
+
+    for (const next of queue.filter(b => b.status === 'standby')) {
+      const validation = previousStatus === 'active'
+        ? await validateCandidateAssignment(next.candidateId, milestoneId)
+        : await validateBackupAssignment(next.candidateId, milestoneId);
+      if (!validation.valid) continue;
+
+      promoted = previousStatus === 'active'
+        ? await claimActive(next.id)
+        : await storage.updateMilestoneBackup(next.id, { status: previousStatus });
+      if (!promoted) {
+        // A concurrent activation already filled the active slot
+        return { success: false, backup: rejected, error: ACTIVE_BACKUP_CONFLICT, statusCode: 409, queue: await syncMilestoneBackup(milestoneId) };
+      }
+
+      await recordAssignmentEvent({
+        milestoneId,
+        candidateId: next.candidateId,
+        role: 'backup',
+        eventType: previousStatus === 'active' ? 'activate' : 'offer',
+        fromStatus: 'standby',
+        toStatus: previousStatus,
+        reason: 'Promoted after the previous backup declined',
+      });
+      break;
+    }
+
+    console.log(`[Backup Queue] Backup ${backupId} rejected on milestone ${milestoneId}; ${promoted ? `promoted ${promoted.candidateId} to ${previousStatus}` : 'no backup left to promote'}`);
+  }
+
+  return { success: true, backup: rejected, promoted, queue: await syncMilestoneBackup(milestoneId) };
+}
+
+/**
+ * Complete the active backup once its milestone is done, so the milestone no
+ * longer counts towards the backup's commitments
+ */
+export async function completeActiveBackup(
+  milestoneId: string,
+  actor: AssignmentActor = SYSTEM_ACTOR
+): Promise<BackupQueueResult> {
+  const queue = await storage.getMilestoneBackups(milestoneId);
+  const active = queue.find(b => b.status === 'active');
+  if (!active) {
+    return { success: false, error: 'Milestone has no active backup to complete', statusCode: 409 };
+  }
+
+  const completed = await storage.updateMilestoneBackup(active.id, { status: 'completed' });
+  await recordAssignmentEvent({
+    milestoneId,
+    candidateId: active.candidateId,
+    role: 'backup',
+    eventType: 'complete',
+    fromStatus: 'active',
+    toStatus: 'completed',
+  }, actor);
+
+  return { success: true, backup: completed, queue: await syncMilestoneBackup(milestoneId) };
+}
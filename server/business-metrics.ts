@@ -0,0 +1,316 @@
+/**
+ * Business Metrics - Staffing performance for one organization's projects
+ *
+ * - Time-to-fill:     milestone created → first primary assignment confirmed
+ * - Utilization:      weekly hours booked on the organization's milestones vs each
+ *                     candidate's weeklyCapacityHours, averaged over the range
+ * - Backup success:   activated backups that went on to complete the milestone
+ *                     (vs backups that were later replaced, rejected or failed)
+ * - Application funnel: how far applications got through the status workflow
+ *
+ * Every metric is filtered to the date range: milestones and applications by
+ * creation date, backup activations by activation date, utilization by the
+ * milestone windows overlapping the range.
+ */
+
+import { storage } from './storage';
+import { getMilestoneWindow, getWeeklyLoad } from './assignment-validator';
+import { isMilestoneCompleted } from './reputation';
+import type { Application, AssignmentEvent, Milestone } from '@shared/schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+const DEFAULT_RANGE_DAYS = 90;
+const DEFAULT_WEEKLY_CAPACITY_HOURS = 40;
+
+// Application statuses in the order a successful application passes through them
+const FUNNEL_STAGES = ['submitted', 'under_review', 'interview', 'accepted', 'active', 'completed'] as const;
+
+export interface MetricsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface TimeToFillEntry {
+  milestoneId: string;
+  milestoneName: string;
+  projectName: string;
+  hours: number;
+}
+
+export interface CandidateUtilization {
+  candidateId: string;
+  candidateName: string;
+  weeklyCapacityHours: number;
+  bookedWeeklyHours: number;
+  utilization: number; // Percent of capacity
+}
+
+export interface FunnelStage {
+  stage: string;
+  count: number;
+  conversion: number; // Percent of submitted applications reaching this stage
+}
+
+export interface BusinessMetrics {
+  range: { from: string; to: string };
+  timeToFill: {
+    filled: number;
+    unfilled: number;
+    averageHours: number | null;
+    medianHours: number | null;
+    milestones: TimeToFillEntry[];
+  };
+  utilization: {
+    averageUtilization: number | null;
+    candidates: CandidateUtilization[];
+  };
+  backupActivation: {
+    activations: number;
+    succeeded: number;
+    failed: number;
+    pending: number;
+    successRate: number | null; // Percent of resolved activations that succeeded
+  };
+  applicationFunnel: {
+    total: number;
+    rejected: number;
+    withdrawn: number;
+    stages: FunnelStage[];
+  };
+}
+
+interface ScopedMilestone {
+  milestone: Milestone;
+  projectName: string;
+  events: AssignmentEvent[];
+}
+
+/**
+ * Default range: the last 90 days up to now
+ */
+export function getDefaultMetricsRange(now: Date = new Date()): MetricsRange {
+  return { from: new Date(now.getTime() - DEFAULT_RANGE_DAYS * 24 * HOUR_MS), to: now };
+}
+
+function inRange(date: Date | string, range: MetricsRange): boolean {
+  const time = new Date(date).getTime();
+  return time >= range.from.getTime() && time <= range.to.getTime();
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+async function getScopedMilestones(organizationId: string): Promise<ScopedMilestone[]> {
+  const scoped: ScopedMilestone[] = [];
+  const projects = await storage.getProjectsByOrganization(organizationId);
+
+  for (const project of projects) {
+    const milestones = await storage.getMilestonesByProject(project.id);
+    for (const milestone of milestones) {
+      const events = await storage.getAssignmentEvents(milestone.id);
+      scoped.push({ milestone, projectName: project.name, events });
+    }
+  }
+
+  return scoped;
+}
+
+function computeTimeToFill(scoped: ScopedMilestone[], range: MetricsRange): BusinessMetrics['timeToFill'] {
+  const filled: TimeToFillEntry[] = [];
+  let unfilled = 0;
+
+  for (const { milestone, projectName, events } of scoped) {
+    if (!inRange(milestone.createdAt, range)) continue;
+
+    const confirmation = events.find(e => e.eventType === 'confirm' && e.role === 'primary');
+    if (!confirmation) {
+      unfilled++;
+      continue;
+    }
+
+    const hours = (new Date(confirmation.createdAt).getTime() - new Date(milestone.createdAt).getTime()) / HOUR_MS;
+    filled.push({
+      milestoneId: milestone.id,
+      milestoneName: milestone.name,
+      projectName,
+      hours: round(Math.max(0, hours)),
+    });
+  }
+
+  const hours = filled.map(entry => entry.hours);
+  const medianHours = median(hours);
+  return {
+    filled: filled.length,
+    unfilled,
+    averageHours: hours.length > 0 ? round(hours.reduce((sum, h) => sum + h, 0) / hours.length) : null,
+    medianHours: medianHours === null ? null : round(medianHours),
+    milestones: filled,
+  };
+}
+
+/**
+ * Candidates working a milestone: a confirmed/active/completed primary and an active/completed backup
+ */
+function getWorkingCandidateIds(milestone: Milestone): string[] {
+  const ids: string[] = [];
+  if (milestone.assignedCandidateId && ['confirmed', 'active', 'completed'].includes(milestone.assignmentStatus || '')) {
+    ids.push(milestone.assignedCandidateId);
+  }
+  if (milestone.backupCandidateId && ['active', 'completed'].includes(milestone.backupAssignmentStatus || '')) {
+    ids.push(milestone.backupCandidateId);
+  }
+  return ids;
+}
+
+/**
+ * Weekly hours a milestone contributes on average across the range.
+ * Undated milestones are assumed to run across the whole range.
+ */
+function getAverageWeeklyHoursInRange(milestone: Milestone, range: MetricsRange): number {
+  const window = getMilestoneWindow(milestone);
+  if (!window) return getWeeklyLoad(milestone);
+
+  const overlapStart = Math.max(window.start.getTime(), range.from.getTime());
+  const overlapEnd = Math.min(window.end.getTime(), range.to.getTime());
+  if (overlapEnd <= overlapStart) return 0;
+
+  const rangeWeeks = Math.max(1, (range.to.getTime() - range.from.getTime()) / WEEK_MS);
+  const overlapWeeks = (overlapEnd - overlapStart) / WEEK_MS;
+  return getWeeklyLoad(milestone) * Math.min(1, overlapWeeks / rangeWeeks);
+}
+
+async function computeUtilization(scoped: ScopedMilestone[], range: MetricsRange): Promise<BusinessMetrics['utilization']> {
+  const bookedHours: Record<string, number> = {};
+
+  for (const { milestone } of scoped) {
+    const weeklyHours = getAverageWeeklyHoursInRange(milestone, range);
+    if (weeklyHours === 0) continue;
+
+    for (const candidateId of getWorkingCandidateIds(milestone)) {
+      bookedHours[candidateId] = (bookedHours[candidateId] || 0) + weeklyHours;
+    }
+  }
+
+  const candidates: CandidateUtilization[] = [];
+  for (const candidateId of Object.keys(bookedHours)) {
+    const candidate = await storage.getCandidate(candidateId);
+    if (!candidate) continue;
+
+    const capacity = candidate.weeklyCapacityHours || DEFAULT_WEEKLY_CAPACITY_HOURS;
+    candidates.push({
+      candidateId,
+      candidateName: candidate.name,
+      weeklyCapacityHours: capacity,
+      bookedWeeklyHours: round(bookedHours[candidateId]),
+      utilization: Math.round((bookedHours[candidateId] / capacity) * 100),
+    });
+  }
+
+  candidates.sort((a, b) => b.utilization - a.utilization);
+  return {
+    averageUtilization: candidates.length > 0
+      ? Math.round(candidates.reduce((sum, c) => sum + c.utilization, 0) / candidates.length)
+      : null,
+    candidates,
+  };
+}
+
+function computeBackupActivation(scoped: ScopedMilestone[], range: MetricsRange): BusinessMetrics['backupActivation'] {
+  let succeeded = 0;
+  let failed = 0;
+  let pending = 0;
+
+  for (const { milestone, events } of scoped) {
+    events.forEach((activation, index) => {
+      if (activation.eventType !== 'activate' || activation.role !== 'backup') return;
+      if (!inRange(activation.createdAt, range)) return;
+
+      const later = events.slice(index + 1).filter(e => e.candidateId === activation.candidateId);
+      if (later.some(e => e.eventType === 'fail' || e.eventType === 'reject')) {
+        failed++;
+      } else if (later.some(e => e.eventType === 'complete') || isMilestoneCompleted(milestone)) {
+        succeeded++;
+      } else {
+        pending++;
+      }
+    });
+  }
+
+  const resolved = succeeded + failed;
+  return {
+    activations: succeeded + failed + pending,
+    succeeded,
+    failed,
+    pending,
+    successRate: resolved > 0 ? Math.round((succeeded / resolved) * 100) : null,
+  };
+}
+
+/**
+ * Furthest funnel stage an application reached, from its status history
+ */
+async function getFurthestStage(application: Application): Promise<number> {
+  const history = await storage.getApplicationStatusHistory(application.id);
+  const statuses = [application.status, ...history.map(entry => entry.toStatus)];
+  return Math.max(0, ...statuses.map(status => FUNNEL_STAGES.indexOf(status as typeof FUNNEL_STAGES[number])));
+}
+
+async function computeApplicationFunnel(scoped: ScopedMilestone[], range: MetricsRange): Promise<BusinessMetrics['applicationFunnel']> {
+  const reached = FUNNEL_STAGES.map(() => 0);
+  let total = 0;
+  let rejected = 0;
+  let withdrawn = 0;
+
+  for (const { milestone } of scoped) {
+    const applications = await storage.getApplicationsByMilestone(milestone.id);
+    for (const application of applications) {
+      if (!inRange(application.createdAt, range)) continue;
+
+      total++;
+      if (application.status === 'rejected') rejected++;
+      if (application.status === 'withdrawn') withdrawn++;
+
+      const furthest = await getFurthestStage(application);
+      for (let i = 0; i <= furthest; i++) reached[i]++;
+    }
+  }
+
+  return {
+    total,
+    rejected,
+    withdrawn,
+    stages: FUNNEL_STAGES.map((stage, i) => ({
+      stage,
+      count: reached[i],
+      conversion: total > 0 ? Math.round((reached[i] / total) * 100) : 0,
+    })),
+  };
+}
+
+/**
+ * Compute all metrics for the projects owned by an organization
+ */
+export async function getBusinessMetrics(organizationId: string, range: MetricsRange): Promise<BusinessMetrics> {
+  const scoped = await getScopedMilestones(organizationId);
+
+  const metrics: BusinessMetrics = {
+    range: { from: range.from.toISOString(), to: range.to.toISOString() },
+    timeToFill: computeTimeToFill(scoped, range),
+    utilization: await computeUtilization(scoped, range),
+    backupActivation: computeBackupActivation(scoped, range),
+    applicationFunnel: await computeApplicationFunnel(scoped, range),
+  };
+
+  console.log(`[Business Metrics] ${organizationId}: ${scoped.length} milestones, ${metrics.applicationFunnel.total} applications`);
+  return metrics;
+}
@@ -0,0 +1,129 @@
+import { storage } from "./storage";
+import { fetchProjectIssues, calculateDelayPercentage } from "./jira-service";
+import { classifyDelayRisk } from "./fallback-scoring";
+import { recordMilestoneDelay, evaluateMilestoneRisk } from "./risk-evaluation";
+import type { Project } from "@shared/schema";
+
+/**
+ * Delay Monitor - periodically checks every Jira-linked project for delays
+ *
+ * Writes delayPercentage/riskLevel onto milestones and raises a risk alert
+ * only when a milestone moves into a new tier (medium or above).
+ * Interval: DELAY_MONITOR_INTERVAL_MINUTES (default 60).
+ */
+
+let isMonitorRunning = false;
+let monitorTimer: NodeJS.Timeout | undefined;
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+interface ProjectMonitorResult {
+  projectId: string;
+  checked: number;
+  updated: number;
+  alerts: number;
+}
+
+function getIntervalMs(): number {
+  const minutes = parseInt(process.env.DELAY_MONITOR_INTERVAL_MINUTES || "", 10);
+  return (minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Start the scheduled delay monitor
+ */
+export function startDelayMonitor() {
+  if (isMonitorRunning) {
+    console.log('[Delay Monitor] Already running');
+    return;
+  }
+
+  isMonitorRunning = true;
+  const intervalMs = getIntervalMs();
+  console.log(`[Delay Monitor] Checking Jira projects every ${intervalMs / 60000} minutes`);
+
+  scheduleNextRun(intervalMs);
+}
+
+/**
+ * Stop the delay monitor
+ */
+export function stopDelayMonitor() {
+  isMonitorRunning = false;
+  if (monitorTimer) {
+    clearTimeout(monitorTimer);
+    monitorTimer = undefined;
+  }
+  console.log('[Delay Monitor] Stopped');
+}
+
+function scheduleNextRun(intervalMs: number) {
+  monitorTimer = setTimeout(async () => {
+    try {
+      await runDelayMonitoring();
+    } catch (error: any) {
+      console.error('[Delay Monitor] Run failed:', error.message);
+    }
+
+    if (isMonitorRunning) {
+      scheduleNextRun(intervalMs);
+    }
+  }, intervalMs);
+}
+
+/**
+ * Check every Jira-linked project once
+ */
+export async function runDelayMonitoring(): Promise<ProjectMonitorResult[]> {
+  const projects = (await storage.getAllProjects()).filter(p => p.jiraProjectKey);
+  const results: ProjectMonitorResult[] = [];
+
+  for (const project of projects) {
+    try {
+      results.push(await monitorProjectMilestones(project));
+    } catch (error: any) {
+      console.error(`[Delay Monitor] Failed to check project ${project.jiraProjectKey}:`, error.message);
+    }
+  }
+
+  const alerts = results.reduce((sum, r) => sum + r.alerts, 0);
+  console.log(`[Delay Monitor] Checked ${results.length}/${projects.length} projects, raised ${alerts} risk alerts`);
+  return results;
+}
+
+/**
+ * Record current delays for a project's milestones from Jira time tracking
+ */
+export async function monitorProjectMilestones(project: Project): Promise<ProjectMonitorResult> {
+  const { issues } = await fetchProjectIssues(project.jiraProjectKey!, project.businessUserId);
+  const issuesByKey = new Map(issues.map(issue => [issue.key, issue]));
+
+  const milestones = await storage.getMilestonesByProject(project.id);
+  const result: ProjectMonitorResult = { projectId: project.id, checked: 0, updated: 0, alerts: 0 };
+
+  for (const milestone of milestones) {
+    const issue = milestone.jiraIssueKey ? issuesByKey.get(milestone.jiraIssueKey) : undefined;
+    if (!issue || milestone.archivedAt) continue;
+
+    result.checked++;
+    const delayPercentage = calculateDelayPercentage(issue.timeEstimate || 0, issue.timeSpent || 0);
+
+    // Nothing changed since the last run
+    if (delayPercentage === (milestone.delayPercentage || 0) && classifyDelayRisk(delayPercentage) === (milestone.riskLevel || 'low')) {
+      continue;
+    }
+
+    const { milestone: updated, alertRequired } = await recordMilestoneDelay(milestone, delayPercentage);
+    result.updated++;
+
+    if (alertRequired) {
+      try {
+        await evaluateMilestoneRisk(updated, delayPercentage);
+        result.alerts++;
+      } catch (error: any) {
+        console.error(`[Delay Monitor] Risk evaluation failed for milestone ${milestone.id}:`, error.message);
+      }
+    }
+  }
+
+  return result;
+}
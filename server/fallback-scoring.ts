@@ -1,14 +1,11 @@
 /**
  * Rule-Based Fallback Scoring System
  * Used when Gemini AI is unavailable or fails
+ * Skills are matched through the shared taxonomy (skill-taxonomy.ts)
  */
 
-export interface SkillMap {
-  requiredSkills: string[];
-  niceToHave?: string[];
-  experienceLevel?: string;
-  domain?: string;
-}
+import { extractSkillsFromText, getSkillCategory, getSkillMatchCredit } from './skill-taxonomy';
+import { SKILL_MAP_VERSION, type SkillImportance, type SkillMap, type SkillRequirement } from '@shared/schema';
 
 export interface FitScoreResult {
   score: number;
@@ -16,46 +13,50 @@ export interface FitScoreResult {
   experienceMatch: number;
   softSkillRelevance: number;
   reasoning: string;
+  method: 'rule_based';
 }
 
+// Weight of a requirement in the skill overlap score
+const IMPORTANCE_WEIGHTS: Record<SkillImportance, number> = {
+  must: 3,
+  should: 2,
+  nice: 1,
+};
+
 /**
- * Calculate skill overlap using keyword matching
+ * Years of experience stated in free text ("5+ years"), 0 if none
  */
-function calculateSkillOverlap(candidateSkills: string[], requiredSkills: string[], niceToHave: string[] = []): number {
+function extractCandidateYears(candidateExperience: string): number {
+  const yearsMatch = (candidateExperience || '').match(/(\d+)\+?\s*(years?|yrs?)/i);
+  return yearsMatch ? parseInt(yearsMatch[1]) : 0;
+}
+
+/**
+ * Calculate skill overlap using taxonomy matching (aliases and parent skills count),
+ * weighted by each requirement's importance
+ */
+function calculateSkillOverlap(candidateSkills: string[], requirements: SkillRequirement[], candidateYears: number): number {
   if (!candidateSkills || candidateSkills.length === 0) return 0;
-  if (!requiredSkills || requiredSkills.length === 0) return 50; // neutral score
-  
-  // Normalize skills to lowercase for comparison
-  const candidateSkillsNorm = candidateSkills.map(s => s.toLowerCase().trim());
-  const requiredSkillsNorm = requiredSkills.map(s => s.toLowerCase().trim());
-  const niceToHaveNorm = niceToHave.map(s => s.toLowerCase().trim());
-  
-  // Count exact matches for required skills
-  let requiredMatches = 0;
-  for (const required of requiredSkillsNorm) {
-    if (candidateSkillsNorm.some(cs => cs.includes(required) || required.includes(cs))) {
-      requiredMatches++;
-    }
-  }
-  
-  // Count nice-to-have matches
-  let niceToHaveMatches = 0;
-  for (const nice of niceToHaveNorm) {
-    if (candidateSkillsNorm.some(cs => cs.includes(nice) || nice.includes(cs))) {
-      niceToHaveMatches++;
+  if (!requirements || requirements.length === 0) return 50; // neutral score
+  
+  let earned = 0;
+  let total = 0;
+  for (const requirement of requirements) {
+    const weight = IMPORTANCE_WEIGHTS[requirement.importance];
+    // Full credit for the skill or one implying it, partial for a parent skill
+    let credit = getSkillMatchCredit(candidateSkills, requirement.name);
+    
+    // Only overall years are known from the CV, so they stand in for years with the skill.
+    // Proficiency can't be judged from a skill list and is left to the AI scorer.
+    if (requirement.min_years !== undefined && candidateYears < requirement.min_years) {
+      credit *= 0.5;
     }
+    
+    earned += weight * credit;
+    total += weight;
   }
   
-  // Calculate weighted score
-  const requiredScore = requiredSkills.length > 0 
-    ? (requiredMatches / requiredSkills.length) * 80 
-    : 50;
-  
-  const niceToHaveScore = niceToHave.length > 0 
-    ? (niceToHaveMatches / niceToHave.length) * 20 
-    : 0;
-  
-  return Math.min(100, Math.round(requiredScore + niceToHaveScore));
+  return Math.min(100, Math.round((earned / total) * 100));
 }
 
 /**
@@ -67,10 +68,7 @@ function calculateExperienceMatch(candidateExperience: string, experienceLevel?:
   
   const expText = candidateExperience.toLowerCase();
   const levelNorm = experienceLevel.toLowerCase();
-  
-  // Extract years of experience from text
-  const yearsMatch = expText.match(/(\d+)\+?\s*(years?|yrs?)/i);
-  const candidateYears = yearsMatch ? parseInt(yearsMatch[1]) : 0;
+  const candidateYears = extractCandidateYears(expText);
   
   // Match experience level keywords
   if (levelNorm.includes('senior') || levelNorm.includes('lead') || levelNorm.includes('principal')) {
@@ -134,16 +132,35 @@ export function calculateFallbackFitScore(
   skillMap: SkillMap
 ): FitScoreResult {
   console.log('[Fallback Scoring] Using rule-based scoring system');
-  
+  return scoreRuleBased(candidateSkills, candidateExperience, skillMap);
+}
+
+/**
+ * Local rule-based score used to rank every candidate before AI scoring
+ * (matching-pipeline.ts). Cheap and silent, so it can run for all candidates.
+ */
+export function calculatePrefilterScore(
+  candidateSkills: string[],
+  candidateExperience: string,
+  skillMap: SkillMap
+): FitScoreResult {
+  return scoreRuleBased(candidateSkills, candidateExperience, skillMap);
+}
+
+function scoreRuleBased(
+  candidateSkills: string[],
+  candidateExperience: string,
+  skillMap: SkillMap
+): FitScoreResult {
   const skillOverlap = calculateSkillOverlap(
     candidateSkills,
-    skillMap.requiredSkills,
-    skillMap.niceToHave
+    skillMap.skills,
+    extractCandidateYears(candidateExperience)
   );
   
   const experienceMatch = calculateExperienceMatch(
     candidateExperience,
-    skillMap.experienceLevel
+    skillMap.experience_level
   );
   
   const softSkillRelevance = calculateSoftSkillRelevance(
@@ -171,7 +188,8 @@ export function calculateFallbackFitScore(
     skillOverlap,
     experienceMatch,
     softSkillRelevance,
-    reasoning
+    reasoning,
+    method: 'rule_based'
   };
 }
 
@@ -228,20 +246,10 @@ export function extractFallbackSkillMap(text: string, description: string = ''):
   
   const combinedText = `${text} ${description}`.toLowerCase();
   
-  // Common technology keywords
-  const techKeywords = [
-    'javascript', 'typescript', 'python', 'java', 'react', 'node.js', 'nodejs',
-    'angular', 'vue', 'sql', 'mongodb', 'postgresql', 'aws', 'docker', 'kubernetes',
-    'git', 'rest api', 'graphql', 'html', 'css', 'tailwind', 'bootstrap',
-    'express', 'django', 'spring', 'flask', 'redis', 'elasticsearch'
-  ];
-  
-  const requiredSkills: string[] = [];
-  for (const keyword of techKeywords) {
-    if (combinedText.includes(keyword)) {
-      requiredSkills.push(keyword);
-    }
-  }
+  // Soft skills found in the text are listed separately from the requirements
+  const foundSkills = extractSkillsFromText(combinedText);
+  const requiredSkills = foundSkills.filter(skill => getSkillCategory(skill) !== 'soft');
+  const softSkills = foundSkills.filter(skill => getSkillCategory(skill) === 'soft');
   
   // Extract experience level
   let experienceLevel = 'mid-level';
@@ -252,9 +260,98 @@ export function extractFallbackSkillMap(text: string, description: string = ''):
   }
   
   return {
-    requiredSkills: requiredSkills.length > 0 ? requiredSkills : ['general programming'],
-    niceToHave: [],
-    experienceLevel,
+    version: SKILL_MAP_VERSION,
+    milestone: text,
+    skills: (requiredSkills.length > 0 ? requiredSkills : ['general programming'])
+      .map(name => ({ name, importance: 'must' as const })),
+    experience_level: experienceLevel,
+    soft_skills: softSkills,
     domain: 'software development'
   };
 }
+
+/**
+ * Extract a basic candidate profile from CV text using keyword matching
+ * Used when AI CV analysis is unavailable
+ */
+export function extractFallbackCVAnalysis(cvText: string): {
+  name: string;
+  email?: string;
+  skills: string[];
+  experience: string;
+  education: string;
+} {
+  console.log('[Fallback CV Analysis] Using keyword extraction');
+  
+  const lines = cvText.split('\n').map(line => line.trim()).filter(Boolean);
+  const emailMatch = cvText.match(/[\w.+-]+@[\w-]+\.[\w.-]+/);
+  
+  // First short line without digits or "@" is usually the candidate's name
+  const nameLine = lines.find(line => line.length <= 60 && !/[@\d]/.test(line));
+  
+  const educationLine = lines.find(line =>
+    /(university|college|bachelor|master|phd|degree|b\.sc|m\.sc)/i.test(line)
+  );
+  
+  return {
+    name: nameLine || 'Candidate',
+    email: emailMatch ? emailMatch[0] : undefined,
+    skills: extractSkillsFromText(cvText),
+    experience: cvText.substring(0, 500),
+    education: educationLine || 'Not specified',
+  };
+}
+
+/**
+ * Classify a delay percentage into a risk tier
+ * >40% critical, >=30% high, >=20% medium, otherwise low
+ */
+export function classifyDelayRisk(delayPercentage: number): "low" | "medium" | "high" | "critical" {
+  if (delayPercentage > 40) return "critical";
+  if (delayPercentage >= 30) return "high";
+  if (delayPercentage >= 20) return "medium";
+  return "low";
+}
+
+/**
+ * Rule-based risk prediction from delay percentage (4-tier escalation)
+ * Used when AI risk prediction is unavailable
+ */
+export function predictFallbackRisk(delayPercentage: number, estimatedHours: number): {
+  risk_level: "low" | "medium" | "high" | "critical";
+  delay_percentage: number;
+  predicted_issues: string[];
+  recommendations: string[];
+  backup_required: boolean;
+} {
+  console.log('[Fallback Risk] Using rule-based risk tiers');
+  
+  const riskLevel = classifyDelayRisk(delayPercentage);
+  
+  const predictedIssues: string[] = [];
+  const recommendations: string[] = [];
+  
+  if (delayPercentage >= 10) {
+    const overrunHours = Math.round((estimatedHours * delayPercentage) / 100);
+    predictedIssues.push(`Milestone is running ${delayPercentage}% over its ${estimatedHours}h estimate (~${overrunHours}h).`);
+    recommendations.push('Review remaining scope with the assigned candidate.');
+  }
+  if (riskLevel === "medium" || riskLevel === "high" || riskLevel === "critical") {
+    predictedIssues.push('Downstream milestones may slip if the delay continues.');
+    recommendations.push('Prepare a backup candidate list.');
+  }
+  if (riskLevel === "high" || riskLevel === "critical") {
+    recommendations.push('Decide within 24 hours whether to activate backup talent.');
+  }
+  if (riskLevel === "critical") {
+    recommendations.push('Activate backup candidate and escalate to management.');
+  }
+  
+  return {
+    risk_level: riskLevel,
+    delay_percentage: delayPercentage,
+    predicted_issues: predictedIssues,
+    recommendations,
+    backup_required: riskLevel === "high" || riskLevel === "critical",
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Fit Score Accuracy Analytics - Does the predicted fit match delivered outcomes?
+ *
+ * For every completed milestone of an organization's projects, the fit score of each candidate who worked on it
+ * (primary or activated backup) is paired with the outcome:
+ * - onTime:          the final delay stayed in the low risk tier (classifyDelayRisk)
+ * - delayPercentage: final delay, negated for correlation so higher = better
+ * - rating:          average post-project rating (1-5), when the business rated them
+ *
+ * Pearson correlations are reported per scoring method (AI vs rule-based) and per
+ * score component. The base score (before the reputation adjustment) is used,
+ * since that is what the scorer predicted.
+ */
+
+import { storage } from './storage';
+import { classifyDelayRisk } from './fallback-scoring';
+import { getRatableCandidateIds, getRatingAverage, isMilestoneCompleted } from './reputation';
+import type { FitScore } from '@shared/schema';
+
+export const SCORE_COMPONENTS = ['score', 'skillOverlap', 'experienceMatch', 'softSkillRelevance'] as const;
+
+export type ScoreComponent = typeof SCORE_COMPONENTS[number];
+
+export type ScoringMethodGroup = 'ai' | 'rule_based' | 'unknown';
+
+// Correlations from fewer samples are not reported
+const MIN_SAMPLE_SIZE = 3;
+
+export interface OutcomePoint {
+  milestoneId: string;
+  milestoneName: string;
+  candidateId: string;
+  candidateName: string;
+  method: ScoringMethodGroup;
+  score: number;
+  skillOverlap: number | null;
+  experienceMatch: number | null;
+  softSkillRelevance: number | null;
+  delayPercentage: number;
+  onTime: boolean;
+  rating: number | null;
+}
+
+export interface OutcomeCorrelations {
+  onTime: number | null;
+  delay: number | null; // Correlation with -delayPercentage
+  rating: number | null;
+}
+
+export interface MethodAccuracy {
+  method: ScoringMethodGroup;
+  sampleSize: number;
+  ratedSampleSize: number;
+  averageScore: number | null;
+  onTimeRate: number | null;
+  averageDelay: number | null;
+  averageRating: number | null;
+  correlations: Record<ScoreComponent, OutcomeCorrelations>;
+}
+
+export interface FitScoreAccuracyReport {
+  sampleSize: number;
+  methods: MethodAccuracy[];
+  points: OutcomePoint[];
+}
+
+/**
+ * Pearson correlation coefficient, or null when it is undefined
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < MIN_SAMPLE_SIZE || n !== ys.length) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 1000) / 1000;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100;
+}
+
+function toMethodGroup(method: string | null): ScoringMethodGroup {
+  return method === 'ai' || method === 'rule_based' ? method : 'unknown';
+}
+
+/**
+ * Latest fit score per candidate (older duplicates are ignored)
+ */
+function latestByCandidate(fitScores: FitScore[]): Map<string, FitScore> {
+  const latest = new Map<string, FitScore>();
+  for (const fitScore of fitScores) {
+    const current = latest.get(fitScore.candidateId);
+    if (!current || fitScore.createdAt > current.createdAt) {
+      latest.set(fitScore.candidateId, fitScore);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Pair fit scores with delivered outcomes on completed milestones
+ */
+export async function collectOutcomePoints(organizationId: string): Promise<OutcomePoint[]> {
+  const points: OutcomePoint[] = [];
+  const projects = await storage.getProjectsByOrganization(organizationId);
+
+  for (const project of projects) {
+    const milestones = await storage.getMilestonesByProject(project.id);
+
+    for (const milestone of milestones) {
+      if (!isMilestoneCompleted(milestone)) continue;
+
+      const workerIds = getRatableCandidateIds(milestone);
+      if (workerIds.length === 0) continue;
+
+      const fitScores = latestByCandidate(await storage.getFitScoresByMilestone(milestone.id));
+      const ratings = await storage.getMilestoneRatings(milestone.id);
+      const delayPercentage = milestone.delayPercentage || 0;
+
+      for (const candidateId of workerIds) {
+        const fitScore = fitScores.get(candidateId);
+        if (!fitScore) continue;
+
+        const candidate = await storage.getCandidate(candidateId);
+        const rating = ratings.find(r => r.candidateId === candidateId);
+
+        points.push({
+          milestoneId: milestone.id,
+          milestoneName: milestone.name,
+          candidateId,
+          candidateName: candidate?.name || 'Unknown candidate',
+          method: toMethodGroup(fitScore.scoringMethod),
+          score: fitScore.baseScore ?? fitScore.score,
+          skillOverlap: fitScore.skillOverlap,
+          experienceMatch: fitScore.experienceMatch,
+          softSkillRelevance: fitScore.softSkillRelevance,
+          delayPercentage,
+          onTime: classifyDelayRisk(delayPercentage) === 'low',
+          rating: rating ? Math.round(getRatingAverage(rating) * 100) / 100 : null,
+        });
+      }
+    }
+  }
+
+  return points;
+}
+
+function correlateComponent(points: OutcomePoint[], component: ScoreComponent): OutcomeCorrelations {
+  const scored = points.filter(p => p[component] !== null);
+  const xs = scored.map(p => p[component] as number);
+  const rated = scored.filter(p => p.rating !== null);
+
+  return {
+    onTime: pearsonCorrelation(xs, scored.map(p => (p.onTime ? 1 : 0))),
+    delay: pearsonCorrelation(xs, scored.map(p => -p.delayPercentage)),
+    rating: pearsonCorrelation(rated.map(p => p[component] as number), rated.map(p => p.rating as number)),
+  };
+}
+
+function summarizeMethod(method: ScoringMethodGroup, points: OutcomePoint[]): MethodAccuracy {
+  const correlations = {} as Record<ScoreComponent, OutcomeCorrelations>;
+  for (const component of SCORE_COMPONENTS) {
+    correlations[component] = correlateComponent(points, component);
+  }
+
+  const ratings = points.filter(p => p.rating !== null).map(p => p.rating as number);
+  return {
+    method,
+    sampleSize: points.length,
+    ratedSampleSize: ratings.length,
+    averageScore: average(points.map(p => p.score)),
+    onTimeRate: points.length > 0 ? Math.round((points.filter(p => p.onTime).length / points.length) * 100) : null,
+    averageDelay: average(points.map(p => p.delayPercentage)),
+    averageRating: average(ratings),
+    correlations,
+  };
+}
+
+/**
+ * Build the fit score accuracy report across an organization's completed milestones
+ */
+export async function getFitScoreAccuracyReport(organizationId: string): Promise<FitScoreAccuracyReport> {
+  const points = await collectOutcomePoints(organizationId);
+  const groups: ScoringMethodGroup[] = ['ai', 'rule_based', 'unknown'];
+
+  const methods = groups
+    .map(method => summarizeMethod(method, points.filter(p => p.method === method)))
+    .filter(summary => summary.sampleSize > 0);
+
+  return { sampleSize: points.length, methods, points };
+}
@@ -0,0 +1,191 @@
+/**
+ * Fit Score Cache - Score each (candidate, milestone) pair once per input
+ *
+ * Every fit score stores a fingerprint of what the scorer saw: the candidate's
+ * skills and experience, a hash of the milestone's skill map and the scorer
+ * version (provider + FIT_SCORER_VERSION). When a pair is scored again with the
+ * same fingerprint the stored score is returned without calling the scorer.
+ *
+ * Rule-based fallback scores saved while an AI provider is configured get no
+ * fingerprint, so the pair is re-scored by the AI once it is reachable again.
+ * Reputation is applied on top of the cached score (reputation.ts keeps it current).
+ */
+
+import { createHash } from 'crypto';
+import { storage } from './storage';
+import { calculateFitScore, calculateFitScoresBatch, type CandidateProfile, type FitScoreAnalysis, type SkillMap } from './gemini';
+import { getAIProvider } from './ai-provider';
+import { calculateFallbackFitScore } from './fallback-scoring';
+import { applyReputation } from './reputation';
+import type { Candidate, FitScore, Milestone } from '@shared/schema';
+
+// Bump when prompts or scoring rules change so every pair is re-scored
+export const FIT_SCORER_VERSION = 3;
+
+// Candidates per batched scoring request
+const FIT_SCORE_BATCH_SIZE = 8;
+
+export interface ScoreOptions {
+  force?: boolean; // Re-score even when the fingerprint matches
+  fallbackOnError?: boolean; // Use the rule-based scorer if the provider fails
+  prefilterScore?: number; // Stored alongside the score when the matching pipeline ranked the pair
+}
+
+export interface ScoreResult {
+  fitScore: FitScore;
+  cached: boolean;
+  usedAI: boolean;
+}
+
+function hash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+export function getScorerVersion(): string {
+  return `${getAIProvider().name}-v${FIT_SCORER_VERSION}`;
+}
+
+export function hashSkillMap(skillMap: SkillMap): string {
+  return hash({
+    version: skillMap.version,
+    skills: skillMap.skills,
+    experience_level: skillMap.experience_level,
+    soft_skills: skillMap.soft_skills,
+    domain: skillMap.domain || '',
+  });
+}
+
+export function computeFitScoreFingerprint(
+  candidateSkills: string[],
+  candidateExperience: string,
+  skillMap: SkillMap
+): string {
+  return hash({
+    skills: candidateSkills.map(s => s.trim().toLowerCase()).sort(),
+    experience: candidateExperience.trim(),
+    skillMap: hashSkillMap(skillMap),
+    scorer: getScorerVersion(),
+  });
+}
+
+async function getCachedScore(
+  candidate: Candidate,
+  milestoneId: string,
+  fingerprint: string,
+  prefilterScore?: number
+): Promise<ScoreResult | undefined> {
+  const existing = await storage.getFitScoreForPair(candidate.id, milestoneId);
+  if (!existing || existing.inputFingerprint !== fingerprint) return undefined;
+
+  let fitScore = existing;
+  if (prefilterScore !== undefined && existing.prefilterScore !== prefilterScore) {
+    fitScore = await storage.updateFitScore(existing.id, { prefilterScore }) || existing;
+  }
+  return { fitScore, cached: true, usedAI: existing.scoringMethod === 'ai' };
+}
+
+async function saveAnalysis(
+  candidate: Candidate,
+  milestoneId: string,
+  fitAnalysis: FitScoreAnalysis,
+  fingerprint: string,
+  prefilterScore?: number
+): Promise<ScoreResult> {
+  const isFallback = fitAnalysis.method === 'rule_based' && getAIProvider().name !== 'offline';
+  const fitScore = await storage.upsertFitScore(applyReputation(candidate, {
+    candidateId: candidate.id,
+    milestoneId,
+    score: Math.round(fitAnalysis.score),
+    skillOverlap: Math.round(fitAnalysis.skillOverlap),
+    experienceMatch: Math.round(fitAnalysis.experienceMatch),
+    softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
+    reasoning: fitAnalysis.reasoning,
+    scoringMethod: fitAnalysis.method,
+    inputFingerprint: isFallback ? null : fingerprint,
+    ...(prefilterScore !== undefined && { prefilterScore }),
+  }));
+
+  return { fitScore, cached: false, usedAI: fitAnalysis.method === 'ai' };
+}
+
+function toProfile(candidate: Candidate): CandidateProfile {
+  return { id: candidate.id, skills: candidate.skills || [], experience: candidate.experience || '' };
+}
+
+/**
+ * Score a candidate against a milestone's skill map, reusing the stored score
+ * when nothing the scorer depends on has changed
+ */
+export async function scoreCandidateForMilestone(
+  candidate: Candidate,
+  milestone: Pick<Milestone, 'id'>,
+  skillMap: SkillMap,
+  options: ScoreOptions = {}
+): Promise<ScoreResult> {
+  const { skills, experience } = toProfile(candidate);
+  const fingerprint = computeFitScoreFingerprint(skills, experience, skillMap);
+
+  if (!options.force) {
+    const cached = await getCachedScore(candidate, milestone.id, fingerprint, options.prefilterScore);
+    if (cached) return cached;
+  }
+
+  let fitAnalysis: FitScoreAnalysis;
+  try {
+    fitAnalysis = await calculateFitScore(skills, experience, skillMap);
+  } catch (error: any) {
+    if (!options.fallbackOnError) throw error;
+    console.error('[Fit Score] AI calculation failed, using fallback:', error.message);
+    fitAnalysis = calculateFallbackFitScore(skills, experience, skillMap);
+  }
+
+  return saveAnalysis(candidate, milestone.id, fitAnalysis, fingerprint, options.prefilterScore);
+}
+
+/**
+ * Score many candidates against one milestone. Cached pairs are skipped; the
+ * rest are sent to the provider FIT_SCORE_BATCH_SIZE candidates per request.
+ * Results are in the same order as `entries`.
+ */
+export async function scoreCandidatesForMilestone(
+  entries: Array<{ candidate: Candidate; prefilterScore?: number }>,
+  milestone: Pick<Milestone, 'id'>,
+  skillMap: SkillMap,
+  options: Omit<ScoreOptions, 'prefilterScore'> = {}
+): Promise<ScoreResult[]> {
+  const results: ScoreResult[] = new Array(entries.length);
+  const fingerprints = entries.map(({ candidate }) => {
+    const { skills, experience } = toProfile(candidate);
+    return computeFitScoreFingerprint(skills, experience, skillMap);
+  });
+
+  const pending: number[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const cached = options.force
+      ? undefined
+      : await getCachedScore(entries[i].candidate, milestone.id, fingerprints[i], entries[i].prefilterScore);
+    if (cached) results[i] = cached;
+    else pending.push(i);
+  }
+
+  for (let start = 0; start < pending.length; start += FIT_SCORE_BATCH_SIZE) {
+    const batch = pending.slice(start, start + FIT_SCORE_BATCH_SIZE);
+    const profiles = batch.map(i => toProfile(entries[i].candidate));
+
+    let analyses: FitScoreAnalysis[];
+    try {
+      analyses = await calculateFitScoresBatch(skillMap, profiles);
+    } catch (error: any) {
+      if (!options.fallbackOnError) throw error;
+      console.error(`[Fit Score] Batch of ${batch.length} failed, using fallback:`, error.message);
+      analyses = profiles.map(p => calculateFallbackFitScore(p.skills, p.experience, skillMap));
+    }
+
+    for (let j = 0; j < batch.length; j++) {
+      const i = batch[j];
+      results[i] = await saveAnalysis(entries[i].candidate, milestone.id, analyses[j], fingerprints[i], entries[i].prefilterScore);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,458 @@
+import { GoogleGenAI } from "@google/genai";
+import { geminiRateLimiter } from "./rate-limiter";
+import { z } from "zod";
+import { calculateFallbackFitScore } from "./fallback-scoring";
+import { upgradeSkillMap, formatSkillRequirement } from "./skill-map";
+import { SKILL_IMPORTANCES, SKILL_MAP_VERSION, SKILL_PROFICIENCIES } from "@shared/schema";
+import type { AIProvider, SkillMap, CVAnalysis, FitScoreAnalysis, RiskAnalysis, CandidateProfile } from "./ai-provider";
+
+// Gemini AI provider for Lean Workforce
+// Reference: javascript_gemini blueprint
+
+// Model names can be swapped per environment without code changes
+const models = {
+  fast: process.env.GEMINI_FAST_MODEL || "gemini-2.5-flash",
+  pro: process.env.GEMINI_PRO_MODEL || "gemini-2.5-pro",
+};
+
+let ai: GoogleGenAI | undefined;
+
+function getClient(): GoogleGenAI {
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+  }
+  return ai;
+}
+
+export function createGeminiProvider(): AIProvider {
+  return {
+    name: "gemini",
+    generateSkillMap,
+    analyzeCVText,
+    calculateFitScore,
+    calculateFitScoresBatch,
+    predictRisk,
+  };
+}
+
+// Milestone requirements as prompt text for fit scoring
+function formatRequirements(skillMap: SkillMap): string {
+  const lines = [
+    `- Skills (importance, minimum proficiency, minimum years): ${skillMap.skills.map(formatSkillRequirement).join("; ")}`,
+    `- Experience Level: ${skillMap.experience_level}`,
+    `- Soft Skills: ${skillMap.soft_skills.join(", ")}`,
+  ];
+  if (skillMap.domain) lines.push(`- Domain: ${skillMap.domain}`);
+  return lines.join("\n");
+}
+
+// Generate AI skill map from milestone description
+async function generateSkillMap(milestoneName: string, milestoneDescription: string): Promise<SkillMap> {
+  return geminiRateLimiter.executeWithRetry(async () => {
+    try {
+      const prompt = `Analyze this project milestone and extract structured skill requirements:
+
+Milestone: ${milestoneName}
+Description: ${milestoneDescription}
+
+Extract and return:
+1. Technical skills (programming languages, frameworks, tools), each with:
+   - importance: "must" (blocking without it), "should" (strongly preferred) or "nice" (a bonus)
+   - min_proficiency (optional): "beginner", "intermediate", "advanced" or "expert"
+   - min_years (optional): minimum years of hands-on experience with the skill
+2. Experience level needed (Entry, Intermediate, Advanced, Expert)
+3. Soft skills required (communication, problem-solving, etc.)
+4. Business or technical domain (e.g. fintech, e-commerce, data engineering)
+
+Return ONLY valid JSON in this exact format:
+{
+  "milestone": "${milestoneName}",
+  "skills": [
+    { "name": "skill1", "importance": "must", "min_proficiency": "advanced", "min_years": 3 },
+    { "name": "skill2", "importance": "nice" }
+  ],
+  "experience_level": "Intermediate",
+  "soft_skills": ["soft_skill1", "soft_skill2"],
+  "domain": "domain"
+}`;
+
+      const response = await getClient().models.generateContent({
+        model: models.fast,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: "object",
+            properties: {
+              milestone: { type: "string" },
+              skills: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    importance: { type: "string", enum: [...SKILL_IMPORTANCES] },
+                    min_proficiency: { type: "string", enum: [...SKILL_PROFICIENCIES] },
+                    min_years: { type: "number" }
+                  },
+                  required: ["name", "importance"]
+                }
+              },
+              experience_level: { type: "string" },
+              soft_skills: {
+                type: "array",
+                items: { type: "string" }
+              },
+              domain: { type: "string" }
+            },
+            required: ["milestone", "skills", "experience_level", "soft_skills"]
+          }
+        },
+        contents: prompt,
+      });
+
+      const result = JSON.parse(response.text || "{}");
+      const skillMap = upgradeSkillMap({ ...result, version: SKILL_MAP_VERSION }, milestoneName);
+      if (!skillMap) {
+        throw new Error("Skill map response does not match the skill map schema");
+      }
+      return skillMap;
+    } catch (error) {
+      console.error("Error generating skill map:", error);
+      throw new Error("Failed to generate skill map with AI");
+    }
+  });
+}
+
+// Analyze CV text and extract candidate profile
+async function analyzeCVText(cvText: string): Promise<CVAnalysis> {
+  return geminiRateLimiter.executeWithRetry(async () => {
+    try {
+      const prompt = `Analyze this CV/resume text and extract the candidate's profile:
+
+${cvText}
+
+Extract and return:
+1. Full name
+2. Email address (if present)
+3. Technical skills (programming languages, frameworks, tools)
+4. Work experience summary
+5. Education background
+6. Soft skills
+7. Domain expertise areas
+
+Return ONLY valid JSON in this exact format:
+{
+  "name": "Full Name",
+  "email": "email@example.com",
+  "skills": ["skill1", "skill2", "skill3"],
+  "experience": "Brief summary of work experience",
+  "education": "Education background",
+  "soft_skills": ["soft_skill1", "soft_skill2"],
+  "domain_expertise": ["domain1", "domain2"]
+}`;
+
+      const response = await getClient().models.generateContent({
+        model: models.pro,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              email: { type: "string" },
+              skills: {
+                type: "array",
+                items: { type: "string" }
+              },
+              experience: { type: "string" },
+              education: { type: "string" },
+              soft_skills: {
+                type: "array",
+                items: { type: "string" }
+              },
+              domain_expertise: {
+                type: "array",
+                items: { type: "string" }
+              }
+            },
+            required: ["name", "skills", "experience", "education"]
+          }
+        },
+        contents: prompt,
+      });
+
+      const result = JSON.parse(response.text || "{}");
+      return result as CVAnalysis;
+    } catch (error) {
+      console.error("Error analyzing CV:", error);
+      throw new Error("Failed to analyze CV with AI");
+    }
+  });
+}
+
+// Calculate fit score between candidate and milestone
+async function calculateFitScore(
+  candidateSkills: string[],
+  candidateExperience: string,
+  skillMap: SkillMap
+): Promise<FitScoreAnalysis> {
+  return geminiRateLimiter.executeWithRetry(async () => {
+    try {
+      const prompt = `Analyze the fit between this candidate and milestone requirements:
+
+Candidate Skills: ${candidateSkills.join(", ")}
+Candidate Experience: ${candidateExperience}
+
+Milestone Requirements:
+${formatRequirements(skillMap)}
+
+Calculate:
+1. Skill Overlap (0-100): How well do the candidate's skills cover the requirements? Weigh "must" skills most, then "should", then "nice", and account for minimum proficiency and years
+2. Experience Match (0-100): Does their experience level match?
+3. Soft Skill Relevance (0-100): Do they have relevant soft skills?
+4. Overall Fit Score (0-100): Weighted average (60% skills, 30% experience, 10% soft skills)
+5. Brief reasoning for the score
+
+Return ONLY valid JSON:
+{
+  "score": 85,
+  "skillOverlap": 90,
+  "experienceMatch": 80,
+  "softSkillRelevance": 75,
+  "reasoning": "Brief explanation of why this score was given"
+}`;
+
+      const response = await getClient().models.generateContent({
+        model: models.pro,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: "object",
+            properties: {
+              score: { type: "number" },
+              skillOverlap: { type: "number" },
+              experienceMatch: { type: "number" },
+              softSkillRelevance: { type: "number" },
+              reasoning: { type: "string" }
+            },
+            required: ["score", "skillOverlap", "experienceMatch", "softSkillRelevance", "reasoning"]
+          }
+        },
+        contents: prompt,
+      });
+
+      const result = JSON.parse(response.text || "{}");
+      // Ensure all scores are integers
+      return {
+        score: Math.round(result.score || 0),
+        skillOverlap: Math.round(result.skillOverlap || 0),
+        experienceMatch: Math.round(result.experienceMatch || 0),
+        softSkillRelevance: Math.round(result.softSkillRelevance || 0),
+        reasoning: result.reasoning || "",
+        method: "ai",
+      };
+    } catch (error) {
+      console.error("Error calculating fit score:", error);
+      throw new Error("Failed to calculate fit score with AI");
+    }
+  });
+}
+
+// One scored candidate in a batch response; malformed items fall back to the rule-based scorer
+const batchFitScoreItemSchema = z.object({
+  ref: z.string(),
+  score: z.number().min(0).max(100),
+  skillOverlap: z.number().min(0).max(100),
+  experienceMatch: z.number().min(0).max(100),
+  softSkillRelevance: z.number().min(0).max(100),
+  reasoning: z.string().min(1),
+});
+
+// Calculate fit scores for several candidates against one milestone in a single request.
+// Candidates are referenced as C1..CN so the model never has to copy ids.
+async function calculateFitScoresBatch(
+  skillMap: SkillMap,
+  candidates: CandidateProfile[]
+): Promise<FitScoreAnalysis[]> {
+  if (candidates.length === 0) return [];
+
+  const items = await geminiRateLimiter.executeWithRetry(async () => {
+    try {
+      const profiles = candidates
+        .map((c, i) => `[C${i + 1}]
+Skills: ${c.skills.join(", ")}
+Experience: ${c.experience}`)
+        .join("\n\n");
+
+      const prompt = `Analyze the fit between each candidate below and these milestone requirements:
+
+Milestone Requirements:
+${formatRequirements(skillMap)}
+
+Candidates:
+${profiles}
+
+For EACH candidate calculate:
+1. Skill Overlap (0-100): How well do the candidate's skills cover the requirements? Weigh "must" skills most, then "should", then "nice", and account for minimum proficiency and years
+2. Experience Match (0-100): Does their experience level match?
+3. Soft Skill Relevance (0-100): Do they have relevant soft skills?
+4. Overall Fit Score (0-100): Weighted average (60% skills, 30% experience, 10% soft skills)
+5. Brief reasoning for the score
+
+Score each candidate independently. Return ONLY valid JSON with one entry per candidate, using its reference (e.g. "C1"):
+{
+  "scores": [
+    {
+      "ref": "C1",
+      "score": 85,
+      "skillOverlap": 90,
+      "experienceMatch": 80,
+      "softSkillRelevance": 75,
+      "reasoning": "Brief explanation of why this score was given"
+    }
+  ]
+}`;
+
+      const response = await getClient().models.generateContent({
+        model: models.pro,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: "object",
+            properties: {
+              scores: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    ref: { type: "string" },
+                    score: { type: "number" },
+                    skillOverlap: { type: "number" },
+                    experienceMatch: { type: "number" },
+                    softSkillRelevance: { type: "number" },
+                    reasoning: { type: "string" }
+                  },
+                  required: ["ref", "score", "skillOverlap", "experienceMatch", "softSkillRelevance", "reasoning"]
+                }
+              }
+            },
+            required: ["scores"]
+          }
+        },
+        contents: prompt,
+      });
+
+      const result = JSON.parse(response.text || "{}");
+      if (!Array.isArray(result.scores)) {
+        throw new Error("Response has no scores array");
+      }
+      return result.scores as unknown[];
+    } catch (error) {
+      console.error("Error calculating batch fit scores:", error);
+      throw new Error("Failed to calculate batch fit scores with AI");
+    }
+  });
+
+  const scoresByRef: Record<string, FitScoreAnalysis> = {};
+  for (const item of items) {
+    const parsed = batchFitScoreItemSchema.safeParse(item);
+    if (!parsed.success) continue;
+
+    scoresByRef[parsed.data.ref.trim().toUpperCase()] = {
+      score: Math.round(parsed.data.score),
+      skillOverlap: Math.round(parsed.data.skillOverlap),
+      experienceMatch: Math.round(parsed.data.experienceMatch),
+      softSkillRelevance: Math.round(parsed.data.softSkillRelevance),
+      reasoning: parsed.data.reasoning,
+      method: "ai",
+    };
+  }
+
+  let fallbackCount = 0;
+  const results = candidates.map((c, i) => {
+    const scored = scoresByRef[`C${i + 1}`];
+    if (scored) return scored;
+
+    fallbackCount++;
+    return calculateFallbackFitScore(c.skills, c.experience, skillMap);
+  });
+
+  if (fallbackCount > 0) {
+    console.warn(`[Gemini] ${fallbackCount} of ${candidates.length} batch fit scores missing or malformed, used rule-based scores`);
+  }
+  return results;
+}
+
+// Predict project risk based on delay
+async function predictRisk(
+  milestoneName: string,
+  milestoneDescription: string,
+  delayPercentage: number,
+  estimatedHours: number
+): Promise<RiskAnalysis> {
+  return geminiRateLimiter.executeWithRetry(async () => {
+    try {
+      const prompt = `Analyze this project milestone for risk:
+
+Milestone: ${milestoneName}
+Description: ${milestoneDescription}
+Estimated Hours: ${estimatedHours}
+Current Delay: ${delayPercentage}%
+
+Analyze the risk and provide:
+1. Risk Level (low, medium, high, critical)
+2. Predicted Issues (what could go wrong)
+3. Recommendations (how to mitigate)
+4. Whether backup talent should be activated (true/false)
+
+Risk criteria (4-tier escalation):
+- Delay <20%: Low risk (monitor only)
+- Delay 20-30%: Medium risk (notify + prepare backup list)
+- Delay 30-40%: High risk (notify + backup ready, require decision)
+- Delay >40%: Critical risk (auto-activate backup + escalate)
+
+Return ONLY valid JSON:
+{
+  "risk_level": "high",
+  "delay_percentage": ${delayPercentage},
+  "predicted_issues": ["issue1", "issue2"],
+  "recommendations": ["recommendation1", "recommendation2"],
+  "backup_required": true
+}`;
+
+      const response = await getClient().models.generateContent({
+        model: models.pro,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: "object",
+            properties: {
+              risk_level: { 
+                type: "string",
+                enum: ["low", "medium", "high", "critical"]
+              },
+              delay_percentage: { type: "number" },
+              predicted_issues: {
+                type: "array",
+                items: { type: "string" }
+              },
+              recommendations: {
+                type: "array",
+                items: { type: "string" }
+              },
+              backup_required: { type: "boolean" }
+            },
+            required: ["risk_level", "delay_percentage", "predicted_issues", "recommendations", "backup_required"]
+          }
+        },
+        contents: prompt,
+      });
+
+      const result = JSON.parse(response.text || "{}");
+      return result as RiskAnalysis;
+    } catch (error) {
+      console.error("Error predicting risk:", error);
+      throw new Error("Failed to predict risk with AI");
+    }
+  });
+}
@@ -6,8 +6,19 @@ import { setupVite, serveStatic, log } from "./vite";
 import { sql } from "drizzle-orm";
 import { Pool } from "@neondatabase/serverless";
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody: unknown
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the raw body for webhook signature verification
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -46,9 +57,12 @@ app.use((req, res, next) => {
     if (!process.env.DATABASE_URL) {
       throw new Error("DATABASE_URL environment variable is required. Please set it in your deployment configuration.");
     }
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY environment variable is required. Please set it in your deployment configuration.");
+    const { resolveAIProviderName } = await import("./ai-provider");
+    const aiProvider = resolveAIProviderName();
+    if (aiProvider === "gemini" && !process.env.GEMINI_API_KEY) {
+      throw new Error("GEMINI_API_KEY environment variable is required. Please set it in your deployment configuration (or set AI_PROVIDER=offline).");
     }
+    log(`AI provider: ${aiProvider}`);
 
     // Test database connection
     log("Testing database connection...");
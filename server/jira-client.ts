@@ -1,7 +1,7 @@
 // Jira client setup - Reference: jira blueprint
 import { Version3Client } from 'jira.js';
-import { storage } from './storage';
 import { safeDecrypt } from './encryption';
+import { getJiraSettingsForUser } from './organizations';
 
 let connectionSettings: any;
 
@@ -49,7 +49,7 @@ async function getAccessTokenFromConnector() {
 // Try to get credentials from database (manual configuration)
 async function getManualCredentials(businessUserId: string = 'demo-business-user') {
   try {
-    const settings = await storage.getJiraSettings(businessUserId);
+    const settings = await getJiraSettingsForUser(businessUserId);
     
     if (settings && settings.jiraDomain && settings.jiraEmail && settings.jiraApiToken && settings.isConfigured) {
       // Decrypt API token before use
@@ -8,9 +8,11 @@ import type { InsertJiraSyncLog } from '@shared/schema';
 
 interface JiraSyncContext {
   businessUserId: string;
-  syncType: 'import_projects' | 'sync_project' | 'sync_milestone';
+  syncType: 'import_projects' | 'sync_project' | 'sync_milestone' | 'jira_writeback';
   projectId?: string;
   jiraProjectKey?: string;
+  milestoneId?: string;
+  payload?: unknown; // Stored on the log so the operation can be retried
 }
 
 interface JiraSyncResult<T = any> {
@@ -75,12 +77,17 @@ export async function executeJiraSync<T>(
     syncType: context.syncType,
     projectId: context.projectId,
     jiraProjectKey: context.jiraProjectKey,
+    milestoneId: context.milestoneId,
+    payload: context.payload as any,
     status: 'success', // Will update if fails
     startedAt: new Date(),
   };
 
   const log = await storage.createJiraSyncLog(logEntry);
 
+  // Write-backs push data to Jira, so they don't count as a project sync
+  const tracksProjectSync = !!context.projectId && context.syncType !== 'jira_writeback';
+
   try {
     // Execute the Jira operation
     const result = await operation();
@@ -92,8 +99,8 @@ export async function executeJiraSync<T>(
     });
 
     // Update project sync status if applicable
-    if (context.projectId) {
-      await storage.updateProject(context.projectId, {
+    if (tracksProjectSync) {
+      await storage.updateProject(context.projectId!, {
         lastJiraSyncAt: new Date(),
         lastJiraSyncStatus: 'success',
         lastJiraSyncError: null,
@@ -127,8 +134,8 @@ export async function executeJiraSync<T>(
     });
 
     // Update project sync status if applicable
-    if (context.projectId) {
-      await storage.updateProject(context.projectId, {
+    if (tracksProjectSync) {
+      await storage.updateProject(context.projectId!, {
         lastJiraSyncAt: new Date(),
         lastJiraSyncStatus: 'failed',
         lastJiraSyncError: errorMessage,
@@ -150,7 +157,14 @@ export async function executeJiraSync<T>(
  */
 export async function executeJiraSyncBatch<T>(
   context: JiraSyncContext,
-  operation: () => Promise<{ created: number; updated: number; data: T }>
+  operation: () => Promise<{
+    created: number;
+    updated: number;
+    archived?: number;
+    unchanged?: number;
+    report?: unknown;
+    data: T;
+  }>
 ): Promise<JiraSyncResult<T>> {
   const logEntry: InsertJiraSyncLog = {
     businessUserId: context.businessUserId,
@@ -171,6 +185,9 @@ export async function executeJiraSyncBatch<T>(
       status: 'success',
       milestonesCreated: result.created,
       milestonesUpdated: result.updated,
+      milestonesArchived: result.archived || 0,
+      milestonesUnchanged: result.unchanged || 0,
+      report: result.report as any,
       completedAt: new Date(),
     });
 
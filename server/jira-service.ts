@@ -1,4 +1,5 @@
 import { getUncachableJiraClient } from "./jira-client";
+import { classifyDelayRisk } from "./fallback-scoring";
 
 // Jira integration service for Lean Workforce
 
@@ -13,6 +14,9 @@ export interface JiraIssue {
   epicName?: string;
   sprintId?: string;
   sprintName?: string;
+  sprintStartDate?: string;
+  sprintEndDate?: string;
+  updated?: string; // ISO timestamp of the issue's last change
 }
 
 export interface JiraSprint {
@@ -60,126 +64,255 @@ export async function fetchAllJiraProjects(businessUserId: string = 'demo-busine
   }
 }
 
-// Fetch all sprints for a project (sprint field deprecated - returns empty for now)
-export async function fetchProjectSprints(projectKey: string, businessUserId: string = 'demo-business-user'): Promise<JiraSprint[]> {
-  // NOTE: Sprint field has been deprecated in Jira API v3
-  // For now, return empty array and let system fallback to issue-based import
-  // Future enhancement: Use Jira Agile API board endpoints for sprint detection
-  console.log(`Sprint detection skipped for ${projectKey} - using issue-based import instead`);
-  return [];
+// Fetch every page of a Jira Agile API list endpoint (offset pagination).
+// Board and sprint lists return `values` + `isLast`; sprint issues return `issues` + `total`.
+async function fetchAgilePages(
+  client: any,
+  url: string,
+  itemsKey: 'values' | 'issues',
+  params: Record<string, any> = {}
+): Promise<any[]> {
+  const items: any[] = [];
+  const maxResults = itemsKey === 'issues' ? 100 : 50;
+  const maxPages = 50;
+  let startAt = 0;
+  
+  for (let page = 0; page < maxPages; page++) {
+    const response: any = await client.sendRequest({
+      url,
+      method: 'GET',
+      params: { ...params, startAt, maxResults },
+    });
+    
+    const batch = response?.[itemsKey] || [];
+    items.push(...batch);
+    startAt += batch.length;
+    
+    const isLast = response?.isLast ?? (typeof response?.total === 'number' ? startAt >= response.total : true);
+    if (isLast || batch.length === 0) break;
+  }
+  
+  return items;
 }
 
-// Fetch issues for a specific sprint (not used since sprint detection is disabled)
-export async function fetchSprintIssues(sprintId: number, businessUserId: string = 'demo-business-user'): Promise<JiraIssue[]> {
-  return [];
+function mapJiraSprint(sprint: any): JiraSprint {
+  return {
+    id: sprint.id,
+    name: sprint.name,
+    state: sprint.state,
+    startDate: sprint.startDate || undefined,
+    endDate: sprint.endDate || undefined,
+    goal: sprint.goal || undefined,
+  };
 }
 
-// Sync all issues from Jira project using NEW enhanced JQL search API
-export async function syncJiraMilestones(projectKey: string, businessUserId: string = 'demo-business-user'): Promise<JiraIssue[]> {
+// Fetch all sprints for a project via the Jira Agile API (boards → sprints).
+// Only scrum boards have sprints; a sprint shared by several boards is returned once.
+// Returns an empty list if the project has no scrum board or the Agile API is unavailable.
+export async function fetchProjectSprints(projectKey: string, businessUserId: string = 'demo-business-user'): Promise<JiraSprint[]> {
   try {
     const client = await getUncachableJiraClient(businessUserId);
     
-    const allIssues: JiraIssue[] = [];
-    let nextPageToken: string | undefined = undefined;
-    const maxResults = 100; // New API allows up to 100 per page
-    let pageCount = 0;
-    const maxPages = 50; // Limit to 5000 issues max (50 pages × 100)
-
-    // Use cursor-based pagination with new enhanced JQL API
-    do {
-      try {
-        // Use the NEW enhanced JQL search endpoint (POST /rest/api/3/search/jql)
-        const searchBody: any = {
-          jql: `project=${projectKey}`,
-          fields: ['*navigable'], // Explicitly request fields (new API default changed)
-          maxResults,
-        };
-        
-        if (nextPageToken) {
-          searchBody.nextPageToken = nextPageToken;
-        }
-
-        // Call the new endpoint directly using sendRequest
-        const response: any = await (client as any).sendRequest({
-          url: '/rest/api/3/search/jql',
-          method: 'POST',
-          data: searchBody,
-        });
-
-        console.log(`Fetched ${response.issues?.length || 0} issues for project ${projectKey} (page ${pageCount + 1})`);
-
-        if (response.issues && response.issues.length > 0) {
-          // Filter and map issues
-          const batchIssues = response.issues
-            .filter((issue: any) => {
-              const issueType = issue.fields?.issuetype?.name || "";
-              return issueType.toLowerCase() !== "epic";
-            })
-            .map((issue: any) => {
-              // Extract epic information
-              const epicKey = issue.fields?.parent?.key || issue.fields?.epic?.key || null;
-              const epicName = issue.fields?.parent?.fields?.summary || issue.fields?.epic?.name || null;
-              
-              // Extract sprint information (from sprint field or customfield)
-              let sprintId = null;
-              let sprintName = null;
-              
-              // Try to get sprint from various possible fields
-              const sprintField = issue.fields?.sprint || 
-                                 issue.fields?.customfield_10020 || 
-                                 issue.fields?.customfield_10010;
-              
-              if (sprintField) {
-                if (Array.isArray(sprintField) && sprintField.length > 0) {
-                  // Take the latest sprint
-                  const latestSprint = sprintField[sprintField.length - 1];
-                  sprintId = latestSprint.id?.toString() || null;
-                  sprintName = latestSprint.name || null;
-                } else if (typeof sprintField === 'object' && sprintField.id) {
-                  sprintId = sprintField.id.toString();
-                  sprintName = sprintField.name || null;
-                }
-              }
-              
-              return {
-                key: issue.key,
-                summary: issue.fields?.summary || "Untitled",
-                description: issue.fields?.description || "",
-                status: issue.fields?.status?.name || "To Do",
-                timeEstimate: issue.fields?.timeestimate,
-                timeSpent: issue.fields?.timespent,
-                epicKey,
-                epicName,
-                sprintId,
-                sprintName,
-              };
-            });
-
-          allIssues.push(...batchIssues);
-        }
-
-        // Get next page token for cursor-based pagination
-        nextPageToken = response.nextPageToken;
-        pageCount++;
-
-        // Safety check to avoid infinite loops
-        if (!nextPageToken || pageCount >= maxPages) {
-          break;
-        }
-      } catch (batchError) {
-        console.error(`Error fetching page ${pageCount + 1}:`, batchError);
-        break;
+    const boards = await fetchAgilePages(client, '/rest/agile/1.0/board', 'values', {
+      projectKeyOrId: projectKey,
+      type: 'scrum',
+    });
+    
+    const sprintsById = new Map<number, JiraSprint>();
+    for (const board of boards) {
+      const boardSprints = await fetchAgilePages(client, `/rest/agile/1.0/board/${board.id}/sprint`, 'values');
+      for (const sprint of boardSprints) {
+        sprintsById.set(sprint.id, mapJiraSprint(sprint));
       }
-    } while (nextPageToken);
+    }
+    
+    const sprints = Array.from(sprintsById.values());
+    console.log(`Found ${sprints.length} sprints on ${boards.length} scrum boards for project ${projectKey}`);
+    return sprints;
+  } catch (error) {
+    console.error(`Error fetching sprints for project ${projectKey}:`, error);
+    return [];
+  }
+}
+
+// Fetch non-Epic issues in a specific sprint via the Jira Agile API
+export async function fetchSprintIssues(sprintId: number, businessUserId: string = 'demo-business-user'): Promise<JiraIssue[]> {
+  try {
+    const client = await getUncachableJiraClient(businessUserId);
+    
+    const issues = await fetchAgilePages(client, `/rest/agile/1.0/sprint/${sprintId}/issue`, 'issues', {
+      fields: '*navigable',
+    });
+    
+    return issues
+      .filter((issue: any) => (issue.fields?.issuetype?.name || "").toLowerCase() !== "epic")
+      .map(mapJiraIssue);
+  } catch (error) {
+    console.error(`Error fetching issues for sprint ${sprintId}:`, error);
+    return [];
+  }
+}
+
+// Map a raw Jira issue (REST API v3) to our JiraIssue shape
+function mapJiraIssue(issue: any): JiraIssue {
+  // Extract epic information
+  const epicKey = issue.fields?.parent?.key || issue.fields?.epic?.key || null;
+  const epicName = issue.fields?.parent?.fields?.summary || issue.fields?.epic?.name || null;
+  
+  // Extract sprint information (from sprint field or customfield)
+  let sprintId = null;
+  let sprintName = null;
+  let sprintStartDate = null;
+  let sprintEndDate = null;
+  
+  // Try to get sprint from various possible fields
+  const sprintField = issue.fields?.sprint || 
+                     issue.fields?.customfield_10020 || 
+                     issue.fields?.customfield_10010;
+  
+  if (sprintField) {
+    if (Array.isArray(sprintField) && sprintField.length > 0) {
+      // Take the latest sprint
+      const latestSprint = sprintField[sprintField.length - 1];
+      sprintId = latestSprint.id?.toString() || null;
+      sprintName = latestSprint.name || null;
+      sprintStartDate = latestSprint.startDate || null;
+      sprintEndDate = latestSprint.endDate || null;
+    } else if (typeof sprintField === 'object' && sprintField.id) {
+      sprintId = sprintField.id.toString();
+      sprintName = sprintField.name || null;
+      sprintStartDate = sprintField.startDate || null;
+      sprintEndDate = sprintField.endDate || null;
+    }
+  }
+  
+  // v3 returns descriptions as ADF JSON; store them as a JSON string
+  const rawDescription = issue.fields?.description || "";
+  const description = typeof rawDescription === "string" ? rawDescription : JSON.stringify(rawDescription);
+  
+  return {
+    key: issue.key,
+    summary: issue.fields?.summary || "Untitled",
+    description,
+    status: issue.fields?.status?.name || "To Do",
+    timeEstimate: issue.fields?.timeestimate,
+    timeSpent: issue.fields?.timespent,
+    epicKey,
+    epicName,
+    sprintId,
+    sprintName,
+    sprintStartDate,
+    sprintEndDate,
+    updated: issue.fields?.updated,
+  };
+}
+
+// Build the JQL for a project, optionally restricted to recently updated issues.
+// Oldest changes come first, so a truncated result can still advance the sync cursor.
+// Uses a relative offset ("-90m") because absolute JQL dates are interpreted in the
+// Jira user's timezone; a small margin covers clock skew between us and Jira.
+function buildProjectJql(projectKey: string, updatedSince?: Date): string {
+  if (!updatedSince) {
+    return `project=${projectKey} ORDER BY updated ASC`;
+  }
+  
+  const marginMinutes = 5;
+  const minutesAgo = Math.ceil((Date.now() - updatedSince.getTime()) / 60000) + marginMinutes;
+  return `project=${projectKey} AND updated >= "-${minutesAgo}m" ORDER BY updated ASC`;
+}
+
+// Fetch non-Epic issues from a Jira project using the enhanced JQL search API.
+// Pass `updatedSince` to fetch only issues changed since then (incremental sync).
+// Throws on failure. `complete` is false when the page limit truncated the result,
+// so callers must not treat missing issues as deleted.
+export async function fetchProjectIssues(
+  projectKey: string,
+  businessUserId: string = 'demo-business-user',
+  options: { updatedSince?: Date } = {}
+): Promise<{
+  issues: JiraIssue[];
+  complete: boolean;
+}> {
+  const client = await getUncachableJiraClient(businessUserId);
+  const jql = buildProjectJql(projectKey, options.updatedSince);
+  
+  const allIssues: JiraIssue[] = [];
+  let nextPageToken: string | undefined = undefined;
+  const maxResults = 100; // New API allows up to 100 per page
+  let pageCount = 0;
+  const maxPages = 50; // Limit to 5000 issues max (50 pages × 100)
+
+  // Use cursor-based pagination with new enhanced JQL API
+  do {
+    // Use the NEW enhanced JQL search endpoint (POST /rest/api/3/search/jql)
+    const searchBody: any = {
+      jql,
+      fields: ['*navigable'], // Explicitly request fields (new API default changed)
+      maxResults,
+    };
+    
+    if (nextPageToken) {
+      searchBody.nextPageToken = nextPageToken;
+    }
+
+    // Call the new endpoint directly using sendRequest
+    const response: any = await (client as any).sendRequest({
+      url: '/rest/api/3/search/jql',
+      method: 'POST',
+      data: searchBody,
+    });
+
+    console.log(`Fetched ${response.issues?.length || 0} issues for project ${projectKey} (page ${pageCount + 1})`);
 
-    console.log(`Total fetched: ${allIssues.length} non-Epic issues from project ${projectKey} (${pageCount} pages)`);
-    return allIssues;
+    if (response.issues && response.issues.length > 0) {
+      const batchIssues = response.issues
+        .filter((issue: any) => {
+          const issueType = issue.fields?.issuetype?.name || "";
+          return issueType.toLowerCase() !== "epic";
+        })
+        .map(mapJiraIssue);
+
+      allIssues.push(...batchIssues);
+    }
+
+    // Get next page token for cursor-based pagination
+    nextPageToken = response.nextPageToken;
+    pageCount++;
+  } while (nextPageToken && pageCount < maxPages);
+
+  console.log(`Total fetched: ${allIssues.length} non-Epic issues from project ${projectKey} (${pageCount} pages)`);
+  return { issues: allIssues, complete: !nextPageToken };
+}
+
+// Sync all issues from Jira project (returns empty list on failure)
+export async function syncJiraMilestones(projectKey: string, businessUserId: string = 'demo-business-user'): Promise<JiraIssue[]> {
+  try {
+    const { issues } = await fetchProjectIssues(projectKey, businessUserId);
+    return issues;
   } catch (error) {
     console.error("Error syncing Jira milestones:", error);
     return [];
   }
 }
 
+// Fetch a single raw issue with the fields needed for progress tracking (throws on failure)
+export async function fetchJiraIssue(issueIdOrKey: string, businessUserId: string = 'demo-business-user'): Promise<any> {
+  const client = await getUncachableJiraClient(businessUserId);
+  
+  return await client.issues.getIssue({
+    issueIdOrKey,
+    fields: ["project", "status", "timeestimate", "timespent", "issuetype"],
+  });
+}
+
+// Percentage of time spent beyond the estimate (0 when on track or unestimated)
+export function calculateDelayPercentage(timeEstimate: number, timeSpent: number): number {
+  if (timeEstimate > 0 && timeSpent > timeEstimate) {
+    return Math.round(((timeSpent - timeEstimate) / timeEstimate) * 100);
+  }
+  return 0;
+}
+
 // Get issue status and calculate delay
 export async function getIssueProgress(issueKey: string, businessUserId: string = 'demo-business-user'): Promise<{
   status: string;
@@ -197,15 +330,10 @@ export async function getIssueProgress(issueKey: string, businessUserId: string
 
     const timeEstimate = issue.fields.timeestimate || 0;
     const timeSpent = issue.fields.timespent || 0;
-    
-    let delayPercentage = 0;
-    if (timeEstimate > 0 && timeSpent > timeEstimate) {
-      delayPercentage = Math.round(((timeSpent - timeEstimate) / timeEstimate) * 100);
-    }
 
     return {
       status: issue.fields.status?.name || "Unknown",
-      delayPercentage,
+      delayPercentage: calculateDelayPercentage(timeEstimate, timeSpent),
       timeEstimate,
       timeSpent,
     };
@@ -220,7 +348,76 @@ export async function getIssueProgress(issueKey: string, businessUserId: string
   }
 }
 
-// Monitor all issues in a project for delays
+export interface JiraIssueUpdate {
+  assigneeEmail?: string; // Assigned if a Jira user with this email exists
+  addLabels?: string[];
+  removeLabels?: string[];
+  comment?: string[]; // One paragraph per entry
+  transitionName?: string; // e.g. "In Progress"; skipped if not available from the current status
+}
+
+// Write Lean Workforce data back to a Jira issue (labels, assignee, comment, transition).
+// Throws on failure so callers can log and retry.
+export async function updateJiraIssue(
+  issueKey: string,
+  update: JiraIssueUpdate,
+  businessUserId: string = 'demo-business-user'
+): Promise<{ assigned: boolean; transitioned: boolean }> {
+  const client = await getUncachableJiraClient(businessUserId);
+  let assigned = false;
+  let transitioned = false;
+
+  const labelOps = [
+    ...(update.addLabels || []).map(label => ({ add: label })),
+    ...(update.removeLabels || []).map(label => ({ remove: label })),
+  ];
+  if (labelOps.length > 0) {
+    await client.issues.editIssue({
+      issueIdOrKey: issueKey,
+      update: { labels: labelOps },
+    });
+  }
+
+  if (update.assigneeEmail) {
+    const users = await client.userSearch.findUsers({ query: update.assigneeEmail, maxResults: 1 });
+    const accountId = users[0]?.accountId;
+    if (accountId) {
+      await client.issues.assignIssue({ issueIdOrKey: issueKey, accountId });
+      assigned = true;
+    } else {
+      console.log(`No Jira user found for ${update.assigneeEmail}, leaving ${issueKey} unassigned`);
+    }
+  }
+
+  if (update.comment && update.comment.length > 0) {
+    await client.issueComments.addComment({
+      issueIdOrKey: issueKey,
+      comment: {
+        type: 'doc',
+        version: 1,
+        content: update.comment.map(text => ({
+          type: 'paragraph',
+          content: [{ type: 'text', text }],
+        })),
+      } as any,
+    });
+  }
+
+  if (update.transitionName) {
+    const { transitions = [] } = await client.issues.getTransitions({ issueIdOrKey: issueKey });
+    const transition = transitions.find(t => t.name?.toLowerCase() === update.transitionName!.toLowerCase());
+    if (transition?.id) {
+      await client.issues.doTransition({ issueIdOrKey: issueKey, transition: { id: transition.id } });
+      transitioned = true;
+    } else {
+      console.log(`Transition "${update.transitionName}" not available for ${issueKey}, skipping`);
+    }
+  }
+
+  return { assigned, transitioned };
+}
+
+// Monitor all issues in a project for delays (read-only; see delay-monitor.ts for the scheduled version)
 export async function monitorProjectDelays(projectKey: string, businessUserId: string = 'demo-business-user'): Promise<Array<{
   issueKey: string;
   delayPercentage: number;
@@ -231,20 +428,13 @@ export async function monitorProjectDelays(projectKey: string, businessUserId: s
     const delayedIssues = [];
 
     for (const issue of issues) {
-      const progress = await getIssueProgress(issue.key, businessUserId);
+      const delayPercentage = calculateDelayPercentage(issue.timeEstimate || 0, issue.timeSpent || 0);
       
-      if (progress.delayPercentage > 0) {
-        let riskLevel = "low";
-        if (progress.delayPercentage > 20) {
-          riskLevel = "high";
-        } else if (progress.delayPercentage >= 10) {
-          riskLevel = "medium";
-        }
-
+      if (delayPercentage > 0) {
         delayedIssues.push({
           issueKey: issue.key,
-          delayPercentage: progress.delayPercentage,
-          riskLevel,
+          delayPercentage,
+          riskLevel: classifyDelayRisk(delayPercentage),
         });
       }
     }
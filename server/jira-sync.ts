@@ -0,0 +1,464 @@
+/**
+ * Jira Milestone Reconciliation
+ * Idempotent sync of Jira issues into milestones, keyed on the Jira issue key.
+ * Renamed issues update their milestone, and issues deleted or moved out of
+ * the project archive their milestone instead of leaving it orphaned.
+ *
+ * Syncs are incremental by default: only issues updated since the project's
+ * sync cursor are fetched, and skill maps are only regenerated when an issue's
+ * summary or description actually changed.
+ */
+
+import { createHash } from 'crypto';
+import { storage } from './storage';
+import {
+  fetchAllJiraProjects,
+  fetchProjectIssues,
+  fetchProjectSprints,
+  fetchSprintIssues,
+  type JiraIssue,
+  type JiraSprint,
+} from './jira-service';
+import { executeJiraSyncBatch } from './jira-error-handler';
+import { generateSkillMap, type SkillMap } from './gemini';
+import { matchCandidatesToMilestone } from './matching-pipeline';
+import { getBusinessProjects, getOrganizationIdForUser } from './organizations';
+import type { Milestone, Project, InsertMilestone } from '@shared/schema';
+
+export interface JiraSyncReportEntry {
+  milestoneId: string;
+  jiraIssueKey: string;
+  name: string;
+}
+
+/** Reports progress (0-100) to the caller, e.g. a background job */
+export type SyncProgressCallback = (progress: number) => Promise<void>;
+
+export interface JiraSyncReport {
+  mode: 'full' | 'incremental';
+  created: JiraSyncReportEntry[];
+  updated: JiraSyncReportEntry[];
+  archived: JiraSyncReportEntry[];
+  unchanged: JiraSyncReportEntry[];
+}
+
+/**
+ * Hash the Jira content a skill map is generated from
+ */
+export function computeIssueContentHash(summary: string, description: string): string {
+  return createHash('sha256').update(`${summary}\n${description}`).digest('hex');
+}
+
+/**
+ * Build milestone fields from a Jira issue
+ */
+function milestoneFieldsFromIssue(issue: JiraIssue) {
+  return {
+    jiraContentHash: computeIssueContentHash(issue.summary, issue.description || ""),
+    name: issue.summary,
+    description: issue.description || "",
+    estimatedHours: issue.timeEstimate ? Math.round(issue.timeEstimate / 3600) : 40, // Integer column, rounded like the webhook path
+    jiraIssueKey: issue.key,
+    jiraEpicKey: issue.epicKey || null,
+    jiraSprintId: issue.sprintId || null,
+    jiraSprintName: issue.sprintName || null,
+    jiraSprintStartDate: issue.sprintStartDate ? new Date(issue.sprintStartDate) : null,
+    jiraSprintEndDate: issue.sprintEndDate ? new Date(issue.sprintEndDate) : null,
+  };
+}
+
+function isSameDate(a: Date | null, b: Date | null): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
+
+/**
+ * Check whether any Jira-owned field differs from the stored milestone
+ */
+function hasIssueChanged(milestone: Milestone, fields: ReturnType<typeof milestoneFieldsFromIssue>): boolean {
+  return (
+    milestone.jiraContentHash !== fields.jiraContentHash ||
+    milestone.name !== fields.name ||
+    milestone.description !== fields.description ||
+    milestone.estimatedHours !== fields.estimatedHours ||
+    milestone.jiraEpicKey !== fields.jiraEpicKey ||
+    milestone.jiraSprintId !== fields.jiraSprintId ||
+    milestone.jiraSprintName !== fields.jiraSprintName ||
+    !isSameDate(milestone.jiraSprintStartDate, fields.jiraSprintStartDate) ||
+    !isSameDate(milestone.jiraSprintEndDate, fields.jiraSprintEndDate)
+  );
+}
+
+interface ProjectSprints {
+  sprintsById: Map<string, JiraSprint>;
+  sprintByIssueKey: Map<string, JiraSprint>;
+}
+
+/**
+ * Load a project's sprints from the Jira Agile API. Membership of active and
+ * future sprints comes from the sprint issue lists, since the sprint custom
+ * field on search results differs between Jira sites.
+ */
+async function loadProjectSprints(jiraProjectKey: string, businessUserId: string): Promise<ProjectSprints> {
+  const sprints = await fetchProjectSprints(jiraProjectKey, businessUserId);
+  const sprintsById = new Map<string, JiraSprint>();
+  const sprintByIssueKey = new Map<string, JiraSprint>();
+
+  for (const sprint of sprints) {
+    sprintsById.set(sprint.id.toString(), sprint);
+
+    if (sprint.state === 'active' || sprint.state === 'future') {
+      const sprintIssues = await fetchSprintIssues(sprint.id, businessUserId);
+      for (const issue of sprintIssues) {
+        sprintByIssueKey.set(issue.key, sprint);
+      }
+    }
+  }
+
+  return { sprintsById, sprintByIssueKey };
+}
+
+/**
+ * Fill in an issue's sprint and sprint dates from the Agile API data
+ */
+function applyProjectSprint(issue: JiraIssue, projectSprints: ProjectSprints): JiraIssue {
+  const sprint =
+    projectSprints.sprintByIssueKey.get(issue.key) ||
+    (issue.sprintId ? projectSprints.sprintsById.get(issue.sprintId) : undefined);
+
+  if (!sprint) return issue;
+
+  return {
+    ...issue,
+    sprintId: sprint.id.toString(),
+    sprintName: sprint.name,
+    sprintStartDate: sprint.startDate,
+    sprintEndDate: sprint.endDate,
+  };
+}
+
+/**
+ * Sprint dates change without touching their issues, so incremental syncs
+ * refresh them on every milestone in a known sprint
+ */
+async function refreshSprintDates(projectId: string, sprintsById: Map<string, JiraSprint>) {
+  const milestones = await storage.getMilestonesByProject(projectId);
+
+  for (const milestone of milestones) {
+    const sprint = milestone.jiraSprintId ? sprintsById.get(milestone.jiraSprintId) : undefined;
+    if (!sprint || milestone.archivedAt) continue;
+
+    const startDate = sprint.startDate ? new Date(sprint.startDate) : null;
+    const endDate = sprint.endDate ? new Date(sprint.endDate) : null;
+
+    if (
+      milestone.jiraSprintName !== sprint.name ||
+      !isSameDate(milestone.jiraSprintStartDate, startDate) ||
+      !isSameDate(milestone.jiraSprintEndDate, endDate)
+    ) {
+      await storage.updateMilestone(milestone.id, {
+        jiraSprintName: sprint.name,
+        jiraSprintStartDate: startDate,
+        jiraSprintEndDate: endDate,
+      });
+    }
+  }
+}
+
+function toReportEntry(milestone: Milestone): JiraSyncReportEntry {
+  return {
+    milestoneId: milestone.id,
+    jiraIssueKey: milestone.jiraIssueKey || "",
+    name: milestone.name,
+  };
+}
+
+/**
+ * Generate a skill map, returning null if AI generation fails
+ */
+async function generateSkillMapSafely(issue: JiraIssue): Promise<SkillMap | null> {
+  try {
+    return await generateSkillMap(issue.summary, issue.description || "");
+  } catch (error) {
+    console.error(`Failed to generate skill map for issue ${issue.key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Reconcile a project's milestones with the current set of Jira issues
+ *
+ * @param project - Project linked to Jira
+ * @param issues - Issues fetched from the Jira project (all, or only recently updated)
+ * @param complete - Whether `issues` is the full set (archiving is skipped otherwise)
+ * @param onProgress - Called with 0-100 as issues are processed
+ */
+export async function reconcileJiraIssues(
+  project: Project,
+  issues: JiraIssue[],
+  complete: boolean,
+  mode: JiraSyncReport['mode'] = 'full',
+  onProgress?: SyncProgressCallback
+): Promise<JiraSyncReport> {
+  const report: JiraSyncReport = { mode, created: [], updated: [], archived: [], unchanged: [] };
+
+  const existingMilestones = await storage.getMilestonesByProject(project.id);
+  const milestonesByKey = new Map<string, Milestone>();
+  for (const milestone of existingMilestones) {
+    if (milestone.jiraIssueKey) {
+      milestonesByKey.set(milestone.jiraIssueKey, milestone);
+    }
+  }
+
+  const seenKeys = new Set<string>();
+  const claimedLegacyIds = new Set<string>();
+
+  for (let index = 0; index < issues.length; index++) {
+    const issue = issues[index];
+    if (onProgress && index > 0) {
+      await onProgress(Math.round((index / issues.length) * 100));
+    }
+
+    seenKeys.add(issue.key);
+    const fields = milestoneFieldsFromIssue(issue);
+
+    let existing = milestonesByKey.get(issue.key);
+
+    // Milestones imported before issue keys were stored: adopt them once by name
+    if (!existing) {
+      existing = existingMilestones.find(m =>
+        !m.jiraIssueKey && !claimedLegacyIds.has(m.id) && m.name === issue.summary
+      );
+      if (existing) {
+        claimedLegacyIds.add(existing.id);
+      }
+    }
+
+    if (!existing) {
+      const skillMap = await generateSkillMapSafely(issue);
+      const created = await storage.createMilestone({
+        projectId: project.id,
+        ...fields,
+        skillMap: skillMap as any,
+      });
+      report.created.push(toReportEntry(created));
+
+      if (skillMap) {
+        await matchCandidatesToMilestone(created, skillMap);
+      }
+      continue;
+    }
+
+    const needsKey = existing.jiraIssueKey !== issue.key;
+    const wasArchived = !!existing.archivedAt;
+
+    if (!needsKey && !wasArchived && !hasIssueChanged(existing, fields)) {
+      report.unchanged.push(toReportEntry(existing));
+      continue;
+    }
+
+    console.log(`Updating milestone ${existing.id} from Jira issue ${issue.key}`);
+
+    // Only regenerate the skill map (and re-score candidates) when its inputs changed.
+    // Milestones synced before hashes were stored are hashed from their current content.
+    const previousHash = existing.jiraContentHash || computeIssueContentHash(existing.name, existing.description);
+    const contentChanged = previousHash !== fields.jiraContentHash || !existing.skillMap;
+    const skillMap = contentChanged ? await generateSkillMapSafely(issue) : null;
+
+    const updateData: Partial<InsertMilestone> = { ...fields };
+    if (skillMap) {
+      updateData.skillMap = skillMap as any;
+    }
+    if (wasArchived) {
+      updateData.archivedAt = null;
+      updateData.status = "pending";
+    }
+
+    const updated = await storage.updateMilestone(existing.id, updateData);
+    report.updated.push(toReportEntry(updated || existing));
+
+    if (skillMap) {
+      await matchCandidatesToMilestone(existing, skillMap);
+    }
+  }
+
+  // Issues no longer in the project were deleted or moved in Jira
+  if (complete) {
+    for (const milestone of existingMilestones) {
+      if (!milestone.jiraIssueKey || seenKeys.has(milestone.jiraIssueKey) || milestone.archivedAt) {
+        continue;
+      }
+
+      console.log(`Archiving milestone ${milestone.id}: Jira issue ${milestone.jiraIssueKey} no longer in ${project.jiraProjectKey}`);
+      const archived = await storage.updateMilestone(milestone.id, {
+        status: "archived",
+        archivedAt: new Date(),
+      });
+      report.archived.push(toReportEntry(archived || milestone));
+    }
+  } else {
+    console.log(`Issue list for ${project.jiraProjectKey} is incremental or truncated, skipping archive detection`);
+  }
+
+  return report;
+}
+
+/**
+ * Latest `updated` timestamp among fetched issues (undefined if none has one)
+ */
+function getLatestIssueUpdate(issues: JiraIssue[]): Date | undefined {
+  let latest: Date | undefined;
+  for (const issue of issues) {
+    const updated = issue.updated ? new Date(issue.updated) : undefined;
+    if (updated && !isNaN(updated.getTime()) && (!latest || updated > latest)) {
+      latest = updated;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Fetch a project's Jira issues and reconcile its milestones, recording
+ * the sync report in jira_sync_logs
+ *
+ * @param options.fullResync - Ignore the sync cursor and fetch every issue (recovery);
+ *   full syncs also detect issues deleted or moved in Jira
+ * @param options.onProgress - Called with 0-100 as the sync advances
+ */
+export async function syncProjectFromJira(
+  project: Project,
+  businessUserId: string,
+  syncType: 'import_projects' | 'sync_project' = 'sync_project',
+  options: { fullResync?: boolean; onProgress?: SyncProgressCallback } = {}
+) {
+  if (!project.jiraProjectKey) {
+    throw new Error("Project is not linked to Jira");
+  }
+  const jiraProjectKey = project.jiraProjectKey;
+
+  return executeJiraSyncBatch(
+    {
+      businessUserId,
+      syncType,
+      projectId: project.id,
+      jiraProjectKey,
+    },
+    async () => {
+      const syncStartedAt = new Date();
+      const updatedSince = options.fullResync ? undefined : project.jiraSyncCursor || undefined;
+      const mode = updatedSince ? 'incremental' : 'full';
+
+      const fetched = await fetchProjectIssues(jiraProjectKey, businessUserId, { updatedSince });
+      const projectSprints = await loadProjectSprints(jiraProjectKey, businessUserId);
+      const issues = fetched.issues.map(issue => applyProjectSprint(issue, projectSprints));
+      const complete = fetched.complete;
+      await options.onProgress?.(10);
+
+      // Incremental results only contain changed issues, so they can never prove a deletion
+      const report = await reconcileJiraIssues(
+        project,
+        issues,
+        mode === 'full' && complete,
+        mode,
+        options.onProgress && (progress => options.onProgress!(10 + Math.round(progress * 0.9)))
+      );
+
+      await refreshSprintDates(project.id, projectSprints.sprintsById);
+
+      // Advance the cursor only after the whole sync succeeded. Issues come oldest
+      // change first, so a truncated fetch only covers changes up to its last issue.
+      const cursor = complete ? syncStartedAt : getLatestIssueUpdate(issues);
+      if (cursor) {
+        await storage.updateProject(project.id, { jiraSyncCursor: cursor });
+      }
+
+      return {
+        created: report.created.length,
+        updated: report.updated.length,
+        archived: report.archived.length,
+        unchanged: report.unchanged.length,
+        report,
+        data: report,
+      };
+    }
+  );
+}
+
+/**
+ * Import every Jira project visible to the business user, creating projects
+ * that don't exist yet and syncing their milestones
+ */
+export async function importJiraProjects(
+  businessUserId: string,
+  onProgress?: SyncProgressCallback
+): Promise<{ imported: number; projects: Array<Pick<Project, 'id' | 'name' | 'jiraProjectKey'>> }> {
+  try {
+    // Fetch all projects from Jira
+    const jiraProjects = await fetchAllJiraProjects(businessUserId);
+    await onProgress?.(5);
+
+    const importedProjects: Project[] = [];
+
+    for (let index = 0; index < jiraProjects.length; index++) {
+      const jiraProject = jiraProjects[index];
+      // Check if this business's organization already has the project
+      const existingProjects = await getBusinessProjects(businessUserId);
+      let project = existingProjects.find(p => p.jiraProjectKey === jiraProject.key);
+
+      if (project) {
+        console.log(`Project ${jiraProject.key} already exists, re-syncing tasks...`);
+      } else {
+        // Create project in database
+        project = await storage.createProject({
+          name: jiraProject.name,
+          description: jiraProject.description || `Imported from Jira project ${jiraProject.key}`,
+          businessUserId,
+          organizationId: await getOrganizationIdForUser(businessUserId),
+          jiraProjectKey: jiraProject.key,
+        });
+      }
+
+      // Progress range covered by this project
+      const rangeStart = 5 + (index / jiraProjects.length) * 95;
+      const rangeSize = 95 / jiraProjects.length;
+
+      // Reconcile issues into milestones keyed on Jira issue key (sprints are attached per issue)
+      try {
+        const syncResult = await syncProjectFromJira(project, businessUserId, 'import_projects', {
+          onProgress: onProgress && (progress => onProgress(Math.round(rangeStart + (progress / 100) * rangeSize))),
+        });
+        if (!syncResult.success) {
+          console.error(`Issue sync failed for project ${jiraProject.key}: ${syncResult.error}`);
+        }
+      } catch (error) {
+        console.error(`Failed to sync milestones for project ${jiraProject.key}:`, error);
+      }
+
+      importedProjects.push(project);
+      await onProgress?.(Math.round(rangeStart + rangeSize));
+    }
+
+    return {
+      imported: importedProjects.length,
+      projects: importedProjects.map(p => ({ id: p.id, name: p.name, jiraProjectKey: p.jiraProjectKey })),
+    };
+  } catch (error: any) {
+    console.error("Error importing Jira projects:", error);
+    
+    // Log the failed sync
+    await storage.createJiraSyncLog({
+      businessUserId,
+      syncType: 'import_projects',
+      status: 'failed',
+      error: error.message,
+      errorDetails: {
+        stack: error.stack,
+        statusCode: error?.response?.status
+      } as any,
+      canRetry: true,
+      startedAt: new Date(),
+      completedAt: new Date(),
+    });
+    
+    throw error;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Jira Webhook Receiver
+ * Applies Jira issue and worklog events to the matching milestone as they happen:
+ * - jira:issue_updated / worklog_*  - status, time estimate and delay percentage
+ *                                     (done issues complete the confirmed assignment)
+ * - jira:issue_created              - queues an incremental project sync (creates the milestone with a skill map)
+ * - jira:issue_deleted              - archives the milestone
+ *
+ * Summary/description/sprint edits also queue an incremental sync so the skill map
+ * is regenerated. Crossing a delay risk tier triggers risk evaluation (risk-evaluation.ts).
+ *
+ * Each organization shares one webhook secret (jira_settings.webhookSecret); the
+ * URL names the member who enabled it, whose organization's projects are updated.
+ * Requests are verified with the X-Hub-Signature HMAC header when Jira sends one,
+ * otherwise with a `secret` query parameter on the webhook URL.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { storage } from './storage';
+import { safeDecrypt } from './encryption';
+import { calculateDelayPercentage, fetchJiraIssue } from './jira-service';
+import { getBusinessProjects } from './organizations';
+import { evaluateMilestoneRisk, recordMilestoneDelay } from './risk-evaluation';
+import { completeCandidateAssignment } from './assignment-validator';
+import { completeActiveBackup } from './backup-queue';
+import type { JiraSettings, Milestone, Project } from '@shared/schema';
+
+export const JIRA_WEBHOOK_EVENTS = [
+  'jira:issue_created',
+  'jira:issue_updated',
+  'jira:issue_deleted',
+  'worklog_created',
+  'worklog_updated',
+  'worklog_deleted',
+] as const;
+
+export type JiraWebhookEvent = typeof JIRA_WEBHOOK_EVENTS[number];
+
+export interface JiraWebhookResult {
+  action: 'updated' | 'archived' | 'sync_queued' | 'ignored';
+  milestoneId?: string;
+  reason?: string;
+}
+
+// Changelog fields that change the milestone's content, not just its progress
+const CONTENT_FIELDS = ['summary', 'description', 'sprint', 'epic link', 'parent'];
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Verify a webhook request against the business user's secret
+ */
+export function verifyJiraWebhook(
+  settings: JiraSettings | undefined,
+  rawBody: Buffer | undefined,
+  signatureHeader: string | undefined,
+  querySecret: string | undefined
+): boolean {
+  if (!settings?.webhookSecret) return false;
+  const secret = safeDecrypt(settings.webhookSecret);
+  if (!secret) return false;
+
+  if (signatureHeader && rawBody) {
+    const expected = 'sha256=' + createHmac('sha256', secret).update(rawBody).digest('hex');
+    return safeEqual(signatureHeader, expected);
+  }
+
+  return !!querySecret && safeEqual(querySecret, secret);
+}
+
+export function isJiraWebhookEvent(value: unknown): value is JiraWebhookEvent {
+  return typeof value === 'string' && (JIRA_WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Map a Jira status category to a milestone status, keeping "delayed"
+ * while the issue is still open and over its estimate
+ */
+function milestoneStatusFromIssue(issue: any, milestone: Milestone, delayPercentage: number): string {
+  const category = issue.fields?.status?.statusCategory?.key;
+
+  if (category === 'done') return 'completed';
+  if (milestone.status === 'delayed' && delayPercentage > 0) return 'delayed';
+  if (category === 'indeterminate') return 'in-progress';
+  if (category === 'new') return 'pending';
+  return milestone.status;
+}
+
+async function findProject(businessUserId: string, jiraProjectKey: string | undefined): Promise<Project | undefined> {
+  if (!jiraProjectKey) return undefined;
+  const projects = await getBusinessProjects(businessUserId);
+  return projects.find(p => p.jiraProjectKey === jiraProjectKey);
+}
+
+async function findMilestone(projectId: string, issueKey: string): Promise<Milestone | undefined> {
+  const milestones = await storage.getMilestonesByProject(projectId);
+  return milestones.find(m => m.jiraIssueKey === issueKey);
+}
+
+/**
+ * Queue an incremental sync for the project unless one is already waiting
+ */
+async function queueProjectSync(project: Project, businessUserId: string): Promise<void> {
+  const jobs = await storage.getJobsByUser(businessUserId);
+  const alreadyQueued = jobs.some(job =>
+    job.jobType === 'jira_sync' &&
+    job.status === 'pending' &&
+    (job.payload as any)?.projectId === project.id
+  );
+  if (alreadyQueued) return;
+
+  await storage.createJob({
+    jobType: 'jira_sync',
+    userId: businessUserId,
+    status: 'pending',
+    payload: { projectId: project.id, businessUserId, fullResync: false } as any,
+    progress: 0,
+    maxAttempts: 3,
+  });
+}
+
+/**
+ * Update a milestone's progress fields from a Jira issue, evaluating risk
+ * when the delay crosses into a new tier
+ */
+async function applyIssueProgress(milestone: Milestone, issue: any): Promise<void> {
+  const timeEstimate = issue.fields?.timeestimate || 0;
+  const timeSpent = issue.fields?.timespent || 0;
+  const delayPercentage = calculateDelayPercentage(timeEstimate, timeSpent);
+
+  const { milestone: updated, alertRequired } = await recordMilestoneDelay(milestone, delayPercentage, {
+    status: milestoneStatusFromIssue(issue, milestone, delayPercentage),
+    estimatedHours: timeEstimate ? Math.round(timeEstimate / 3600) : milestone.estimatedHours,
+  });
+
+  if (updated.status === 'completed' && milestone.status !== 'completed') {
+    if (['confirmed', 'active'].includes(milestone.assignmentStatus || '')) {
+      await completeCandidateAssignment(milestone.id);
+    }
+    if (milestone.backupAssignmentStatus === 'active') {
+      await completeActiveBackup(milestone.id);
+    }
+  }
+
+  if (alertRequired) {
+    // Risk prediction may wait on the AI rate limiter; don't hold up the webhook response
+    evaluateMilestoneRisk(updated, delayPercentage).catch(error => {
+      console.error(`[Jira Webhook] Risk evaluation failed for milestone ${milestone.id}:`, error);
+    });
+  }
+}
+
+/**
+ * Apply a verified Jira webhook event
+ */
+export async function handleJiraWebhookEvent(businessUserId: string, event: any): Promise<JiraWebhookResult> {
+  const eventType = event?.webhookEvent;
+  if (!isJiraWebhookEvent(eventType)) {
+    return { action: 'ignored', reason: `Unsupported event ${eventType}` };
+  }
+
+  // Worklog events only carry the issue id, so load the issue from Jira
+  let issue = event.issue;
+  if (eventType.startsWith('worklog_')) {
+    if (!event.worklog?.issueId) {
+      return { action: 'ignored', reason: 'Worklog event without issue id' };
+    }
+    issue = await fetchJiraIssue(event.worklog.issueId, businessUserId);
+  }
+
+  if (!issue?.key) {
+    return { action: 'ignored', reason: 'Event without issue' };
+  }
+
+  if ((issue.fields?.issuetype?.name || '').toLowerCase() === 'epic') {
+    return { action: 'ignored', reason: 'Epics are not tracked as milestones' };
+  }
+
+  const project = await findProject(businessUserId, issue.fields?.project?.key);
+  if (!project) {
+    return { action: 'ignored', reason: `No project linked to ${issue.fields?.project?.key}` };
+  }
+
+  const milestone = await findMilestone(project.id, issue.key);
+
+  if (eventType === 'jira:issue_deleted') {
+    if (!milestone || milestone.archivedAt) {
+      return { action: 'ignored', reason: `No active milestone for ${issue.key}` };
+    }
+    await storage.updateMilestone(milestone.id, { status: 'archived', archivedAt: new Date() });
+    return { action: 'archived', milestoneId: milestone.id };
+  }
+
+  if (!milestone) {
+    // New (or not yet synced) issue: the sync creates the milestone and its skill map
+    await queueProjectSync(project, businessUserId);
+    return { action: 'sync_queued' };
+  }
+
+  if (milestone.archivedAt) {
+    return { action: 'ignored', milestoneId: milestone.id, reason: 'Milestone is archived' };
+  }
+
+  await applyIssueProgress(milestone, issue);
+
+  const changedFields: string[] = (event.changelog?.items || []).map((item: any) => String(item.field || '').toLowerCase());
+  if (changedFields.some(field => CONTENT_FIELDS.includes(field))) {
+    await queueProjectSync(project, businessUserId);
+  }
+
+  return { action: 'updated', milestoneId: milestone.id };
+}
@@ -0,0 +1,154 @@
+/**
+ * Jira Write-back
+ * Pushes Lean Workforce decisions back to the linked Jira issue:
+ * - Confirmed assignments: assignee, label, comment with the fit reasoning
+ * - Risk alerts: risk label, comment with the risk analysis
+ *
+ * Write-backs run on the background job worker (job type "jira_writeback") and
+ * are logged in jira_sync_logs with sync type "jira_writeback", storing the
+ * request payload so failed write-backs can be retried.
+ *
+ * Optional transitions (skipped when unset):
+ * - JIRA_ASSIGNMENT_TRANSITION - e.g. "In Progress"
+ * - JIRA_RISK_TRANSITION       - e.g. "Blocked"
+ */
+
+import { storage } from './storage';
+import { updateJiraIssue, type JiraIssueUpdate } from './jira-service';
+import { executeJiraSync } from './jira-error-handler';
+import type { Milestone, Project } from '@shared/schema';
+import type { RiskAnalysis } from './gemini';
+
+export type JiraWriteBackPayload =
+  | { kind: 'assignment'; milestoneId: string; candidateId: string }
+  | { kind: 'risk'; milestoneId: string; riskAlertId: string };
+
+const ASSIGNED_LABEL = 'leanworkforce-assigned';
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+function riskLabel(level: string): string {
+  return `leanworkforce-risk-${level}`;
+}
+
+/**
+ * Load the milestone and project for a write-back, or undefined if the
+ * milestone isn't linked to a Jira issue
+ */
+async function getWriteBackTarget(milestoneId: string): Promise<{ milestone: Milestone; project: Project } | undefined> {
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone?.jiraIssueKey) return undefined;
+
+  const project = await storage.getProject(milestone.projectId);
+  if (!project?.jiraProjectKey) return undefined;
+
+  return { milestone, project };
+}
+
+async function buildAssignmentUpdate(milestone: Milestone, candidateId: string): Promise<JiraIssueUpdate> {
+  const candidate = await storage.getCandidate(candidateId);
+  if (!candidate) {
+    throw new Error(`Candidate ${candidateId} not found`);
+  }
+
+  const fitScores = await storage.getFitScoresByMilestone(milestone.id);
+  const fitScore = fitScores.find(fs => fs.candidateId === candidateId);
+
+  const comment = [`Lean Workforce: ${candidate.name} (${candidate.email}) confirmed the assignment for this task.`];
+  if (fitScore) {
+    comment.push(`Fit score: ${fitScore.score}/100 (skill overlap ${fitScore.skillOverlap}%, experience match ${fitScore.experienceMatch}%).`);
+    if (fitScore.reasoning) {
+      comment.push(fitScore.reasoning);
+    }
+  }
+
+  return {
+    assigneeEmail: candidate.email,
+    addLabels: [ASSIGNED_LABEL],
+    comment,
+    transitionName: process.env.JIRA_ASSIGNMENT_TRANSITION || undefined,
+  };
+}
+
+async function buildRiskUpdate(riskAlertId: string): Promise<JiraIssueUpdate> {
+  const riskAlert = await storage.getRiskAlert(riskAlertId);
+  if (!riskAlert) {
+    throw new Error(`Risk alert ${riskAlertId} not found`);
+  }
+
+  const analysis = riskAlert.aiAnalysis as RiskAnalysis | null;
+  const comment = [`Lean Workforce risk alert: ${riskAlert.riskLevel.toUpperCase()} risk (${riskAlert.delayPercentage}% over estimate).`];
+  if (analysis?.predicted_issues?.length) {
+    comment.push(`Predicted issues: ${analysis.predicted_issues.join('; ')}`);
+  }
+  if (analysis?.recommendations?.length) {
+    comment.push(`Recommendations: ${analysis.recommendations.join('; ')}`);
+  }
+  if (analysis?.backup_required) {
+    comment.push('A backup candidate is recommended for this task.');
+  }
+
+  return {
+    addLabels: [riskLabel(riskAlert.riskLevel)],
+    removeLabels: RISK_LEVELS.filter(level => level !== riskAlert.riskLevel).map(riskLabel),
+    comment,
+    transitionName: process.env.JIRA_RISK_TRANSITION || undefined,
+  };
+}
+
+/**
+ * Queue a write-back on the background job worker.
+ * Never throws: a Jira write-back must not fail the action that triggered it.
+ */
+export async function queueJiraWriteBack(payload: JiraWriteBackPayload): Promise<string | undefined> {
+  try {
+    const target = await getWriteBackTarget(payload.milestoneId);
+    if (!target) return undefined;
+
+    const job = await storage.createJob({
+      jobType: 'jira_writeback',
+      userId: target.project.businessUserId,
+      payload: payload as any,
+      status: 'pending',
+    });
+
+    console.log(`[Jira Write-back] Queued ${payload.kind} write-back for ${target.milestone.jiraIssueKey} (job ${job.id})`);
+    return job.id;
+  } catch (error) {
+    console.error(`[Jira Write-back] Failed to queue ${payload.kind} write-back:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Write to the Jira issue and log the attempt in jira_sync_logs
+ */
+export async function performJiraWriteBack(payload: JiraWriteBackPayload) {
+  const target = await getWriteBackTarget(payload.milestoneId);
+  if (!target) {
+    return { success: true, skipped: true, canRetry: false };
+  }
+
+  const { milestone, project } = target;
+  const issueKey = milestone.jiraIssueKey!;
+
+  const result = await executeJiraSync(
+    {
+      businessUserId: project.businessUserId,
+      syncType: 'jira_writeback',
+      projectId: project.id,
+      jiraProjectKey: project.jiraProjectKey!,
+      milestoneId: milestone.id,
+      payload,
+    },
+    async () => {
+      const update = payload.kind === 'assignment'
+        ? await buildAssignmentUpdate(milestone, payload.candidateId)
+        : await buildRiskUpdate(payload.riskAlertId);
+
+      const outcome = await updateJiraIssue(issueKey, update, project.businessUserId);
+      return { issueKey, kind: payload.kind, ...outcome };
+    }
+  );
+
+  return { ...result, skipped: false };
+}
@@ -1,8 +1,14 @@
 import { storage } from "./storage";
 import { parseDocument } from "./document-parser";
-import { analyzeCVText, calculateFitScore, generateSkillMap } from "./gemini";
-import { calculateFallbackFitScore, extractFallbackSkillMap } from "./fallback-scoring";
+import { analyzeCVText, generateSkillMap } from "./gemini";
+import { extractFallbackSkillMap } from "./fallback-scoring";
+import { extractSkillsFromText } from "./skill-taxonomy";
+import { upgradeSkillMap } from "./skill-map";
 import { sendJobCompletionEmail } from "./sendgrid";
+import { importJiraProjects, syncProjectFromJira } from "./jira-sync";
+import { performJiraWriteBack, type JiraWriteBackPayload } from "./jira-writeback";
+import { scoreCandidateForMilestone } from "./fit-score-cache";
+import { matchCandidateToAllMilestones } from "./matching-pipeline";
 import type { BackgroundJob } from "@shared/schema";
 
 /**
@@ -90,6 +96,15 @@ async function processJob(job: BackgroundJob) {
       case "skill_map_generation":
         result = await processSkillMapJob(job);
         break;
+      case "jira_import":
+        result = await processJiraImportJob(job);
+        break;
+      case "jira_sync":
+        result = await processJiraSyncJob(job);
+        break;
+      case "jira_writeback":
+        result = await processJiraWriteBackJob(job);
+        break;
       default:
         throw new Error(`Unknown job type: ${job.jobType}`);
     }
@@ -116,8 +131,8 @@ async function processJob(job: BackgroundJob) {
   } catch (error: any) {
     console.error(`[Job Worker] ✗ Failed ${job.jobType} job ${jobId}:`, error.message);
     
-    // Check if we should retry
-    const shouldRetry = (job.attempts || 0) < (job.maxAttempts || 3);
+    // Check if we should retry (handlers flag permanent failures with retryable = false)
+    const shouldRetry = error.retryable !== false && (job.attempts || 0) < (job.maxAttempts || 3);
     
     await storage.updateJob(jobId, {
       status: shouldRetry ? "pending" : "failed",
@@ -165,7 +180,7 @@ async function processCVJob(job: BackgroundJob) {
     // Fallback: extract basic info from text
     cvAnalysis = {
       name: "Candidate",
-      skills: extractKeywords(parseResult.text, ["javascript", "python", "react", "node"]),
+      skills: extractSkillsFromText(parseResult.text),
       experience: parseResult.text.substring(0, 500),
       education: "Not specified",
     };
@@ -206,45 +221,20 @@ async function processFitScoreJob(job: BackgroundJob) {
     throw new Error("Candidate or milestone not found");
   }
   
-  if (!milestone.skillMap || !candidate.skills) {
+  const skillMap = upgradeSkillMap(milestone.skillMap, milestone.name);
+  if (!skillMap || !candidate.skills) {
     throw new Error("Missing skill data for fit score calculation");
   }
   
-  let fitAnalysis;
-  let usedFallback = false;
-  
-  try {
-    fitAnalysis = await calculateFitScore(
-      candidate.skills,
-      candidate.experience || "",
-      milestone.skillMap as any
-    );
-  } catch (error: any) {
-    console.error('[Fit Score] AI calculation failed, using fallback:', error.message);
-    usedFallback = true;
-    
-    fitAnalysis = calculateFallbackFitScore(
-      candidate.skills,
-      candidate.experience || "",
-      milestone.skillMap as any
-    );
-  }
-  
-  await storage.createFitScore({
-    candidateId,
-    milestoneId,
-    score: Math.round(fitAnalysis.score),
-    skillOverlap: Math.round(fitAnalysis.skillOverlap),
-    experienceMatch: Math.round(fitAnalysis.experienceMatch),
-    softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-    reasoning: fitAnalysis.reasoning,
+  const { fitScore, usedAI } = await scoreCandidateForMilestone(candidate, milestone, skillMap, {
+    fallbackOnError: true,
   });
   
   return {
     candidateId,
     milestoneId,
-    score: Math.round(fitAnalysis.score),
-    usedAI: !usedFallback,
+    score: fitScore.baseScore ?? fitScore.score,
+    usedAI,
   };
 }
 
@@ -278,72 +268,86 @@ async function processSkillMapJob(job: BackgroundJob) {
 }
 
 /**
- * Helper: Calculate fit scores for candidate against all milestones
+ * Process Jira project import job
  */
-async function calculateAllFitScores(candidateId: string): Promise<number> {
-  const candidate = await storage.getCandidate(candidateId);
-  if (!candidate || !candidate.skills || candidate.skills.length === 0) {
-    return 0;
+async function processJiraImportJob(job: BackgroundJob) {
+  const { businessUserId } = job.payload as any;
+  
+  console.log(`[Jira Import] Importing Jira projects for ${businessUserId}`);
+  
+  return await importJiraProjects(businessUserId, async (progress) => {
+    await storage.updateJob(job.id, { progress: Math.min(progress, 99) });
+  });
+}
+
+/**
+ * Process Jira project sync job
+ */
+async function processJiraSyncJob(job: BackgroundJob) {
+  const { projectId, businessUserId, fullResync } = job.payload as any;
+  
+  const project = await storage.getProject(projectId);
+  if (!project) {
+    throw Object.assign(new Error("Project not found"), { retryable: false });
   }
   
-  const projects = await storage.getAllProjects();
-  let matchCount = 0;
+  console.log(`[Jira Sync] Syncing project ${project.jiraProjectKey} (${fullResync ? 'full' : 'incremental'})`);
   
-  for (const project of projects) {
-    const milestones = await storage.getMilestonesByProject(project.id);
-    
-    for (const milestone of milestones) {
-      if (!milestone.skillMap) continue;
-      
-      try {
-        let fitAnalysis;
-        try {
-          fitAnalysis = await calculateFitScore(
-            candidate.skills,
-            candidate.experience || "",
-            milestone.skillMap as any
-          );
-        } catch (error) {
-          // Fallback if AI fails
-          fitAnalysis = calculateFallbackFitScore(
-            candidate.skills,
-            candidate.experience || "",
-            milestone.skillMap as any
-          );
-        }
-        
-        await storage.createFitScore({
-          candidateId,
-          milestoneId: milestone.id,
-          score: Math.round(fitAnalysis.score),
-          skillOverlap: Math.round(fitAnalysis.skillOverlap),
-          experienceMatch: Math.round(fitAnalysis.experienceMatch),
-          softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-          reasoning: fitAnalysis.reasoning,
-        });
-        
-        matchCount++;
-      } catch (error) {
-        console.error(`[Fit Score] Failed for milestone ${milestone.id}:`, error);
-      }
-    }
+  const result = await syncProjectFromJira(project, businessUserId, 'sync_project', {
+    fullResync,
+    onProgress: async (progress) => {
+      await storage.updateJob(job.id, { progress: Math.min(progress, 99) });
+    },
+  });
+  
+  if (!result.success || !result.data) {
+    throw Object.assign(new Error(result.error || "Jira sync failed"), { retryable: result.canRetry });
   }
   
-  return matchCount;
+  const report = result.data;
+  const synced = report.created.length + report.updated.length + report.unchanged.length;
+  
+  return {
+    projectId,
+    logId: result.logId,
+    mode: report.mode,
+    synced,
+    created: report.created.length,
+    updated: report.updated.length,
+    archived: report.archived.length,
+    unchanged: report.unchanged.length,
+    report,
+    message: `Synced ${synced} tasks from Jira (${report.created.length} new, ${report.updated.length} updated, ${report.archived.length} archived)`,
+  };
 }
 
 /**
- * Helper: Extract keywords from text
+ * Process Jira write-back job (assignment or risk alert pushed to the Jira issue)
  */
-function extractKeywords(text: string, keywords: string[]): string[] {
-  const found: string[] = [];
-  const lowerText = text.toLowerCase();
+async function processJiraWriteBackJob(job: BackgroundJob) {
+  const payload = job.payload as JiraWriteBackPayload;
   
-  for (const keyword of keywords) {
-    if (lowerText.includes(keyword.toLowerCase())) {
-      found.push(keyword);
-    }
+  const result = await performJiraWriteBack(payload);
+  
+  if (!result.success) {
+    throw Object.assign(new Error(result.error || "Jira write-back failed"), { retryable: result.canRetry });
   }
   
-  return found;
+  return {
+    kind: payload.kind,
+    milestoneId: payload.milestoneId,
+    skipped: result.skipped,
+    logId: result.logId,
+    ...(result.data || {}),
+  };
+}
+
+/**
+ * Helper: Calculate fit scores for candidate against all milestones
+ * (AI-scored only where the candidate ranks in a milestone's top K)
+ */
+async function calculateAllFitScores(candidateId: string): Promise<number> {
+  const summary = await matchCandidateToAllMilestones(candidateId);
+  return summary.ranked - summary.failed;
 }
+
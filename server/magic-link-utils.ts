@@ -9,6 +9,15 @@ export function generateMagicLinkToken(): string {
   return randomBytes(32).toString('base64url');
 }
 
+/**
+ * Base URL for links in emails (REPLIT_DOMAINS in production)
+ */
+export function getAppBaseUrl(): string {
+  return process.env.REPLIT_DOMAINS
+    ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
+    : `http://localhost:5000`;
+}
+
 /**
  * Generate the magic link URL for email
  */
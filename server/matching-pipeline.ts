@@ -0,0 +1,182 @@
+/**
+ * Matching Pipeline - Rank every candidate locally, AI-score only the top K
+ *
+ * Stage 1 (prefilter): every candidate with skills gets the rule-based score
+ * from fallback-scoring.ts. It costs no API calls and is stored on the fit
+ * score as prefilterScore.
+ * Stage 2 (AI): the top K candidates by prefilter score are scored by the AI
+ * provider in batched requests through fit-score-cache.ts, so unchanged pairs
+ * are not re-scored.
+ *
+ * Candidates outside the top K keep the rule-based score so they still see
+ * the milestone in their job matches; a pair that already has an AI score
+ * keeps it and only its prefilterScore is refreshed.
+ *
+ * K comes from projects.aiMatchLimit, falling back to the MATCH_AI_TOP_K env
+ * var (default 10).
+ */
+
+import { storage } from './storage';
+import { calculatePrefilterScore } from './fallback-scoring';
+import { scoreCandidateForMilestone, scoreCandidatesForMilestone } from './fit-score-cache';
+import { applyReputation } from './reputation';
+import { upgradeSkillMap } from './skill-map';
+import type { SkillMap } from './gemini';
+import type { Candidate, Milestone, Project } from '@shared/schema';
+
+const DEFAULT_AI_MATCH_LIMIT = 10;
+
+export interface RankedCandidate {
+  candidate: Candidate;
+  prefilterScore: number;
+}
+
+export interface MatchSummary {
+  ranked: number;
+  aiScored: number;
+  cached: number;
+  prefilterOnly: number;
+  failed: number;
+}
+
+export function getAIMatchLimit(project?: Pick<Project, 'aiMatchLimit'>): number {
+  if (project?.aiMatchLimit !== null && project?.aiMatchLimit !== undefined) {
+    return Math.max(0, project.aiMatchLimit);
+  }
+  const configured = parseInt(process.env.MATCH_AI_TOP_K || '', 10);
+  return Number.isNaN(configured) ? DEFAULT_AI_MATCH_LIMIT : Math.max(0, configured);
+}
+
+/**
+ * Stage 1: rank candidates by the local rule-based score, best first
+ */
+export function prefilterCandidates(candidates: Candidate[], skillMap: SkillMap): RankedCandidate[] {
+  return candidates
+    .filter(candidate => candidate.skills && candidate.skills.length > 0)
+    .map(candidate => ({
+      candidate,
+      prefilterScore: calculatePrefilterScore(candidate.skills || [], candidate.experience || '', skillMap).score,
+    }))
+    .sort((a, b) => b.prefilterScore - a.prefilterScore);
+}
+
+/**
+ * Save the rule-based score for a candidate outside the top K
+ */
+async function savePrefilterOnly(ranked: RankedCandidate, milestoneId: string, skillMap: SkillMap): Promise<void> {
+  const { candidate, prefilterScore } = ranked;
+
+  const existing = await storage.getFitScoreForPair(candidate.id, milestoneId);
+  if (existing && existing.scoringMethod === 'ai') {
+    if (existing.prefilterScore !== prefilterScore) {
+      await storage.updateFitScore(existing.id, { prefilterScore });
+    }
+    return;
+  }
+
+  const analysis = calculatePrefilterScore(candidate.skills || [], candidate.experience || '', skillMap);
+  await storage.upsertFitScore(applyReputation(candidate, {
+    candidateId: candidate.id,
+    milestoneId,
+    score: analysis.score,
+    skillOverlap: analysis.skillOverlap,
+    experienceMatch: analysis.experienceMatch,
+    softSkillRelevance: analysis.softSkillRelevance,
+    reasoning: analysis.reasoning,
+    scoringMethod: analysis.method,
+    prefilterScore,
+    inputFingerprint: null, // Re-scored by the AI if the candidate later reaches the top K
+  }));
+}
+
+async function scoreRanked(
+  ranked: RankedCandidate,
+  milestone: Pick<Milestone, 'id'>,
+  skillMap: SkillMap,
+  useAI: boolean,
+  summary: MatchSummary
+): Promise<void> {
+  try {
+    if (useAI) {
+      const { cached } = await scoreCandidateForMilestone(ranked.candidate, milestone, skillMap, {
+        fallbackOnError: true,
+        prefilterScore: ranked.prefilterScore,
+      });
+      if (cached) summary.cached++;
+      else summary.aiScored++;
+    } else {
+      await savePrefilterOnly(ranked, milestone.id, skillMap);
+      summary.prefilterOnly++;
+    }
+  } catch (error) {
+    summary.failed++;
+    console.error(`[Matching] Failed to score candidate ${ranked.candidate.id} for milestone ${milestone.id}:`, error);
+  }
+}
+
+/**
+ * Match all candidates to a milestone: prefilter everyone, AI-score the top K
+ */
+export async function matchCandidatesToMilestone(
+  milestone: Pick<Milestone, 'id' | 'projectId'>,
+  skillMap: SkillMap
+): Promise<MatchSummary> {
+  const project = await storage.getProject(milestone.projectId);
+  const limit = getAIMatchLimit(project);
+  const ranked = prefilterCandidates(await storage.getAllCandidates(), skillMap);
+  const summary: MatchSummary = { ranked: ranked.length, aiScored: 0, cached: 0, prefilterOnly: 0, failed: 0 };
+
+  const top = ranked.slice(0, limit);
+  try {
+    const results = await scoreCandidatesForMilestone(top, milestone, skillMap, { fallbackOnError: true });
+    for (const result of results) {
+      if (result.cached) summary.cached++;
+      else summary.aiScored++;
+    }
+  } catch (error) {
+    summary.failed += top.length;
+    console.error(`[Matching] Failed to score the top ${top.length} candidates for milestone ${milestone.id}:`, error);
+  }
+
+  for (const rest of ranked.slice(limit)) {
+    await scoreRanked(rest, milestone, skillMap, false, summary);
+  }
+
+  console.log(`[Matching] Milestone ${milestone.id}: ${summary.ranked} ranked, top ${limit} → ${summary.aiScored} AI-scored, ${summary.cached} cached, ${summary.prefilterOnly} prefilter only, ${summary.failed} failed`);
+  return summary;
+}
+
+/**
+ * Match one (new or updated) candidate against every open (not archived or
+ * completed) milestone with a skill map. The candidate is AI-scored where they rank in the milestone's top K.
+ */
+export async function matchCandidateToAllMilestones(candidateId: string): Promise<MatchSummary> {
+  const summary: MatchSummary = { ranked: 0, aiScored: 0, cached: 0, prefilterOnly: 0, failed: 0 };
+  const candidate = await storage.getCandidate(candidateId);
+  if (!candidate || !candidate.skills || candidate.skills.length === 0) return summary;
+
+  const allCandidates = await storage.getAllCandidates();
+  const projects = await storage.getAllProjects();
+
+  for (const project of projects) {
+    const limit = getAIMatchLimit(project);
+    const milestones = await storage.getMilestonesByProject(project.id);
+
+    for (const milestone of milestones) {
+      if (milestone.archivedAt || milestone.status === 'completed') continue;
+
+      const skillMap = upgradeSkillMap(milestone.skillMap, milestone.name);
+      if (!skillMap) continue;
+
+      const ranked = prefilterCandidates(allCandidates, skillMap);
+      const position = ranked.findIndex(r => r.candidate.id === candidateId);
+      if (position === -1) continue;
+
+      summary.ranked++;
+      await scoreRanked(ranked[position], milestone, skillMap, position < limit, summary);
+    }
+  }
+
+  console.log(`[Matching] Candidate ${candidateId}: ${summary.ranked} milestones, ${summary.aiScored} AI-scored, ${summary.cached} cached, ${summary.prefilterOnly} prefilter only`);
+  return summary;
+}
@@ -0,0 +1,51 @@
+import {
+  calculateFallbackFitScore,
+  extractFallbackSkillMap,
+  extractFallbackCVAnalysis,
+  predictFallbackRisk,
+} from "./fallback-scoring";
+import type { AIProvider, SkillMap, CVAnalysis, FitScoreAnalysis, RiskAnalysis, CandidateProfile } from "./ai-provider";
+
+// Offline AI provider for Lean Workforce
+// Deterministic, network-free implementation built on the rule-based fallback scorer.
+// Lets the app run without an AI API key, e.g. local development and on-prem installs (AI_PROVIDER=offline).
+
+export function createOfflineProvider(): AIProvider {
+  return {
+    name: "offline",
+    generateSkillMap,
+    analyzeCVText,
+    calculateFitScore,
+    calculateFitScoresBatch,
+    predictRisk,
+  };
+}
+
+async function generateSkillMap(milestoneName: string, milestoneDescription: string): Promise<SkillMap> {
+  return extractFallbackSkillMap(milestoneName, milestoneDescription);
+}
+
+async function analyzeCVText(cvText: string): Promise<CVAnalysis> {
+  return extractFallbackCVAnalysis(cvText);
+}
+
+async function calculateFitScore(
+  candidateSkills: string[],
+  candidateExperience: string,
+  skillMap: SkillMap
+): Promise<FitScoreAnalysis> {
+  return calculateFallbackFitScore(candidateSkills, candidateExperience, skillMap);
+}
+
+async function calculateFitScoresBatch(skillMap: SkillMap, candidates: CandidateProfile[]): Promise<FitScoreAnalysis[]> {
+  return Promise.all(candidates.map(c => calculateFitScore(c.skills, c.experience, skillMap)));
+}
+
+async function predictRisk(
+  milestoneName: string,
+  milestoneDescription: string,
+  delayPercentage: number,
+  estimatedHours: number
+): Promise<RiskAnalysis> {
+  return predictFallbackRisk(delayPercentage, estimatedHours);
+}
@@ -0,0 +1,258 @@
+/**
+ * Organizations - Business accounts shared by a team
+ *
+ * Every business user belongs to exactly one organization with a role:
+ * - owner:   everything, including members, invitations and renaming
+ * - manager: create and manage projects, assignments and the Jira connection
+ * - viewer:  read-only access to the organization's projects
+ *
+ * Projects and Jira settings belong to the organization, so the whole team
+ * shares one Jira connection. Users are invited by magic link; the invitation
+ * is accepted on their next business login. A business user without an
+ * organization (first login, or removed from their team) gets a personal one,
+ * which adopts any projects and Jira settings they owned before organizations.
+ */
+
+import { storage } from './storage';
+import { generateMagicLinkToken, generateMagicLinkUrl, getAppBaseUrl, sendMagicLinkEmail } from './magic-link-utils';
+import type { InsertOrganizationMember, JiraSettings, OrganizationInvitation, OrganizationMember, Project } from '@shared/schema';
+
+export const ORGANIZATION_ROLES = ['owner', 'manager', 'viewer'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface OrganizationResult {
+  success: boolean;
+  member?: OrganizationMember;
+  invitation?: OrganizationInvitation;
+  error?: string;
+  statusCode?: number; // HTTP status to return on failure
+}
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return typeof value === 'string' && (ORGANIZATION_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Attach the user's pre-organization projects and Jira settings to their organization
+ */
+async function adoptLegacyRecords(email: string, organizationId: string): Promise<void> {
+  const adopted = await storage.assignUnownedProjects(email, organizationId);
+
+  const settings = await storage.getJiraSettings(email);
+  if (settings && !settings.organizationId && !(await storage.getJiraSettingsByOrganization(organizationId))) {
+    await storage.updateJiraSettings(email, { organizationId });
+  }
+
+  if (adopted > 0) {
+    console.log(`[Organizations] Moved ${adopted} project(s) of ${email} into organization ${organizationId}`);
+  }
+}
+
+// Postgres unique_violation, raised by organization_members.email
+function isUniqueViolation(error: any): boolean {
+  return error?.code === '23505';
+}
+
+/**
+ * Insert a membership. Returns undefined if a concurrent login already
+ * created one for this email.
+ */
+async function claimMembership(member: InsertOrganizationMember): Promise<OrganizationMember | undefined> {
+  try {
+    return await storage.createOrganizationMember(member);
+  } catch (error) {
+    if (isUniqueViolation(error)) return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Get the user's membership, accepting a pending invitation or creating a
+ * personal organization when they have none. Concurrent first logins race on
+ * the unique member email; the loser returns the winner's membership.
+ */
+export async function ensureOrganization(email: string): Promise<OrganizationMember> {
+  const existing = await storage.getOrganizationMemberByEmail(email);
+  if (existing) return existing;
+
+  const [invitation] = await storage.getPendingInvitationsByEmail(email);
+  if (invitation) {
+    const member = await claimMembership({
+      organizationId: invitation.organizationId,
+      email,
+      role: invitation.role,
+      invitedBy: invitation.invitedBy,
+    });
+    if (!member) return (await storage.getOrganizationMemberByEmail(email))!;
+
+    await storage.updateOrganizationInvitation(invitation.id, { status: 'accepted', acceptedAt: new Date() });
+    await adoptLegacyRecords(email, member.organizationId);
+
+    console.log(`[Organizations] ${email} joined organization ${member.organizationId} as ${member.role}`);
+    return member;
+  }
+
+  const organization = await storage.createOrganization({
+    name: `${email.split('@')[0]}'s team`,
+    createdBy: email,
+  });
+  const member = await claimMembership({
+    organizationId: organization.id,
+    email,
+    role: 'owner',
+    invitedBy: null,
+  });
+  if (!member) {
+    // Lost the race: drop the organization we just created
+    await storage.deleteOrganization(organization.id);
+    return (await storage.getOrganizationMemberByEmail(email))!;
+  }
+
+  await adoptLegacyRecords(email, organization.id);
+
+  console.log(`[Organizations] Created organization ${organization.id} for ${email}`);
+  return member;
+}
+
+export async function getOrganizationIdForUser(businessUserId: string): Promise<string | undefined> {
+  const member = await storage.getOrganizationMemberByEmail(businessUserId);
+  return member?.organizationId;
+}
+
+/**
+ * Projects visible to a business user: their organization's, or their own
+ * when they have not logged in since organizations were introduced
+ */
+export async function getBusinessProjects(businessUserId: string): Promise<Project[]> {
+  const organizationId = await getOrganizationIdForUser(businessUserId);
+  return organizationId
+    ? await storage.getProjectsByOrganization(organizationId)
+    : await storage.getProjectsByBusinessUser(businessUserId);
+}
+
+/**
+ * Jira settings used on behalf of a business user: the organization's shared
+ * connection, falling back to settings they saved themselves
+ */
+export async function getJiraSettingsForUser(businessUserId: string): Promise<JiraSettings | undefined> {
+  const organizationId = await getOrganizationIdForUser(businessUserId);
+  const shared = organizationId ? await storage.getJiraSettingsByOrganization(organizationId) : undefined;
+  return shared || await storage.getJiraSettings(businessUserId);
+}
+
+export async function getMemberEmails(organizationId: string): Promise<string[]> {
+  const members = await storage.getOrganizationMembers(organizationId);
+  return members.map(m => m.email);
+}
+
+/**
+ * Invite someone to the organization and email them a magic link
+ */
+export async function inviteMember(
+  organizationId: string,
+  email: string,
+  role: string,
+  invitedBy: string
+): Promise<OrganizationResult> {
+  const emailLower = (email || '').toLowerCase().trim();
+  if (!emailLower.includes('@')) {
+    return { success: false, error: 'Valid email is required', statusCode: 400 };
+  }
+  if (!isOrganizationRole(role)) {
+    return { success: false, error: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}`, statusCode: 400 };
+  }
+
+  const existingMember = await storage.getOrganizationMemberByEmail(emailLower);
+  if (existingMember) {
+    const error = existingMember.organizationId === organizationId
+      ? 'This person is already a member of your organization'
+      : 'This person already belongs to another organization';
+    return { success: false, error, statusCode: 409 };
+  }
+
+  // A newer invitation replaces older ones from the same organization
+  const pending = await storage.getPendingInvitationsByEmail(emailLower);
+  for (const previous of pending.filter(i => i.organizationId === organizationId)) {
+    await storage.updateOrganizationInvitation(previous.id, { status: 'revoked' });
+  }
+
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+  const invitation = await storage.createOrganizationInvitation({
+    organizationId,
+    email: emailLower,
+    role,
+    invitedBy,
+    status: 'pending',
+    expiresAt,
+  });
+
+  const token = generateMagicLinkToken();
+  await storage.createMagicLink({
+    token,
+    email: emailLower,
+    userId: emailLower,
+    role: 'business',
+    used: false,
+    expiresAt,
+  });
+  await sendMagicLinkEmail(emailLower, generateMagicLinkUrl(token, getAppBaseUrl()));
+
+  console.log(`[Organizations] ${invitedBy} invited ${emailLower} to ${organizationId} as ${role}`);
+  return { success: true, invitation };
+}
+
+export async function revokeInvitation(organizationId: string, invitationId: string): Promise<OrganizationResult> {
+  const invitation = await storage.getOrganizationInvitation(invitationId);
+  if (!invitation || invitation.organizationId !== organizationId) {
+    return { success: false, error: 'Invitation not found', statusCode: 404 };
+  }
+  if (invitation.status !== 'pending') {
+    return { success: false, error: `Invitation is already ${invitation.status}`, statusCode: 409 };
+  }
+
+  const updated = await storage.updateOrganizationInvitation(invitation.id, { status: 'revoked' });
+  return { success: true, invitation: updated };
+}
+
+async function isLastOwner(member: OrganizationMember): Promise<boolean> {
+  if (member.role !== 'owner') return false;
+  const members = await storage.getOrganizationMembers(member.organizationId);
+  return members.filter(m => m.role === 'owner').length === 1;
+}
+
+export async function updateMemberRole(organizationId: string, memberId: string, role: string): Promise<OrganizationResult> {
+  if (!isOrganizationRole(role)) {
+    return { success: false, error: `role must be one of: ${ORGANIZATION_ROLES.join(', ')}`, statusCode: 400 };
+  }
+
+  const member = await storage.getOrganizationMember(memberId);
+  if (!member || member.organizationId !== organizationId) {
+    return { success: false, error: 'Member not found', statusCode: 404 };
+  }
+  if (role !== 'owner' && await isLastOwner(member)) {
+    return { success: false, error: 'An organization needs at least one owner', statusCode: 409 };
+  }
+
+  const updated = await storage.updateOrganizationMember(member.id, { role });
+  return { success: true, member: updated };
+}
+
+/**
+ * Remove a member. Their projects stay with the organization.
+ */
+export async function removeMember(organizationId: string, memberId: string): Promise<OrganizationResult> {
+  const member = await storage.getOrganizationMember(memberId);
+  if (!member || member.organizationId !== organizationId) {
+    return { success: false, error: 'Member not found', statusCode: 404 };
+  }
+  if (await isLastOwner(member)) {
+    return { success: false, error: 'An organization needs at least one owner', statusCode: 409 };
+  }
+
+  await storage.deleteOrganizationMember(member.id);
+  console.log(`[Organizations] Removed ${member.email} from ${organizationId}`);
+  return { success: true, member };
+}
@@ -0,0 +1,34 @@
+/**
+ * Ownership Checks - Scope business API access to the logged-in organization
+ *
+ * Projects belong to an organization (projects.organizationId); milestones,
+ * risk alerts, applications and business interests are owned through their
+ * project. Lookups return undefined both when the record does not exist and
+ * when it belongs to another organization, so routes can answer 404 without
+ * revealing which.
+ */
+
+import { storage } from './storage';
+import type { Milestone, Project } from '@shared/schema';
+
+export async function getOwnedProject(organizationId: string, projectId: string): Promise<Project | undefined> {
+  const project = await storage.getProject(projectId);
+  if (!project || project.organizationId !== organizationId) return undefined;
+  return project;
+}
+
+export async function getOwnedMilestone(organizationId: string, milestoneId: string): Promise<Milestone | undefined> {
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone) return undefined;
+
+  const project = await getOwnedProject(organizationId, milestone.projectId);
+  return project ? milestone : undefined;
+}
+
+/**
+ * Whether one of the organization's projects is linked to the Jira project key
+ */
+export async function ownsJiraProject(organizationId: string, jiraProjectKey: string): Promise<boolean> {
+  const projects = await storage.getProjectsByOrganization(organizationId);
+  return projects.some(p => p.jiraProjectKey === jiraProjectKey);
+}
@@ -0,0 +1,158 @@
+/**
+ * Candidate Reputation - Post-project ratings and reputation-weighted fit scores
+ *
+ * After a milestone is completed the business rates the candidates who worked
+ * on it (skills, communication, timeliness, 1-5). A candidate's reputation is
+ * the average of their ratings, and fit scores are adjusted by it (ROADMAP #9):
+ *
+ *   adjusted = base * (1 + (reputation - 3) * 0.1)
+ *
+ * The base score and the adjustment are stored separately on fit_scores so the
+ * explainer can show them; `score` keeps the adjusted value used for ranking.
+ */
+
+import { storage } from './storage';
+import type { Candidate, CandidateRating, Milestone } from '@shared/schema';
+
+const NEUTRAL_RATING = 3;
+const REPUTATION_WEIGHT = 0.1;
+
+export interface RatingInput {
+  skills: number;
+  communication: number;
+  timeliness: number;
+  feedback?: string;
+}
+
+interface RatingResult {
+  success: boolean;
+  rating?: CandidateRating;
+  candidate?: Candidate;
+  error?: string;
+  statusCode?: number; // HTTP status to return on failure
+}
+
+interface ReputationAdjusted {
+  score: number;
+  baseScore: number;
+  reputationAdjustment: number;
+}
+
+/**
+ * Adjust a freshly calculated fit score by the candidate's reputation
+ */
+export function applyReputation<T extends { score: number }>(
+  candidate: Pick<Candidate, 'reputationScore'>,
+  scores: T
+): T & ReputationAdjusted {
+  const baseScore = Math.round(scores.score);
+  const reputation = candidate.reputationScore;
+
+  if (reputation === null || reputation === undefined) {
+    return { ...scores, score: baseScore, baseScore, reputationAdjustment: 0 };
+  }
+
+  const adjusted = baseScore * (1 + (reputation - NEUTRAL_RATING) * REPUTATION_WEIGHT);
+  const score = Math.max(0, Math.min(100, Math.round(adjusted)));
+  return { ...scores, score, baseScore, reputationAdjustment: score - baseScore };
+}
+
+export function getRatingAverage(rating: Pick<CandidateRating, 'skills' | 'communication' | 'timeliness'>): number {
+  return (rating.skills + rating.communication + rating.timeliness) / 3;
+}
+
+export function isMilestoneCompleted(milestone: Milestone): boolean {
+  return milestone.status === 'completed' || milestone.assignmentStatus === 'completed';
+}
+
+/**
+ * Candidates who worked on a milestone: the primary (unless they never
+ * confirmed) and an activated backup
+ */
+export function getRatableCandidateIds(milestone: Milestone): string[] {
+  const ids: string[] = [];
+  if (milestone.assignedCandidateId && ['confirmed', 'active', 'completed', 'replaced'].includes(milestone.assignmentStatus || '')) {
+    ids.push(milestone.assignedCandidateId);
+  }
+  if (milestone.backupCandidateId && ['active', 'completed'].includes(milestone.backupAssignmentStatus || '')) {
+    ids.push(milestone.backupCandidateId);
+  }
+  return ids;
+}
+
+function isValidScore(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5;
+}
+
+/**
+ * Recalculate a candidate's reputation from all their ratings and
+ * re-apply it to their existing fit scores
+ */
+export async function refreshCandidateReputation(candidateId: string): Promise<Candidate | undefined> {
+  const ratings = await storage.getCandidateRatings(candidateId);
+  const reputationScore = ratings.length > 0
+    ? Math.round((ratings.reduce((sum, r) => sum + getRatingAverage(r), 0) / ratings.length) * 100) / 100
+    : null;
+
+  const candidate = await storage.updateCandidate(candidateId, {
+    reputationScore,
+    ratingCount: ratings.length,
+  });
+  if (!candidate) return undefined;
+
+  const fitScores = await storage.getFitScoresByCandidate(candidateId);
+  for (const fitScore of fitScores) {
+    const adjusted = applyReputation(candidate, { score: fitScore.baseScore ?? fitScore.score });
+    if (adjusted.score !== fitScore.score || fitScore.baseScore === null) {
+      await storage.updateFitScore(fitScore.id, adjusted);
+    }
+  }
+
+  console.log(`[Reputation] Candidate ${candidateId}: ${reputationScore ?? 'unrated'} from ${ratings.length} ratings, ${fitScores.length} fit scores re-weighted`);
+  return candidate;
+}
+
+/**
+ * Record a business rating for a candidate on a completed milestone
+ */
+export async function rateCandidate(
+  milestoneId: string,
+  candidateId: string,
+  input: RatingInput,
+  ratedBy: string
+): Promise<RatingResult> {
+  const milestone = await storage.getMilestone(milestoneId);
+  if (!milestone) {
+    return { success: false, error: 'Milestone not found', statusCode: 404 };
+  }
+
+  if (!isMilestoneCompleted(milestone)) {
+    return { success: false, error: 'Candidates can only be rated once the milestone is completed', statusCode: 409 };
+  }
+
+  if (!getRatableCandidateIds(milestone).includes(candidateId)) {
+    return { success: false, error: 'Candidate did not work on this milestone', statusCode: 400 };
+  }
+
+  if (![input.skills, input.communication, input.timeliness].every(isValidScore)) {
+    return { success: false, error: 'skills, communication and timeliness must be whole numbers from 1 to 5', statusCode: 400 };
+  }
+
+  const existing = await storage.getMilestoneRatings(milestoneId);
+  if (existing.some(r => r.candidateId === candidateId)) {
+    return { success: false, error: 'Candidate has already been rated for this milestone', statusCode: 409 };
+  }
+
+  const rating = await storage.createCandidateRating({
+    candidateId,
+    milestoneId,
+    ratedBy,
+    skills: input.skills,
+    communication: input.communication,
+    timeliness: input.timeliness,
+    feedback: input.feedback || null,
+  });
+
+  const candidate = await refreshCandidateReputation(candidateId);
+  return { success: true, rating, candidate };
+}
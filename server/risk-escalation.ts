@@ -0,0 +1,227 @@
+/**
+ * Risk Escalation Engine - Tier-specific actions for risk alerts
+ *
+ * - Medium (20-30% delay):   Notify business + prepare ranked backup list
+ * - High (30-40% delay):     Notify business + backup on standby + decision required within 24h
+ * - Critical (>40% delay):   Auto-activate next backup in the queue + escalate to management (ESCALATION_EMAIL)
+ *
+ * Low (<20% delay) never raises an alert, so it has no escalation policy.
+ * Every action is recorded in risk_escalation_actions, including skipped and failed ones.
+ */
+
+import { storage } from './storage';
+import { sendRiskEscalationEmail } from './sendgrid';
+import { addBackup, activateNextBackup, getBackupQueue } from './backup-queue';
+import type { RiskTier } from './risk-evaluation';
+import type { Milestone, RiskAlert, RiskEscalationAction } from '@shared/schema';
+
+export type EscalationActionType =
+  | 'notify_business'
+  | 'prepare_backup_list'
+  | 'set_decision_deadline'
+  | 'activate_backup'
+  | 'escalate_management';
+
+export interface BackupCandidate {
+  candidateId: string;
+  name: string;
+  score: number;
+}
+
+// Tiers that raise risk alerts (see recordMilestoneDelay)
+type AlertTier = Exclude<RiskTier, 'low'>;
+
+const ESCALATION_POLICY: Record<AlertTier, EscalationActionType[]> = {
+  medium: ['prepare_backup_list', 'notify_business'],
+  high: ['prepare_backup_list', 'set_decision_deadline', 'notify_business'],
+  critical: ['prepare_backup_list', 'activate_backup', 'notify_business', 'escalate_management'],
+};
+
+const RECOMMENDED_ACTIONS: Record<AlertTier, string> = {
+  medium: 'Review the remaining scope and the prepared backup list.',
+  high: 'Decide within 24 hours whether to keep the current assignment or activate the backup.',
+  critical: 'The backup candidate has been activated. Confirm the handover with the team.',
+};
+
+const DECISION_WINDOW_HOURS = 24;
+const BACKUP_LIST_SIZE = 5;
+
+type ActionOutcome = {
+  status: 'completed' | 'skipped' | 'failed';
+  details?: Record<string, unknown>;
+};
+
+interface EscalationContext {
+  riskAlert: RiskAlert;
+  milestone: Milestone;
+  tier: AlertTier;
+  backupCandidates: BackupCandidate[];
+  decisionDeadline?: Date;
+}
+
+/**
+ * Rank candidates (other than the assignee) by fit score; availability is
+ * checked when a backup is actually assigned
+ */
+export async function buildBackupList(milestone: Milestone, limit: number = BACKUP_LIST_SIZE): Promise<BackupCandidate[]> {
+  const topCandidates = await storage.getTopCandidatesForMilestone(milestone.id, limit + 1);
+
+  return topCandidates
+    .filter(fs => fs.candidateId !== milestone.assignedCandidateId)
+    .slice(0, limit)
+    .map(fs => ({ candidateId: fs.candidateId, name: fs.candidate.name, score: fs.score }));
+}
+
+function getBusinessEmail(businessUserId: string): string | undefined {
+  return businessUserId.includes('@') ? businessUserId : undefined;
+}
+
+async function hasOpenBackup(milestoneId: string): Promise<boolean> {
+  const queue = await getBackupQueue(milestoneId);
+  return queue.some(b => b.status !== 'rejected');
+}
+
+async function prepareBackupList(context: EscalationContext): Promise<ActionOutcome> {
+  context.backupCandidates = await buildBackupList(context.milestone);
+  await storage.updateRiskAlert(context.riskAlert.id, { backupCandidates: context.backupCandidates as any });
+
+  if (context.backupCandidates.length === 0) {
+    return { status: 'skipped', details: { reason: 'No available candidates with a fit score' } };
+  }
+
+  // High risk: put the top backup on standby so it can be activated quickly
+  let standbyCandidateId: string | undefined;
+  if (context.tier === 'high' && !(await hasOpenBackup(context.milestone.id))) {
+    for (const candidate of context.backupCandidates) {
+      const result = await addBackup(context.milestone.id, candidate.candidateId);
+      if (result.success) {
+        standbyCandidateId = candidate.candidateId;
+        break;
+      }
+    }
+  }
+
+  return { status: 'completed', details: { backupCandidates: context.backupCandidates, standbyCandidateId } };
+}
+
+async function setDecisionDeadline(context: EscalationContext): Promise<ActionOutcome> {
+  const deadline = new Date(Date.now() + DECISION_WINDOW_HOURS * 60 * 60 * 1000);
+  await storage.updateRiskAlert(context.riskAlert.id, { decisionDeadline: deadline });
+  context.decisionDeadline = deadline;
+
+  return { status: 'completed', details: { decisionDeadline: deadline.toISOString() } };
+}
+
+async function activateBackup(context: EscalationContext): Promise<ActionOutcome> {
+  const { milestone } = context;
+
+  // Queue the first ranked candidate that passes validation if nobody is queued yet,
+  // then activate in queue order
+  const rejectedCandidates: Array<{ candidateId: string; reason?: string }> = [];
+  if (!(await hasOpenBackup(milestone.id))) {
+    for (const candidate of context.backupCandidates) {
+      const added = await addBackup(milestone.id, candidate.candidateId);
+      if (added.success) break;
+      rejectedCandidates.push({ candidateId: candidate.candidateId, reason: added.error });
+    }
+  }
+
+  const result = await activateNextBackup(milestone.id);
+  if (!result.success) {
+    const alreadyActive = result.backup?.status === 'active';
+    return {
+      status: alreadyActive ? 'skipped' : 'failed',
+      details: { reason: result.error, candidateId: result.backup?.candidateId, rejectedCandidates },
+    };
+  }
+
+  await storage.updateRiskAlert(context.riskAlert.id, { backupActivated: true });
+  const candidateId = result.backup!.candidateId;
+  context.milestone = { ...milestone, backupCandidateId: candidateId, backupAssignmentStatus: 'active' };
+
+  return { status: 'completed', details: { candidateId, backupId: result.backup!.id, rejectedCandidates } };
+}
+
+async function notifyByEmail(context: EscalationContext, to: string | undefined, isManagementEscalation: boolean): Promise<ActionOutcome> {
+  if (!to) {
+    return {
+      status: 'skipped',
+      details: { reason: isManagementEscalation ? 'ESCALATION_EMAIL is not set' : 'Business user has no email address' },
+    };
+  }
+
+  const project = await storage.getProject(context.milestone.projectId);
+  await sendRiskEscalationEmail(to, {
+    projectName: project?.name || 'Unknown Project',
+    milestoneName: context.milestone.name,
+    tier: context.tier,
+    delayPercentage: context.riskAlert.delayPercentage,
+    recommendedAction: RECOMMENDED_ACTIONS[context.tier],
+    backupCandidates: context.backupCandidates,
+    decisionDeadline: context.decisionDeadline,
+    isManagementEscalation,
+  });
+
+  return { status: 'completed', details: { to, recommendedAction: RECOMMENDED_ACTIONS[context.tier] } };
+}
+
+async function runAction(action: EscalationActionType, context: EscalationContext): Promise<ActionOutcome> {
+  switch (action) {
+    case 'prepare_backup_list':
+      return prepareBackupList(context);
+    case 'set_decision_deadline':
+      return setDecisionDeadline(context);
+    case 'activate_backup':
+      return activateBackup(context);
+    case 'notify_business': {
+      const project = await storage.getProject(context.milestone.projectId);
+      return notifyByEmail(context, project ? getBusinessEmail(project.businessUserId) : undefined, false);
+    }
+    case 'escalate_management':
+      return notifyByEmail(context, process.env.ESCALATION_EMAIL || undefined, true);
+  }
+}
+
+/**
+ * Run the escalation policy for a risk alert's tier, recording every action
+ */
+export async function escalateRiskAlert(riskAlert: RiskAlert, milestone: Milestone): Promise<RiskEscalationAction[]> {
+  const tier = riskAlert.riskLevel as AlertTier;
+  const policy = ESCALATION_POLICY[tier];
+  if (!policy) {
+    console.warn(`[Risk Escalation] Unknown risk tier "${riskAlert.riskLevel}" on alert ${riskAlert.id}`);
+    return [];
+  }
+
+  const context: EscalationContext = { riskAlert, milestone, tier, backupCandidates: [] };
+  const recorded: RiskEscalationAction[] = [];
+
+  for (const action of policy) {
+    let outcome: ActionOutcome;
+    try {
+      outcome = await runAction(action, context);
+    } catch (error: any) {
+      console.error(`[Risk Escalation] ${action} failed for alert ${riskAlert.id}:`, error.message);
+      outcome = { status: 'failed', details: { error: error.message } };
+    }
+
+    recorded.push(await storage.createRiskEscalationAction({
+      riskAlertId: riskAlert.id,
+      milestoneId: milestone.id,
+      tier,
+      action,
+      status: outcome.status,
+      details: (outcome.details || null) as any,
+    }));
+  }
+
+  console.log(`[Risk Escalation] ${tier} alert ${riskAlert.id}: ${recorded.map(a => `${a.action}=${a.status}`).join(', ')}`);
+  return recorded;
+}
+
+/**
+ * Get the recorded escalation actions for a risk alert (oldest first)
+ */
+export async function getEscalationActions(riskAlertId: string): Promise<RiskEscalationAction[]> {
+  return await storage.getRiskEscalationActions(riskAlertId);
+}
@@ -0,0 +1,94 @@
+/**
+ * Risk Evaluation - Records milestone delays and runs AI risk prediction
+ *
+ * Risk tiers always come from classifyDelayRisk so delay monitoring, the Jira
+ * webhook and manual predictions agree; the AI provider supplies the analysis
+ * (predicted issues, recommendations) for the alert.
+ */
+
+import { storage } from './storage';
+import { predictRisk, type RiskAnalysis } from './gemini';
+import { classifyDelayRisk } from './fallback-scoring';
+import { queueJiraWriteBack } from './jira-writeback';
+import { escalateRiskAlert } from './risk-escalation';
+import type { Milestone, InsertMilestone, RiskAlert, RiskEscalationAction } from '@shared/schema';
+
+export type RiskTier = ReturnType<typeof classifyDelayRisk>;
+
+/**
+ * Store a milestone's current delay and risk tier
+ *
+ * @param extra - Other milestone fields to update in the same write (e.g. status from Jira)
+ * @returns alertRequired - The tier changed to medium or above, so a risk alert should be raised
+ */
+export async function recordMilestoneDelay(
+  milestone: Milestone,
+  delayPercentage: number,
+  extra: Partial<InsertMilestone> = {}
+): Promise<{ milestone: Milestone; previousTier: RiskTier; tier: RiskTier; alertRequired: boolean }> {
+  const previousTier = (milestone.riskLevel as RiskTier | null) || 'low';
+  const tier = classifyDelayRisk(delayPercentage);
+
+  const updated = await storage.updateMilestone(milestone.id, {
+    ...extra,
+    delayPercentage,
+    riskLevel: tier,
+  });
+
+  return {
+    milestone: updated || milestone,
+    previousTier,
+    tier,
+    alertRequired: tier !== previousTier && tier !== 'low',
+  };
+}
+
+/**
+ * Predict risk for a milestone at the given delay, update the milestone,
+ * create a risk alert, run the tier's escalation actions and push the
+ * alert to the linked Jira issue
+ */
+export async function evaluateMilestoneRisk(
+  milestone: Milestone,
+  delayPercentage: number
+): Promise<{ riskAlert: RiskAlert; analysis: RiskAnalysis; escalation: RiskEscalationAction[] }> {
+  const prediction = await predictRisk(
+    milestone.name,
+    milestone.description,
+    delayPercentage,
+    milestone.estimatedHours || 40
+  );
+  const analysis: RiskAnalysis = {
+    ...prediction,
+    risk_level: classifyDelayRisk(delayPercentage),
+    delay_percentage: delayPercentage,
+  };
+
+  // Update milestone risk level
+  const isDelayed = analysis.risk_level === "high" || analysis.risk_level === "critical";
+  const updated = await storage.updateMilestone(milestone.id, {
+    riskLevel: analysis.risk_level,
+    delayPercentage: analysis.delay_percentage,
+    status: isDelayed && milestone.status !== "completed" ? "delayed" : milestone.status,
+  });
+
+  // Create risk alert
+  const riskAlert = await storage.createRiskAlert({
+    milestoneId: milestone.id,
+    riskLevel: analysis.risk_level,
+    delayPercentage: analysis.delay_percentage,
+    aiAnalysis: analysis as any,
+    backupActivated: false,
+  });
+
+  let escalation: RiskEscalationAction[] = [];
+  try {
+    escalation = await escalateRiskAlert(riskAlert, updated || milestone);
+  } catch (error) {
+    console.error(`[Risk Evaluation] Escalation failed for alert ${riskAlert.id}:`, error);
+  }
+
+  await queueJiraWriteBack({ kind: 'risk', milestoneId: milestone.id, riskAlertId: riskAlert.id });
+
+  return { riskAlert: (await storage.getRiskAlert(riskAlert.id)) || riskAlert, analysis, escalation };
+}
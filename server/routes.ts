@@ -3,14 +3,76 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import multer from "multer";
 import { readFileSync, writeFileSync, mkdirSync } from "fs";
+import { randomBytes } from "crypto";
 import { join } from "path";
-import { generateSkillMap, analyzeCVText, calculateFitScore, predictRisk } from "./gemini";
-import { syncJiraMilestones, getIssueProgress, monitorProjectDelays, fetchAllJiraProjects, fetchProjectSprints, fetchSprintIssues } from "./jira-service";
-import { insertProjectSchema, insertMilestoneSchema, insertCandidateSchema, insertFitScoreSchema, insertJiraSettingsSchema, type Milestone } from "@shared/schema";
+import { generateSkillMap, analyzeCVText } from "./gemini";
+import { scoreCandidateForMilestone } from "./fit-score-cache";
+import { matchCandidatesToMilestone, getAIMatchLimit } from "./matching-pipeline";
+import { syncJiraMilestones, getIssueProgress, monitorProjectDelays, fetchAllJiraProjects } from "./jira-service";
+import { insertProjectSchema, insertMilestoneSchema, insertCandidateSchema, insertFitScoreSchema, insertJiraSettingsSchema, type Candidate } from "@shared/schema";
 import { validateFileType } from "./document-parser";
+import { upgradeSkillMap } from "./skill-map";
 import { calculateFallbackFitScore, extractFallbackSkillMap } from "./fallback-scoring";
 import { encrypt, decrypt, safeEncrypt, safeDecrypt } from "./encryption";
 import { startJobWorker } from "./job-worker";
+import { startDelayMonitor } from "./delay-monitor";
+import {
+  SKILL_CATEGORIES,
+  isSkillCategory,
+  findSkill,
+  getSkillTaxonomy,
+  normalizeSkills,
+  refreshSkillTaxonomy,
+} from "./skill-taxonomy";
+import {
+  APPLICATION_STATUSES,
+  isApplicationStatus,
+  getAllowedApplicationTransitions,
+  submitApplication,
+  transitionApplication,
+  getApplicationTimeline,
+} from "./application-workflow";
+import { queueJiraWriteBack, type JiraWriteBackPayload } from "./jira-writeback";
+import { evaluateMilestoneRisk } from "./risk-evaluation";
+import { getEscalationActions } from "./risk-escalation";
+import {
+  getBackupQueue,
+  addBackup,
+  reorderBackups,
+  removeBackup,
+  activateBackup,
+  rejectBackup,
+} from "./backup-queue";
+import { getAssignmentHistory } from "./assignment-events";
+import { rateCandidate, getRatableCandidateIds, isMilestoneCompleted } from "./reputation";
+import { getFitScoreAccuracyReport } from "./fit-score-analytics";
+import { getBusinessMetrics, getDefaultMetricsRange } from "./business-metrics";
+import { getOwnedProject, getOwnedMilestone, ownsJiraProject } from "./ownership";
+import {
+  ensureOrganization,
+  getJiraSettingsForUser,
+  getMemberEmails,
+  inviteMember,
+  revokeInvitation,
+  updateMemberRole,
+  removeMember,
+  type OrganizationRole,
+} from "./organizations";
+import {
+  getOrCreateUser,
+  chooseLoginRole,
+  recordLogin,
+  startRoleSession,
+  getUserRoles,
+  getPortalPath,
+  isUserRole,
+} from "./users";
+import {
+  offerCandidateAssignment,
+  confirmCandidateAssignment,
+  rejectCandidateAssignment,
+} from "./assignment-validator";
+import { verifyJiraWebhook, handleJiraWebhookEvent } from "./jira-webhook";
 
 // ========== AUTH MIDDLEWARE ==========
 function requireAuth(req: Request, res: Response, next: NextFunction) {
@@ -20,16 +82,37 @@ function requireAuth(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
-function requireBusiness(req: Request, res: Response, next: NextFunction) {
+// Also resolves the user's organization and role, which may have changed since login
+async function requireBusiness(req: Request, res: Response, next: NextFunction) {
   if (!req.session.userId || !req.session.email || !req.session.role) {
     return res.status(401).json({ error: "Unauthorized. Please log in." });
   }
   if (req.session.role !== "business") {
     return res.status(403).json({ error: "Forbidden. Business access required." });
   }
+  try {
+    const member = await ensureOrganization(req.session.email);
+    req.session.organizationId = member.organizationId;
+    req.session.organizationRole = member.role as OrganizationRole;
+  } catch (error: any) {
+    return res.status(500).json({ error: error.message });
+  }
   next();
 }
 
+// Use after requireBusiness
+function requireOrganizationRole(...roles: OrganizationRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.organizationRole || !roles.includes(req.session.organizationRole)) {
+      return res.status(403).json({ error: `Forbidden. Requires organization role: ${roles.join(" or ")}.` });
+    }
+    next();
+  };
+}
+
+const requireManager = requireOrganizationRole("owner", "manager");
+const requireOwner = requireOrganizationRole("owner");
+
 function requireCandidate(req: Request, res: Response, next: NextFunction) {
   if (!req.session.userId || !req.session.email || !req.session.role) {
     return res.status(401).json({ error: "Unauthorized. Please log in." });
@@ -40,6 +123,26 @@ function requireCandidate(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Platform admins are listed in ADMIN_EMAILS (comma-separated)
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.userId || !req.session.email || !req.session.role) {
+    return res.status(401).json({ error: "Unauthorized. Please log in." });
+  }
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+  if (!adminEmails.includes(req.session.email.toLowerCase())) {
+    return res.status(403).json({ error: "Forbidden. Admin access required." });
+  }
+  next();
+}
+
+// Candidate sessions use the candidate id as userId
+async function getSessionCandidate(req: Request): Promise<Candidate | undefined> {
+  return await storage.getCandidate(req.session.userId!);
+}
+
 // Configure multer to accept PDF, DOC, DOCX, TXT files
 const upload = multer({ 
   dest: "uploads/",
@@ -60,9 +163,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== PROJECTS ==========
   
   // Get all projects
-  app.get("/api/projects", async (req, res) => {
+  app.get("/api/projects", requireBusiness, async (req, res) => {
     try {
-      const projects = await storage.getAllProjects();
+      const projects = await storage.getProjectsByOrganization(req.session.organizationId!);
       res.json(projects);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -70,9 +173,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get project by ID
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/projects/:id", requireBusiness, async (req, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
+      const project = await getOwnedProject(req.session.organizationId!, req.params.id);
       if (!project) {
         return res.status(404).json({ error: "Project not found" });
       }
@@ -83,13 +186,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create project with milestones and AI skill map generation
-  app.post("/api/projects", async (req, res) => {
+  app.post("/api/projects", requireBusiness, requireManager, async (req, res) => {
     try {
       const validated = insertProjectSchema.parse({
         name: req.body.name,
         description: req.body.description,
-        businessUserId: req.body.businessUserId,
+        businessUserId: req.session.userId!,
+        organizationId: req.session.organizationId!,
         jiraProjectKey: req.body.jiraProjectKey,
+        aiMatchLimit: req.body.aiMatchLimit,
       });
 
       const project = await storage.createProject(validated);
@@ -113,32 +218,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             skillMap: skillMap as any,
           });
 
-          // Auto-match candidates if skill map was generated
+          // Auto-match candidates if skill map was generated (AI scores only the top K)
           if (skillMap) {
-            const candidates = await storage.getAllCandidates();
-            for (const candidate of candidates) {
-              if (candidate.skills && candidate.skills.length > 0) {
-                try {
-                  const fitAnalysis = await calculateFitScore(
-                    candidate.skills,
-                    candidate.experience || "",
-                    skillMap
-                  );
-
-                  await storage.createFitScore({
-                    candidateId: candidate.id,
-                    milestoneId: milestone.id,
-                    score: Math.round(fitAnalysis.score),
-                    skillOverlap: Math.round(fitAnalysis.skillOverlap),
-                    experienceMatch: Math.round(fitAnalysis.experienceMatch),
-                    softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-                    reasoning: fitAnalysis.reasoning,
-                  });
-                } catch (error) {
-                  console.error(`Failed to calculate fit score for candidate ${candidate.id}:`, error);
-                }
-              }
-            }
+            await matchCandidatesToMilestone(milestone, skillMap);
           }
         }
       }
@@ -158,11 +240,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get Jira settings for business user
-  app.get("/api/jira/settings/:businessUserId", async (req, res) => {
+  // Set how many prefiltered candidates per milestone are AI-scored (null = MATCH_AI_TOP_K default)
+  app.patch("/api/projects/:id/matching", requireBusiness, requireManager, async (req, res) => {
     try {
-      const { businessUserId } = req.params;
-      const settings = await storage.getJiraSettings(businessUserId);
+      const project = await getOwnedProject(req.session.organizationId!, req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const { aiMatchLimit } = req.body;
+      if (aiMatchLimit !== null && (!Number.isInteger(aiMatchLimit) || aiMatchLimit < 0 || aiMatchLimit > 100)) {
+        return res.status(400).json({ error: "aiMatchLimit must be an integer between 0 and 100, or null" });
+      }
+
+      const updated = await storage.updateProject(project.id, { aiMatchLimit });
+      res.json({ ...updated, effectiveAIMatchLimit: getAIMatchLimit(updated) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Get the organization's shared Jira settings
+  app.get("/api/jira/settings", requireBusiness, async (req, res) => {
+    try {
+      const settings = await storage.getJiraSettingsByOrganization(req.session.organizationId!);
       
       if (!settings) {
         return res.json({ 
@@ -171,18 +272,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Don't send API token in response
-      const { jiraApiToken, ...safeSettings } = settings;
-      res.json(safeSettings);
+      // Don't send API token or webhook secret in response
+      const { jiraApiToken, webhookSecret, ...safeSettings } = settings;
+      res.json({ ...safeSettings, webhookConfigured: !!webhookSecret });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Save Jira settings (with encryption for API token)
-  app.post("/api/jira/settings", async (req, res) => {
+  app.post("/api/jira/settings", requireBusiness, requireManager, async (req, res) => {
     try {
-      const validated = insertJiraSettingsSchema.parse(req.body);
+      const validated = insertJiraSettingsSchema.parse({
+        ...req.body,
+        businessUserId: req.session.userId!,
+        organizationId: req.session.organizationId!,
+      });
+      
+      // Webhook secrets are only set by the generate endpoint
+      delete validated.webhookSecret;
       
       // Encrypt API token before saving
       if (validated.jiraApiToken) {
@@ -191,27 +299,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const settings = await storage.saveJiraSettings(validated);
       
-      // Don't send API token in response
-      const { jiraApiToken, ...safeSettings } = settings;
-      res.json(safeSettings);
+      // Don't send API token or webhook secret in response
+      const { jiraApiToken, webhookSecret, ...safeSettings } = settings;
+      res.json({ ...safeSettings, webhookConfigured: !!webhookSecret });
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
   // Test Jira connection
-  app.post("/api/jira/test-connection", async (req, res) => {
+  app.post("/api/jira/test-connection", requireBusiness, requireManager, async (req, res) => {
     try {
-      const { businessUserId } = req.body;
+      const businessUserId = req.session.userId!;
       
       // Try to fetch projects to test connection
       const jiraProjects = await fetchAllJiraProjects(businessUserId);
       
       // Update last synced time
-      await storage.updateJiraSettings(businessUserId, {
-        isConfigured: true,
-        lastSyncedAt: new Date()
-      });
+      const settings = await storage.getJiraSettingsByOrganization(req.session.organizationId!);
+      if (settings) {
+        await storage.updateJiraSettings(settings.businessUserId, {
+          isConfigured: true,
+          lastSyncedAt: new Date()
+        });
+      }
       
       res.json({ 
         success: true, 
@@ -226,241 +337,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Import projects from Jira
-  app.post("/api/jira/import-projects", async (req, res) => {
-    const businessUserId = req.body.businessUserId || "demo-business-user";
-    
+  // Generate (or rotate) the Jira webhook secret - returned once, stored encrypted
+  app.post("/api/jira/settings/webhook-secret", requireBusiness, requireManager, async (req, res) => {
     try {
-      // Fetch all projects from Jira
-      const jiraProjects = await fetchAllJiraProjects(businessUserId);
+      const businessUserId = req.session.userId!;
+      const settings = await storage.getJiraSettingsByOrganization(req.session.organizationId!);
+      if (!settings) {
+        return res.status(404).json({ error: "Save Jira settings before enabling webhooks" });
+      }
+      
+      const secret = randomBytes(32).toString("hex");
+      await storage.updateJiraSettings(settings.businessUserId, { webhookSecret: safeEncrypt(secret) });
+      
+      const webhookPath = `/api/jira/webhook/${encodeURIComponent(businessUserId)}`;
+      res.json({
+        secret,
+        webhookUrl: `${req.protocol}://${req.get("host")}${webhookPath}`,
+        message: "Configure this secret on the Jira webhook. It will not be shown again.",
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      const importedProjects = [];
-
-      for (const jiraProject of jiraProjects) {
-        // Check if project already exists
-        const existingProjects = await storage.getAllProjects();
-        let project = existingProjects.find(p => p.jiraProjectKey === jiraProject.key);
-
-        if (project) {
-          console.log(`Project ${jiraProject.key} already exists, re-syncing tasks...`);
-        } else {
-          // Create project in database
-          project = await storage.createProject({
-            name: jiraProject.name,
-            description: jiraProject.description || `Imported from Jira project ${jiraProject.key}`,
-            businessUserId,
-            jiraProjectKey: jiraProject.key,
-          });
-        }
+  // Jira webhook receiver (issue and worklog events)
+  app.post("/api/jira/webhook/:businessUserId", async (req, res) => {
+    try {
+      const { businessUserId } = req.params;
+      const settings = await getJiraSettingsForUser(businessUserId);
+      
+      const verified = verifyJiraWebhook(
+        settings,
+        req.rawBody as Buffer | undefined,
+        req.get("x-hub-signature"),
+        req.query.secret as string | undefined
+      );
+      if (!verified) {
+        return res.status(401).json({ error: "Invalid webhook secret" });
+      }
+      
+      const result = await handleJiraWebhookEvent(businessUserId, req.body);
+      console.log(`[Jira Webhook] ${req.body?.webhookEvent} for ${businessUserId}: ${result.action}${result.reason ? ` (${result.reason})` : ''}`);
+      
+      res.json({ received: true, ...result });
+    } catch (error: any) {
+      console.error("[Jira Webhook] Failed to process event:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-        // Fetch and create milestones from Jira sprints
-        try {
-          const sprints = await fetchProjectSprints(jiraProject.key, businessUserId);
-          
-          if (sprints.length === 0) {
-            console.log(`No sprints found for project ${jiraProject.key}, falling back to issue-based import`);
-            // Fallback: use legacy approach for projects without sprints
-            const issues = await syncJiraMilestones(jiraProject.key, businessUserId);
-            
-            for (const issue of issues) {
-              let skillMap = null;
-              try {
-                skillMap = await generateSkillMap(issue.summary, issue.description || "");
-              } catch (error) {
-                console.error(`Failed to generate skill map for issue ${issue.key}:`, error);
-              }
-
-              const milestone = await storage.createMilestone({
-                projectId: project.id,
-                name: issue.summary,
-                description: issue.description || "",
-                estimatedHours: issue.timeEstimate ? issue.timeEstimate / 3600 : 40,
-                skillMap: skillMap as any,
-              });
-
-              if (skillMap) {
-                const candidates = await storage.getAllCandidates();
-                for (const candidate of candidates) {
-                  if (candidate.skills && candidate.skills.length > 0) {
-                    try {
-                      const fitAnalysis = await calculateFitScore(
-                        candidate.skills,
-                        candidate.experience || "",
-                        skillMap
-                      );
-
-                      await storage.createFitScore({
-                        candidateId: candidate.id,
-                        milestoneId: milestone.id,
-                        score: Math.round(fitAnalysis.score),
-                        skillOverlap: Math.round(fitAnalysis.skillOverlap),
-                        experienceMatch: Math.round(fitAnalysis.experienceMatch),
-                        softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-                        reasoning: fitAnalysis.reasoning,
-                      });
-                    } catch (error) {
-                      console.error(`Failed to calculate fit score for candidate ${candidate.id}:`, error);
-                    }
-                  }
-                }
-              }
-            }
-          } else {
-            // Sprint-based import: Each sprint becomes a milestone
-            // Get existing milestones to check for duplicates
-            const existingMilestones = await storage.getMilestonesByProject(project.id);
-            
-            for (const sprint of sprints) {
-              // Fetch all issues in this sprint
-              const sprintIssues = await fetchSprintIssues(sprint.id, businessUserId);
-              
-              if (sprintIssues.length === 0) {
-                console.log(`No issues found in sprint ${sprint.name}`);
-                continue;
-              }
-              
-              // Calculate total estimated hours for the sprint
-              const totalHours = sprintIssues.reduce((sum, issue) => {
-                return sum + (issue.timeEstimate ? issue.timeEstimate / 3600 : 0);
-              }, 0);
-              
-              // Create description with all tasks listed
-              const tasksDescription = sprintIssues
-                .map(issue => `- [${issue.status}] ${issue.key}: ${issue.summary}`)
-                .join('\n');
-              
-              const sprintDescription = `${sprint.goal || 'Sprint tasks'}\n\n**Tasks (${sprintIssues.length}):**\n${tasksDescription}`;
-              
-              // Generate skill map from all sprint tasks combined
-              const combinedTaskSummary = sprintIssues.map(i => i.summary).join('; ');
-              let skillMap = null;
-              try {
-                skillMap = await generateSkillMap(sprint.name, combinedTaskSummary);
-              } catch (error) {
-                console.error(`Failed to generate skill map for sprint ${sprint.name}:`, error);
-              }
-
-              // Check if milestone for this sprint already exists
-              const existingMilestone = existingMilestones.find(m => m.name === sprint.name);
-              
-              let milestone: Milestone;
-              if (existingMilestone) {
-                // Update existing milestone with latest data
-                console.log(`Updating existing milestone: ${sprint.name}`);
-                const updated = await storage.updateMilestone(existingMilestone.id, {
-                  description: sprintDescription,
-                  estimatedHours: totalHours || 80,
-                  skillMap: skillMap as any,
-                });
-                milestone = updated || existingMilestone;
-              } else {
-                // Create new milestone
-                milestone = await storage.createMilestone({
-                  projectId: project.id,
-                  name: sprint.name,
-                  description: sprintDescription,
-                  estimatedHours: totalHours || 80,
-                  skillMap: skillMap as any,
-                });
-              }
-
-              // Auto-match candidates if skill map was generated
-              if (skillMap && milestone) {
-                const candidates = await storage.getAllCandidates();
-                for (const candidate of candidates) {
-                  if (candidate.skills && candidate.skills.length > 0) {
-                    try {
-                      const fitAnalysis = await calculateFitScore(
-                        candidate.skills,
-                        candidate.experience || "",
-                        skillMap
-                      );
-
-                      // Check if fit score already exists for this candidate-milestone pair
-                      const existingFitScores = await storage.getTopCandidatesForMilestone(milestone.id, 1000);
-                      const existingFitScore = existingFitScores.find(fs => fs.candidate.id === candidate.id);
-
-                      if (existingFitScore) {
-                        // Update existing fit score
-                        await storage.updateFitScore(existingFitScore.id, {
-                          score: Math.round(fitAnalysis.score),
-                          skillOverlap: Math.round(fitAnalysis.skillOverlap),
-                          experienceMatch: Math.round(fitAnalysis.experienceMatch),
-                          softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-                          reasoning: fitAnalysis.reasoning,
-                        });
-                      } else {
-                        // Create new fit score
-                        await storage.createFitScore({
-                          candidateId: candidate.id,
-                          milestoneId: milestone.id,
-                          score: fitAnalysis.score,
-                          skillOverlap: fitAnalysis.skillOverlap,
-                          experienceMatch: fitAnalysis.experienceMatch,
-                          softSkillRelevance: fitAnalysis.softSkillRelevance,
-                          reasoning: fitAnalysis.reasoning,
-                        });
-                      }
-                    } catch (error) {
-                      console.error(`Failed to calculate fit score for candidate ${candidate.id}:`, error);
-                    }
-                  }
-                }
-              }
-            }
-          }
-        } catch (error) {
-          console.error(`Failed to sync milestones for project ${jiraProject.key}:`, error);
-        }
+  // Import projects from Jira (Background Job)
+  app.post("/api/jira/import-projects", requireBusiness, requireManager, async (req, res) => {
+    const businessUserId = req.session.userId!;
+    
+    try {
+      const job = await storage.createJob({
+        jobType: "jira_import",
+        userId: businessUserId,
+        userEmail: businessUserId.includes("@") ? businessUserId : null,
+        status: "pending",
+        payload: { businessUserId } as any,
+        progress: 0,
+        maxAttempts: 3,
+      });
 
-        importedProjects.push(project);
-      }
+      console.log(`✓ Jira import job ${job.id} created for ${businessUserId}`);
 
+      // Return immediately - import happens in background
       res.json({
         success: true,
-        imported: importedProjects.length,
-        projects: importedProjects,
+        jobId: job.id,
+        message: "Jira import started. Processing in background...",
       });
     } catch (error: any) {
-      console.error("Error importing Jira projects:", error);
-      
-      // Log the failed sync
-      await storage.createJiraSyncLog({
-        businessUserId,
-        syncType: 'import_projects',
-        status: 'failed',
-        error: error.message,
-        errorDetails: {
-          stack: error.stack,
-          statusCode: error?.response?.status
-        } as any,
-        canRetry: true,
-        startedAt: new Date(),
-        completedAt: new Date(),
-      });
-      
-      res.status(500).json({ 
-        error: error.message,
-        canRetry: true,
-        message: 'Jira import failed. You can retry from the dashboard.'
-      });
+      console.error("Error starting Jira import:", error);
+      res.status(500).json({ error: error.message });
     }
   });
 
   // Get milestones for a project
-  app.get("/api/projects/:id/milestones", async (req, res) => {
+  app.get("/api/projects/:id/milestones", requireBusiness, async (req, res) => {
     try {
-      const milestones = await storage.getMilestonesByProject(req.params.id);
-      res.json(milestones);
+      const project = await getOwnedProject(req.session.organizationId!, req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const milestones = await storage.getMilestonesByProject(project.id);
+      const includeArchived = req.query.includeArchived === "true";
+      res.json(includeArchived ? milestones : milestones.filter(m => !m.archivedAt));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Get top candidates for a project
-  app.get("/api/projects/:id/candidates", async (req, res) => {
+  app.get("/api/projects/:id/candidates", requireBusiness, async (req, res) => {
     try {
-      const milestones = await storage.getMilestonesByProject(req.params.id);
+      const project = await getOwnedProject(req.session.organizationId!, req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const milestones = await storage.getMilestonesByProject(project.id);
       const allCandidates: any[] = [];
 
       for (const milestone of milestones) {
@@ -482,9 +461,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get risk alerts for a project
-  app.get("/api/projects/:id/risks", async (req, res) => {
+  app.get("/api/projects/:id/risks", requireBusiness, async (req, res) => {
     try {
-      const milestones = await storage.getMilestonesByProject(req.params.id);
+      const project = await getOwnedProject(req.session.organizationId!, req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const milestones = await storage.getMilestonesByProject(project.id);
       const allRisks = [];
 
       for (const milestone of milestones) {
@@ -503,10 +487,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the escalation actions taken for a risk alert
+  app.get("/api/risk-alerts/:id/escalation", requireBusiness, async (req, res) => {
+    try {
+      const riskAlert = await storage.getRiskAlert(req.params.id);
+      if (!riskAlert || !(await getOwnedMilestone(req.session.organizationId!, riskAlert.milestoneId))) {
+        return res.status(404).json({ error: "Risk alert not found" });
+      }
+
+      const actions = await getEscalationActions(riskAlert.id);
+      res.json({ riskAlert, actions });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Set a milestone's planned start/end dates (used for capacity checks)
+  app.patch("/api/milestones/:id/schedule", requireBusiness, requireManager, async (req, res) => {
+    try {
+      const startDate = req.body.startDate ? new Date(req.body.startDate) : null;
+      const endDate = req.body.endDate ? new Date(req.body.endDate) : null;
+
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return res.status(400).json({ error: "startDate and endDate must be valid dates" });
+      }
+      if (startDate && endDate && endDate < startDate) {
+        return res.status(400).json({ error: "endDate must be on or after startDate" });
+      }
+
+      const milestone = await getOwnedMilestone(req.session.organizationId!, req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      res.json(await storage.updateMilestone(milestone.id, { startDate, endDate }));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ========== BUSINESS REVIEW WORKFLOW (P1-7) ==========
   
   // Approve/edit skill map for a milestone
-  app.patch("/api/milestones/:id/approve-skillmap", async (req, res) => {
+  app.patch("/api/milestones/:id/approve-skillmap", requireBusiness, requireManager, async (req, res) => {
     try {
       const { id } = req.params;
       const { skillMap, approved } = req.body;
@@ -516,15 +539,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "approved must be a boolean" });
       }
       
-      const milestone = await storage.getMilestone(id);
+      const milestone = await getOwnedMilestone(req.session.organizationId!, id);
       if (!milestone) {
         return res.status(404).json({ error: "Milestone not found" });
       }
       
+      // Edited skill maps are stored in the current version (older shapes are upgraded)
+      const editedSkillMap = skillMap !== undefined ? upgradeSkillMap(skillMap, milestone.name) : undefined;
+      if (editedSkillMap === null) {
+        return res.status(400).json({ error: "skillMap does not match the skill map schema" });
+      }
+      
       // Build update object - only update fields that are provided
       const updateData: any = {};
-      if (skillMap !== undefined) {
-        updateData.skillMap = skillMap;
+      if (editedSkillMap) {
+        updateData.skillMap = editedSkillMap;
       }
       if (approved !== undefined) {
         updateData.skillMapApproved = approved;
@@ -533,48 +562,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update milestone
       const updated = await storage.updateMilestone(id, updateData);
       
-      // If approved, always recalculate fit scores using the current skill map
-      const finalSkillMap = skillMap || milestone.skillMap;
+      // If approved, re-match using the current skill map (pairs whose inputs didn't change keep their score)
+      const finalSkillMap = editedSkillMap || upgradeSkillMap(milestone.skillMap, milestone.name);
       if (approved && finalSkillMap) {
-        const candidates = await storage.getAllCandidates();
-        for (const candidate of candidates) {
-          if (candidate.skills && candidate.skills.length > 0) {
-            try {
-              const { calculateFitScore } = await import("./gemini.js");
-              const fitAnalysis = await calculateFitScore(
-                candidate.skills,
-                candidate.experience || "",
-                finalSkillMap // Use finalSkillMap, not skillMap!
-              );
-              
-              // Check if fit score exists
-              const existingFitScores = await storage.getTopCandidatesForMilestone(id, 1000);
-              const existingFitScore = existingFitScores.find(fs => fs.candidate.id === candidate.id);
-              
-              if (existingFitScore) {
-                await storage.updateFitScore(existingFitScore.id, {
-                  score: Math.round(fitAnalysis.score),
-                  skillOverlap: Math.round(fitAnalysis.skillOverlap),
-                  experienceMatch: Math.round(fitAnalysis.experienceMatch),
-                  softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-                  reasoning: fitAnalysis.reasoning,
-                });
-              } else {
-                await storage.createFitScore({
-                  candidateId: candidate.id,
-                  milestoneId: id,
-                  score: fitAnalysis.score,
-                  skillOverlap: fitAnalysis.skillOverlap,
-                  experienceMatch: fitAnalysis.experienceMatch,
-                  softSkillRelevance: fitAnalysis.softSkillRelevance,
-                  reasoning: fitAnalysis.reasoning,
-                });
-              }
-            } catch (error) {
-              console.error(`Failed to calculate fit score for candidate ${candidate.id}:`, error);
-            }
-          }
-        }
+        await matchCandidatesToMilestone(milestone, finalSkillMap); // Use finalSkillMap, not skillMap!
       }
       
       res.json(updated);
@@ -584,7 +575,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Mark candidates as notified for a milestone
-  app.post("/api/milestones/:id/notify-candidates", async (req, res) => {
+  app.post("/api/milestones/:id/notify-candidates", requireBusiness, requireManager, async (req, res) => {
     try {
       const { id } = req.params;
       const { candidateIds } = req.body; // Array of candidate IDs to notify
@@ -593,7 +584,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "candidateIds array is required" });
       }
       
-      const milestone = await storage.getMilestone(id);
+      const milestone = await getOwnedMilestone(req.session.organizationId!, id);
       if (!milestone) {
         return res.status(404).json({ error: "Milestone not found" });
       }
@@ -621,10 +612,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sync Jira tasks for a specific project
-  app.post("/api/projects/:id/sync-jira", async (req, res) => {
+  app.post("/api/projects/:id/sync-jira", requireBusiness, requireManager, async (req, res) => {
     try {
       const projectId = req.params.id;
-      const project = await storage.getProject(projectId);
+      const project = await getOwnedProject(req.session.organizationId!, projectId);
 
       if (!project) {
         return res.status(404).json({ error: "Project not found" });
@@ -634,112 +625,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Project is not linked to Jira" });
       }
 
-      const businessUserId = project.businessUserId || "demo-business-user";
-
-      // Fetch issues from Jira
-      const issues = await syncJiraMilestones(project.jiraProjectKey, businessUserId);
-      
-      // Get existing milestones to check for duplicates
-      const existingMilestones = await storage.getMilestonesByProject(projectId);
-      let createdCount = 0;
-      let updatedCount = 0;
-
-      for (const issue of issues) {
-        let skillMap = null;
-        try {
-          skillMap = await generateSkillMap(issue.summary, issue.description || "");
-        } catch (error) {
-          console.error(`Failed to generate skill map for issue ${issue.key}:`, error);
-        }
-
-        // Check if milestone already exists (by name)
-        const existingMilestone = existingMilestones.find(m => m.name === issue.summary);
+      const businessUserId = req.session.userId!;
 
-        let milestone: Milestone;
-        if (existingMilestone) {
-          // Update existing milestone
-          console.log(`Updating existing milestone: ${issue.summary}`);
-          const updated = await storage.updateMilestone(existingMilestone.id, {
-            description: issue.description || "",
-            estimatedHours: issue.timeEstimate ? issue.timeEstimate / 3600 : 40,
-            skillMap: skillMap as any,
-            jiraIssueKey: issue.key,
-            jiraEpicKey: issue.epicKey || null,
-            jiraSprintId: issue.sprintId || null,
-            jiraSprintName: issue.sprintName || null,
-          });
-          milestone = updated || existingMilestone;
-          updatedCount++;
-        } else {
-          // Create new milestone
-          milestone = await storage.createMilestone({
-            projectId: project.id,
-            name: issue.summary,
-            description: issue.description || "",
-            estimatedHours: issue.timeEstimate ? issue.timeEstimate / 3600 : 40,
-            skillMap: skillMap as any,
-            jiraIssueKey: issue.key,
-            jiraEpicKey: issue.epicKey || null,
-            jiraSprintId: issue.sprintId || null,
-            jiraSprintName: issue.sprintName || null,
-          });
-          createdCount++;
-        }
+      // Reconcile Jira issues into milestones in the background (keyed on issue key).
+      // Incremental by default; { fullResync: true } refetches every issue for recovery.
+      const job = await storage.createJob({
+        jobType: "jira_sync",
+        userId: businessUserId,
+        status: "pending",
+        payload: {
+          projectId,
+          businessUserId,
+          fullResync: req.body.fullResync === true,
+        } as any,
+        progress: 0,
+        maxAttempts: 3,
+      });
 
-        // Auto-match candidates if skill map was generated
-        if (skillMap) {
-          const candidates = await storage.getAllCandidates();
-          for (const candidate of candidates) {
-            if (candidate.skills && candidate.skills.length > 0) {
-              try {
-                const fitAnalysis = await calculateFitScore(
-                  candidate.skills,
-                  candidate.experience || "",
-                  skillMap
-                );
-
-                // Check if fit score already exists
-                const existingFitScores = await storage.getFitScoresByMilestone(milestone.id);
-                const existingScore = existingFitScores.find(fs => fs.candidateId === candidate.id);
-
-                if (existingScore) {
-                  // Update existing fit score
-                  await storage.updateFitScore(existingScore.id, {
-                    score: fitAnalysis.score,
-                    skillOverlap: fitAnalysis.skillOverlap,
-                    experienceMatch: fitAnalysis.experienceMatch,
-                    softSkillRelevance: fitAnalysis.softSkillRelevance,
-                    reasoning: fitAnalysis.reasoning,
-                  });
-                } else {
-                  // Create new fit score
-                  await storage.createFitScore({
-                    candidateId: candidate.id,
-                    milestoneId: milestone.id,
-                    score: Math.round(fitAnalysis.score),
-                    skillOverlap: Math.round(fitAnalysis.skillOverlap),
-                    experienceMatch: Math.round(fitAnalysis.experienceMatch),
-                    softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-                    reasoning: fitAnalysis.reasoning,
-                  });
-                }
-              } catch (error) {
-                console.error(`Failed to calculate fit score for candidate ${candidate.id}:`, error);
-              }
-            }
-          }
-        }
-      }
+      console.log(`✓ Jira sync job ${job.id} created for project ${projectId}`);
 
       res.json({
         success: true,
-        synced: issues.length,
-        created: createdCount,
-        updated: updatedCount,
-        message: `Synced ${issues.length} tasks from Jira (${createdCount} new, ${updatedCount} updated)`,
+        jobId: job.id,
+        message: "Jira sync started. Processing in background...",
       });
     } catch (error: any) {
-      console.error("Error syncing Jira tasks:", error);
+      console.error("Error starting Jira sync:", error);
       res.status(500).json({ error: error.message });
     }
   });
@@ -747,7 +658,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========== AI ENDPOINTS ==========
 
   // Generate skill map using Gemini AI
-  app.post("/api/ai/generate-skill-map", async (req, res) => {
+  app.post("/api/ai/generate-skill-map", requireBusiness, requireManager, async (req, res) => {
     try {
       const { name, description } = req.body;
       
@@ -763,35 +674,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Calculate fit score between candidate and milestone
-  app.post("/api/ai/calculate-fit-score", async (req, res) => {
+  app.post("/api/ai/calculate-fit-score", requireBusiness, requireManager, async (req, res) => {
     try {
       const { candidateId, milestoneId } = req.body;
 
       const candidate = await storage.getCandidate(candidateId);
-      const milestone = await storage.getMilestone(milestoneId);
+      const milestone = await getOwnedMilestone(req.session.organizationId!, milestoneId);
 
       if (!candidate || !milestone) {
         return res.status(404).json({ error: "Candidate or milestone not found" });
       }
 
-      if (!milestone.skillMap || !candidate.skills) {
+      const skillMap = upgradeSkillMap(milestone.skillMap, milestone.name);
+      if (!skillMap || !candidate.skills) {
         return res.status(400).json({ error: "Missing skill data" });
       }
 
-      const fitAnalysis = await calculateFitScore(
-        candidate.skills,
-        candidate.experience || "",
-        milestone.skillMap as any
-      );
-
-      const fitScore = await storage.createFitScore({
-        candidateId,
-        milestoneId,
-        score: Math.round(fitAnalysis.score),
-        skillOverlap: Math.round(fitAnalysis.skillOverlap),
-        experienceMatch: Math.round(fitAnalysis.experienceMatch),
-        softSkillRelevance: Math.round(fitAnalysis.softSkillRelevance),
-        reasoning: fitAnalysis.reasoning,
+      // { force: true } re-scores even if the candidate and skill map are unchanged
+      const { fitScore } = await scoreCandidateForMilestone(candidate, milestone, skillMap, {
+        force: req.body.force === true,
       });
 
       res.json(fitScore);
@@ -801,39 +702,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Predict risk for a milestone
-  app.post("/api/ai/predict-risk", async (req, res) => {
+  app.post("/api/ai/predict-risk", requireBusiness, requireManager, async (req, res) => {
     try {
       const { milestoneId, delayPercentage } = req.body;
 
-      const milestone = await storage.getMilestone(milestoneId);
+      const milestone = await getOwnedMilestone(req.session.organizationId!, milestoneId);
       if (!milestone) {
         return res.status(404).json({ error: "Milestone not found" });
       }
 
-      const riskAnalysis = await predictRisk(
-        milestone.name,
-        milestone.description,
-        delayPercentage || milestone.delayPercentage || 0,
-        milestone.estimatedHours || 40
+      const { riskAlert, analysis: riskAnalysis, escalation } = await evaluateMilestoneRisk(
+        milestone,
+        delayPercentage || milestone.delayPercentage || 0
       );
 
-      // Update milestone risk level
-      await storage.updateMilestone(milestoneId, {
-        riskLevel: riskAnalysis.risk_level,
-        delayPercentage: riskAnalysis.delay_percentage,
-        status: riskAnalysis.risk_level === "high" ? "delayed" : milestone.status,
-      });
-
-      // Create risk alert
-      const riskAlert = await storage.createRiskAlert({
-        milestoneId,
-        riskLevel: riskAnalysis.risk_level,
-        delayPercentage: riskAnalysis.delay_percentage,
-        aiAnalysis: riskAnalysis as any,
-        backupActivated: false,
-      });
-
-      res.json({ riskAlert, analysis: riskAnalysis });
+      res.json({ riskAlert, analysis: riskAnalysis, escalation });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
@@ -841,18 +724,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // ========== CANDIDATES ==========
 
-  // Get candidate profile (demo - using email param)
-  app.get("/api/candidate/profile", async (req, res) => {
+  // Get the logged-in candidate's profile
+  app.get("/api/candidate/profile", requireCandidate, async (req, res) => {
     try {
-      const email = req.query.email as string || "demo@example.com";
-      let candidate = await storage.getCandidateByEmail(email);
+      const candidate = await getSessionCandidate(req);
 
       if (!candidate) {
-        candidate = await storage.createCandidate({
-          email,
-          name: "Demo Candidate",
-          isAvailable: true,
-        });
+        return res.status(404).json({ error: "Candidate profile not found" });
       }
 
       res.json(candidate);
@@ -862,42 +740,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update candidate profile
-  app.put("/api/candidate/profile", async (req, res) => {
+  app.put("/api/candidate/profile", requireCandidate, async (req, res) => {
     try {
-      const email = req.query.email as string || "demo@example.com";
-      let candidate = await storage.getCandidateByEmail(email);
+      const weeklyCapacityHours = req.body.weeklyCapacityHours !== undefined && req.body.weeklyCapacityHours !== ""
+        ? Number(req.body.weeklyCapacityHours)
+        : undefined;
 
-      if (!candidate) {
-        candidate = await storage.createCandidate({
-          email,
-          name: req.body.name,
-        });
-      } else {
-        candidate = await storage.updateCandidate(candidate.id, {
-          name: req.body.name,
-          phone: req.body.phone,
-          linkedinUrl: req.body.linkedinUrl,
-          githubUrl: req.body.githubUrl,
-          availableFrom: req.body.availableFrom ? new Date(req.body.availableFrom) : undefined,
-          availableUntil: req.body.availableUntil ? new Date(req.body.availableUntil) : undefined,
-        });
+      if (weeklyCapacityHours !== undefined && (!Number.isInteger(weeklyCapacityHours) || weeklyCapacityHours < 1 || weeklyCapacityHours > 80)) {
+        return res.status(400).json({ error: "weeklyCapacityHours must be a whole number between 1 and 80" });
+      }
+
+      const existing = await getSessionCandidate(req);
+      if (!existing) {
+        return res.status(404).json({ error: "Candidate profile not found" });
       }
 
+      const candidate = await storage.updateCandidate(existing.id, {
+        name: req.body.name,
+        phone: req.body.phone,
+        linkedinUrl: req.body.linkedinUrl,
+        githubUrl: req.body.githubUrl,
+        availableFrom: req.body.availableFrom ? new Date(req.body.availableFrom) : undefined,
+        availableUntil: req.body.availableUntil ? new Date(req.body.availableUntil) : undefined,
+        weeklyCapacityHours,
+      });
+
       res.json(candidate);
     } catch (error: any) {
       res.status(400).json({ error: error.message });
     }
   });
 
+  // List unavailable date ranges (candidate)
+  app.get("/api/candidate/unavailability", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+
+      if (!candidate) {
+        return res.json([]);
+      }
+
+      res.json(await storage.getCandidateUnavailability(candidate.id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Add an unavailable date range (candidate)
+  app.post("/api/candidate/unavailability", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+
+      if (!candidate) {
+        return res.status(404).json({ error: "Candidate profile not found" });
+      }
+
+      const startDate = new Date(req.body.startDate);
+      const endDate = new Date(req.body.endDate);
+      if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+        return res.status(400).json({ error: "startDate and endDate are required" });
+      }
+      if (endDate < startDate) {
+        return res.status(400).json({ error: "endDate must be on or after startDate" });
+      }
+
+      const entry = await storage.createCandidateUnavailability({
+        candidateId: candidate.id,
+        startDate,
+        endDate,
+        reason: req.body.reason || null,
+      });
+
+      res.status(201).json(entry);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Remove an unavailable date range (candidate)
+  app.delete("/api/candidate/unavailability/:id", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+
+      if (!candidate) {
+        return res.status(404).json({ error: "Candidate profile not found" });
+      }
+
+      const deleted = await storage.deleteCandidateUnavailability(req.params.id, candidate.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Unavailable period not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Upload and analyze CV with AI and auto-match to projects (Background Job)
-  app.post("/api/candidate/upload-cv", upload.single("cv"), async (req, res) => {
+  app.post("/api/candidate/upload-cv", requireCandidate, upload.single("cv"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const email = req.query.email as string || "demo@example.com";
-      let candidate = await storage.getCandidateByEmail(email);
+      let candidate = await getSessionCandidate(req);
 
       if (!candidate) {
         return res.status(404).json({ error: "Candidate not found. Please create profile first." });
@@ -946,10 +893,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get candidate recommendations (projects with >70% fit)
-  app.get("/api/candidate/recommendations", async (req, res) => {
+  app.get("/api/candidate/recommendations", requireCandidate, async (req, res) => {
     try {
-      const email = req.query.email as string || "demo@example.com";
-      const candidate = await storage.getCandidateByEmail(email);
+      const candidate = await getSessionCandidate(req);
 
       if (!candidate) {
         return res.json([]);
@@ -981,6 +927,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               experienceMatch: score.experienceMatch,
               softSkillRelevance: score.softSkillRelevance,
               reasoning: score.reasoning,
+              baseScore: score.baseScore,
+              reputationAdjustment: score.reputationAdjustment,
+              reputationScore: candidate.reputationScore,
             });
           }
         }
@@ -996,10 +945,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get candidate stats
-  app.get("/api/candidate/stats", async (req, res) => {
+  app.get("/api/candidate/stats", requireCandidate, async (req, res) => {
     try {
-      const email = req.query.email as string || "demo@example.com";
-      const candidate = await storage.getCandidateByEmail(email);
+      const candidate = await getSessionCandidate(req);
 
       if (!candidate) {
         return res.json({ applications: 0, matches: 0, avgFitScore: 0 });
@@ -1023,11 +971,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Save job for later
-  app.post("/api/candidate/save-job", async (req, res) => {
+  app.post("/api/candidate/save-job", requireCandidate, async (req, res) => {
     try {
       const { milestoneId } = req.body;
-      const email = req.query.email as string || "demo@example.com";
-      const candidate = await storage.getCandidateByEmail(email);
+      const candidate = await getSessionCandidate(req);
 
       if (!candidate) {
         return res.status(404).json({ error: "Candidate profile not found" });
@@ -1049,11 +996,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Skip job
-  app.post("/api/candidate/skip-job", async (req, res) => {
+  app.post("/api/candidate/skip-job", requireCandidate, async (req, res) => {
     try {
       const { milestoneId } = req.body;
-      const email = req.query.email as string || "demo@example.com";
-      const candidate = await storage.getCandidateByEmail(email);
+      const candidate = await getSessionCandidate(req);
 
       if (!candidate) {
         return res.status(404).json({ error: "Candidate profile not found" });
@@ -1067,23 +1013,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Apply to job
-  app.post("/api/candidate/apply", async (req, res) => {
+  app.post("/api/candidate/apply", requireCandidate, async (req, res) => {
     try {
-      const { milestoneId, projectId } = req.body;
-      const email = req.query.email as string || "demo@example.com";
-      const candidate = await storage.getCandidateByEmail(email);
+      const { milestoneId } = req.body;
+      const candidate = await getSessionCandidate(req);
 
       if (!candidate) {
         return res.status(404).json({ error: "Candidate profile not found" });
       }
 
-      // Create application
-      const application = await storage.createApplication({
-        candidateId: candidate.id,
-        milestoneId,
-        projectId,
-        status: "pending",
-      });
+      if (!milestoneId || typeof milestoneId !== 'string') {
+        return res.status(400).json({ error: "milestoneId is required" });
+      }
+
+      // The project always comes from the milestone, never from the request body
+      const milestone = await storage.getMilestone(milestoneId);
+      if (!milestone || milestone.archivedAt) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      // Create application (records the initial "submitted" history entry)
+      const application = await submitApplication(candidate.id, milestone.id, milestone.projectId, candidate.email);
 
       // Record action
       await storage.recordAction(candidate.id, milestoneId, "apply");
@@ -1094,70 +1044,545 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ========== BUSINESS STATS ==========
-  
-  app.get("/api/business/stats", async (req, res) => {
-    try {
-      const projects = await storage.getAllProjects();
-      const candidates = await storage.getAllCandidates();
-      
-      let totalScore = 0;
-      let scoreCount = 0;
-      let riskCount = 0;
-
-      for (const project of projects) {
-        const milestones = await storage.getMilestonesByProject(project.id);
-        for (const milestone of milestones) {
-          const scores = await storage.getFitScoresByMilestone(milestone.id);
-          totalScore += scores.reduce((sum, s) => sum + s.score, 0);
-          scoreCount += scores.length;
+  // ========== APPLICATION REVIEW ==========
 
-          const risks = await storage.getRiskAlertsByMilestone(milestone.id);
-          riskCount += risks.filter(r => r.riskLevel === "high" || r.riskLevel === "medium").length;
-        }
+  // List applications for a milestone (business review)
+  app.get("/api/milestones/:id/applications", requireBusiness, async (req, res) => {
+    try {
+      const milestone = await getOwnedMilestone(req.session.organizationId!, req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
       }
 
-      res.json({
-        totalProjects: projects.length,
-        totalCandidates: candidates.length,
-        avgFitScore: scoreCount > 0 ? Math.round(totalScore / scoreCount) : 0,
-        riskAlerts: riskCount,
-      });
+      const applications = await storage.getApplicationsByMilestone(milestone.id);
+      const enriched = await Promise.all(
+        applications.map(async (application) => ({
+          ...application,
+          candidate: await storage.getCandidate(application.candidateId),
+          allowedTransitions: getAllowedApplicationTransitions(application.status),
+        }))
+      );
+
+      res.json(enriched);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // ========== JIRA INTEGRATION ==========
-
-  // Sync Jira project
-  app.post("/api/jira/sync/:projectKey", async (req, res) => {
+  // Move an application through the review workflow (business)
+  app.post("/api/applications/:id/transition", requireBusiness, requireManager, async (req, res) => {
     try {
-      const businessUserId = req.body.businessUserId || "demo-business-user";
-      const issues = await syncJiraMilestones(req.params.projectKey, businessUserId);
-      res.json({ issues, count: issues.length });
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
-    }
-  });
+      const { status, note } = req.body;
+
+      if (!isApplicationStatus(status)) {
+        return res.status(400).json({ error: `status must be one of: ${APPLICATION_STATUSES.join(", ")}` });
+      }
+      if (status === "withdrawn") {
+        return res.status(400).json({ error: "Only the candidate can withdraw an application" });
+      }
+
+      const application = await storage.getApplication(req.params.id);
+      if (!application || !(await getOwnedProject(req.session.organizationId!, application.projectId))) {
+        return res.status(404).json({ error: "Application not found" });
+      }
+
+      const result = await transitionApplication(
+        req.params.id,
+        status,
+        { email: req.session.email!, role: "business" },
+        note
+      );
+
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json(result.application);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Get application status timeline (candidate)
+  app.get("/api/candidate/applications/:id/timeline", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+      const application = await storage.getApplication(req.params.id);
+
+      if (!candidate || !application || application.candidateId !== candidate.id) {
+        return res.status(404).json({ error: "Application not found" });
+      }
+
+      const timeline = await getApplicationTimeline(application.id);
+      res.json({ application, timeline });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Withdraw an application (candidate)
+  app.post("/api/candidate/applications/:id/withdraw", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+      const application = await storage.getApplication(req.params.id);
+
+      if (!candidate || !application || application.candidateId !== candidate.id) {
+        return res.status(404).json({ error: "Application not found" });
+      }
+
+      const result = await transitionApplication(
+        application.id,
+        "withdrawn",
+        { email: candidate.email, role: "candidate" },
+        req.body.reason
+      );
+
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json(result.application);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ========== ASSIGNMENTS ==========
+
+  // Offer a milestone to a candidate (business)
+  app.post("/api/milestones/:id/offer", requireBusiness, requireManager, async (req, res) => {
+    try {
+      if (!(await getOwnedMilestone(req.session.organizationId!, req.params.id))) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const { candidateId } = req.body;
+      if (!candidateId) {
+        return res.status(400).json({ error: "candidateId is required" });
+      }
+
+      const result = await offerCandidateAssignment(req.params.id, candidateId, {
+        email: req.session.email!,
+        role: "business",
+      });
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json(await storage.getMilestone(req.params.id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // List open assignment offers (candidate)
+  app.get("/api/candidate/offers", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+
+      if (!candidate) {
+        return res.json([]);
+      }
+
+      const milestones = await storage.getMilestonesByAssignedCandidate(candidate.id);
+      const fitScores = await storage.getFitScoresByCandidate(candidate.id);
+
+      const offers = await Promise.all(
+        milestones
+          .filter(m => m.assignmentStatus === "offered" && !m.archivedAt)
+          .map(async (milestone) => {
+            const project = await storage.getProject(milestone.projectId);
+            return {
+              milestoneId: milestone.id,
+              milestoneName: milestone.name,
+              description: milestone.description,
+              estimatedHours: milestone.estimatedHours,
+              projectId: milestone.projectId,
+              projectName: project?.name,
+              fitScore: fitScores.find(s => s.milestoneId === milestone.id)?.score ?? null,
+            };
+          })
+      );
+
+      res.json(offers);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Accept an assignment offer (candidate)
+  app.post("/api/candidate/offers/:milestoneId/accept", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+
+      if (!candidate) {
+        return res.status(404).json({ error: "Candidate profile not found" });
+      }
+
+      const result = await confirmCandidateAssignment(req.params.milestoneId, candidate.id, {
+        email: candidate.email,
+        role: "candidate",
+      });
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Decline an assignment offer with an optional reason (candidate)
+  app.post("/api/candidate/offers/:milestoneId/decline", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+
+      if (!candidate) {
+        return res.status(404).json({ error: "Candidate profile not found" });
+      }
+
+      const result = await rejectCandidateAssignment(req.params.milestoneId, candidate.id, req.body.reason, {
+        email: candidate.email,
+        role: "candidate",
+      });
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ========== ASSIGNMENT HISTORY ==========
+
+  // Get a milestone's assignment transitions, oldest first (business)
+  app.get("/api/milestones/:id/assignment-history", requireBusiness, async (req, res) => {
+    try {
+      const milestone = await getOwnedMilestone(req.session.organizationId!, req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const events = await getAssignmentHistory(milestone.id);
+      const candidateNames = new Map<string, string>();
+      for (const event of events) {
+        if (event.candidateId && !candidateNames.has(event.candidateId)) {
+          const candidate = await storage.getCandidate(event.candidateId);
+          candidateNames.set(event.candidateId, candidate?.name || "Unknown candidate");
+        }
+      }
+
+      res.json(events.map(event => ({
+        ...event,
+        candidateName: event.candidateId ? candidateNames.get(event.candidateId) : null,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ========== CANDIDATE RATINGS ==========
+
+  // Get ratings for a milestone and the candidates still waiting to be rated (business)
+  app.get("/api/milestones/:id/ratings", requireBusiness, async (req, res) => {
+    try {
+      const milestone = await getOwnedMilestone(req.session.organizationId!, req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const ratings = await storage.getMilestoneRatings(milestone.id);
+      const unratedIds = isMilestoneCompleted(milestone)
+        ? getRatableCandidateIds(milestone).filter(id => !ratings.some(r => r.candidateId === id))
+        : [];
+      const pendingCandidates = (await Promise.all(unratedIds.map(id => storage.getCandidate(id))))
+        .filter(Boolean)
+        .map(candidate => ({ id: candidate!.id, name: candidate!.name }));
+      const ratedCandidates = await Promise.all(ratings.map(r => storage.getCandidate(r.candidateId)));
+
+      res.json({
+        ratings: ratings.map((rating, i) => ({ ...rating, candidateName: ratedCandidates[i]?.name || "Unknown candidate" })),
+        pendingCandidates,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Rate a candidate after the milestone is completed (business)
+  app.post("/api/milestones/:id/ratings", requireBusiness, requireManager, async (req, res) => {
+    try {
+      if (!(await getOwnedMilestone(req.session.organizationId!, req.params.id))) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const { candidateId, skills, communication, timeliness, feedback } = req.body;
+      if (!candidateId) {
+        return res.status(400).json({ error: "candidateId is required" });
+      }
+
+      const result = await rateCandidate(
+        req.params.id,
+        candidateId,
+        { skills, communication, timeliness, feedback },
+        req.session.email!
+      );
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.status(201).json({ rating: result.rating, reputationScore: result.candidate?.reputationScore ?? null });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ========== BACKUP QUEUE ==========
+
+  // List a milestone's backup queue in order (business)
+  app.get("/api/milestones/:id/backups", requireBusiness, async (req, res) => {
+    try {
+      const milestone = await getOwnedMilestone(req.session.organizationId!, req.params.id);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const queue = await getBackupQueue(milestone.id);
+      const enriched = await Promise.all(
+        queue.map(async (backup) => ({
+          ...backup,
+          candidate: await storage.getCandidate(backup.candidateId),
+        }))
+      );
+
+      res.json(enriched);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Add a candidate to the end of the backup queue (business)
+  app.post("/api/milestones/:id/backups", requireBusiness, requireManager, async (req, res) => {
+    try {
+      if (!(await getOwnedMilestone(req.session.organizationId!, req.params.id))) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const { candidateId } = req.body;
+      if (!candidateId) {
+        return res.status(400).json({ error: "candidateId is required" });
+      }
+
+      const result = await addBackup(req.params.id, candidateId);
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.status(201).json({ backup: result.backup, queue: result.queue });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Reorder the backup queue (business)
+  app.put("/api/milestones/:id/backups/order", requireBusiness, requireManager, async (req, res) => {
+    try {
+      if (!(await getOwnedMilestone(req.session.organizationId!, req.params.id))) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const { backupIds } = req.body;
+      if (!Array.isArray(backupIds)) {
+        return res.status(400).json({ error: "backupIds must be an array" });
+      }
+
+      const result = await reorderBackups(req.params.id, backupIds);
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json({ queue: result.queue });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Remove a backup from the queue (business)
+  app.delete("/api/milestones/:id/backups/:backupId", requireBusiness, requireManager, async (req, res) => {
+    try {
+      if (!(await getOwnedMilestone(req.session.organizationId!, req.params.id))) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const result = await removeBackup(req.params.id, req.params.backupId);
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json({ queue: result.queue });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Activate a backup, replacing the primary assignment (business)
+  app.post("/api/milestones/:id/backups/:backupId/activate", requireBusiness, requireManager, async (req, res) => {
+    try {
+      if (!(await getOwnedMilestone(req.session.organizationId!, req.params.id))) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
+      const result = await activateBackup(req.params.id, req.params.backupId, {
+        email: req.session.email!,
+        role: "business",
+      });
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json({ backup: result.backup, queue: result.queue });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Decline a backup role (candidate) - promotes the next backup if needed
+  app.post("/api/candidate/milestones/:id/backup/decline", requireCandidate, async (req, res) => {
+    try {
+      const candidate = await getSessionCandidate(req);
+      if (!candidate) {
+        return res.status(404).json({ error: "Candidate not found" });
+      }
+
+      const queue = await getBackupQueue(req.params.id);
+      const backup = queue.find(b => b.candidateId === candidate.id && b.status !== "rejected");
+      if (!backup) {
+        return res.status(404).json({ error: "You are not a backup for this milestone" });
+      }
+
+      const result = await rejectBackup(req.params.id, backup.id, req.body.reason, {
+        email: candidate.email,
+        role: "candidate",
+      });
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+
+      res.json({ backup: result.backup, promoted: result.promoted || null });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ========== BUSINESS STATS ==========
+  
+  app.get("/api/business/stats", requireBusiness, async (req, res) => {
+    try {
+      const projects = await storage.getProjectsByOrganization(req.session.organizationId!);
+      const candidates = await storage.getAllCandidates();
+      
+      let totalScore = 0;
+      let scoreCount = 0;
+      let riskCount = 0;
+
+      for (const project of projects) {
+        const milestones = await storage.getMilestonesByProject(project.id);
+        for (const milestone of milestones) {
+          const scores = await storage.getFitScoresByMilestone(milestone.id);
+          totalScore += scores.reduce((sum, s) => sum + s.score, 0);
+          scoreCount += scores.length;
+
+          const risks = await storage.getRiskAlertsByMilestone(milestone.id);
+          riskCount += risks.filter(r => r.riskLevel === "high" || r.riskLevel === "medium").length;
+        }
+      }
+
+      res.json({
+        totalProjects: projects.length,
+        totalCandidates: candidates.length,
+        avgFitScore: scoreCount > 0 ? Math.round(totalScore / scoreCount) : 0,
+        riskAlerts: riskCount,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Fit score accuracy: predicted fit vs delivered outcomes, per scoring method
+  app.get("/api/business/analytics/fit-accuracy", requireBusiness, async (req, res) => {
+    try {
+      const report = await getFitScoreAccuracyReport(req.session.organizationId!);
+      res.json(report);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ========== BUSINESS METRICS ==========
+
+  // Time-to-fill, utilization, backup success and application funnel for the logged-in business
+  app.get("/api/business/metrics", requireBusiness, async (req, res) => {
+    try {
+      const defaults = getDefaultMetricsRange();
+      const from = req.query.from ? new Date(req.query.from as string) : defaults.from;
+      const to = req.query.to ? new Date(req.query.to as string) : defaults.to;
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({ error: "from and to must be valid dates" });
+      }
+      if (to < from) {
+        return res.status(400).json({ error: "to must be on or after from" });
+      }
+
+      const metrics = await getBusinessMetrics(req.session.organizationId!, { from, to });
+      res.json(metrics);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // ========== JIRA INTEGRATION ==========
+
+  // Sync Jira project
+  app.post("/api/jira/sync/:projectKey", requireBusiness, requireManager, async (req, res) => {
+    try {
+      const businessUserId = req.session.userId!;
+      if (!(await ownsJiraProject(req.session.organizationId!, req.params.projectKey))) {
+        return res.status(404).json({ error: "Jira project not found" });
+      }
+
+      const issues = await syncJiraMilestones(req.params.projectKey, businessUserId);
+      res.json({ issues, count: issues.length });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
   // Monitor project delays
-  app.get("/api/jira/monitor/:projectKey", async (req, res) => {
+  app.get("/api/jira/monitor/:projectKey", requireBusiness, async (req, res) => {
     try {
-      const delays = await monitorProjectDelays(req.params.projectKey);
+      const businessUserId = req.session.userId!;
+      if (!(await ownsJiraProject(req.session.organizationId!, req.params.projectKey))) {
+        return res.status(404).json({ error: "Jira project not found" });
+      }
+
+      const delays = await monitorProjectDelays(req.params.projectKey, businessUserId);
       res.json(delays);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
   
-  // Get Jira sync logs for business user
-  app.get("/api/jira/sync-logs/:businessUserId", async (req, res) => {
+  // Get Jira sync logs for the organization's members
+  app.get("/api/jira/sync-logs", requireBusiness, async (req, res) => {
     try {
-      const { businessUserId } = req.params;
+      const memberEmails = await getMemberEmails(req.session.organizationId!);
       const limit = parseInt(req.query.limit as string) || 50;
       
-      const logs = await storage.getJiraSyncLogs(businessUserId, limit);
+      const logs = await storage.getJiraSyncLogs(memberEmails, limit);
       res.json({ logs, count: logs.length });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
@@ -1165,19 +1590,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get failed Jira syncs (for retry UI)
-  app.get("/api/jira/failed-syncs/:businessUserId", async (req, res) => {
+  app.get("/api/jira/failed-syncs", requireBusiness, async (req, res) => {
     try {
-      const { businessUserId } = req.params;
-      const failedLogs = await storage.getFailedJiraSyncLogs(businessUserId);
+      const memberEmails = await getMemberEmails(req.session.organizationId!);
+      const failedLogs = await storage.getFailedJiraSyncLogs(memberEmails);
       res.json({ logs: failedLogs, count: failedLogs.length });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  // Retry a failed Jira write-back
+  app.post("/api/jira/sync-logs/:logId/retry", requireBusiness, requireManager, async (req, res) => {
+    try {
+      const log = await storage.getJiraSyncLog(req.params.logId);
+      const memberEmails = await getMemberEmails(req.session.organizationId!);
+      if (!log || !memberEmails.includes(log.businessUserId)) {
+        return res.status(404).json({ error: "Sync log not found" });
+      }
+      
+      if (log.syncType !== 'jira_writeback' || !log.payload) {
+        return res.status(400).json({ error: "Only Jira write-backs can be retried here. Use project sync to retry imports." });
+      }
+      
+      if (log.status !== 'failed' || !log.canRetry) {
+        return res.status(409).json({ error: "This write-back cannot be retried" });
+      }
+      
+      const jobId = await queueJiraWriteBack(log.payload as JiraWriteBackPayload);
+      if (!jobId) {
+        return res.status(409).json({ error: "The milestone is no longer linked to a Jira issue" });
+      }
+      
+      await storage.updateJiraSyncLog(log.id, { retryCount: (log.retryCount || 0) + 1 });
+      
+      res.json({ success: true, jobId, message: "Write-back queued for retry" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ========== MAGIC LINK AUTHENTICATION ==========
   
-  const { generateMagicLinkToken, generateMagicLinkUrl, sendMagicLinkEmail } = await import("./magic-link-utils");
+  const { generateMagicLinkToken, generateMagicLinkUrl, sendMagicLinkEmail, getAppBaseUrl } = await import("./magic-link-utils");
   
   // Request a magic link
   app.post("/api/auth/request-magic-link", async (req, res) => {
@@ -1201,56 +1656,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Invalidate all previous unused magic links for this email
       await storage.invalidateOldMagicLinks(emailLower);
 
-      // Check if user exists and determine available roles
-      const candidate = await storage.getCandidateByEmail(emailLower);
-      const allProjects = await storage.getAllProjects();
-      const userProjects = allProjects.filter(p => p.businessUserId === emailLower);
-      
-      const hasCandidate = !!candidate;
-      const hasBusiness = userProjects.length > 0;
-      
-      console.log(`🔍 Role detection for ${emailLower}: candidate=${hasCandidate}, business=${hasBusiness}, requested=${requestedRole}`);
-      
-      // Determine final role
-      let role: "candidate" | "business" = "candidate";
-      let userId: string | null = null;
-      
-      if (requestedRole === "business" && hasBusiness) {
-        // User requested business and has business access
-        role = "business";
-        userId = emailLower;
-        console.log(`✅ Using requested role: business`);
-      } else if (requestedRole === "candidate" && hasCandidate) {
-        // User requested candidate and has candidate access
-        role = "candidate";
-        userId = candidate.id;
-        console.log(`✅ Using requested role: candidate`);
-      } else if (hasBusiness && !hasCandidate) {
-        // Only business access available
-        role = "business";
-        userId = emailLower;
-        console.log(`✅ Only business access available`);
-      } else if (hasCandidate && !hasBusiness) {
-        // Only candidate access available
-        role = "candidate";
-        userId = candidate.id;
-        console.log(`✅ Only candidate access available`);
-      } else if (hasBusiness && hasCandidate) {
-        // Dual-role user - default to candidate if no preference
-        role = "candidate";
-        userId = candidate.id;
-        console.log(`⚠️ Dual-role user, defaulting to candidate`);
-      } else {
-        // New user - use requested role
-        if (requestedRole === "business") {
-          role = "business";
-          userId = emailLower;
-          console.log(`🆕 New business user with requested role: business`);
-        } else {
-          role = "candidate";
-          console.log(`🆕 New candidate user (shadow account will be created)`);
-        }
-      }
+      // Roles come from the users table; the requested portal is granted once the link is verified
+      const user = await getOrCreateUser(emailLower);
+      const role = await chooseLoginRole(user, requestedRole);
+      const candidate = role === "candidate" ? await storage.getCandidateByEmail(emailLower) : undefined;
+      const userId = role === "business" ? emailLower : candidate?.id ?? null;
+
+      console.log(`🔍 Login role for ${emailLower}: ${role} (roles: ${user.roles.join(", ") || "none"}, requested: ${requestedRole})`);
 
       // Generate cryptographically secure token
       const token = generateMagicLinkToken();
@@ -1273,11 +1685,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Generate magic link URL
-      // Use REPLIT_DOMAINS for production deployment URL
-      const baseUrl = process.env.REPLIT_DOMAINS 
-        ? `https://${process.env.REPLIT_DOMAINS.split(',')[0]}`
-        : `http://localhost:5000`;
-      const magicLinkUrl = generateMagicLinkUrl(token, baseUrl);
+      const magicLinkUrl = generateMagicLinkUrl(token, getAppBaseUrl());
       
       console.log(`🔗 Magic link URL created: ${magicLinkUrl}`);
 
@@ -1324,79 +1732,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Mark as used
       await storage.markMagicLinkAsUsed(token);
 
-      // Get or create user account with cross-portal email uniqueness check
-      let userId: string;
-      let actualRole: "business" | "candidate";
-      
-      // Check if email exists in candidate portal
-      const existingCandidate = await storage.getCandidateByEmail(magicLink.email);
-      
-      // Check magic_links history to detect previous registrations
-      // Look at ALL history (30 days) to preserve role consistency
-      const previousMagicLinks = await storage.getRecentMagicLinksByEmail(magicLink.email, 30 * 24 * 60);
-      
-      const hasBusinessHistory = previousMagicLinks.some(
-        (link: any) => link.role === "business" && link.used
-      );
-      const hasCandidateHistory = previousMagicLinks.some(
-        (link: any) => link.role === "candidate" && link.used
-      );
-      
-      // Enforce "one email = one role" architecture based on history
-      if (hasCandidateHistory && magicLink.role === "business") {
-        // Email already used as candidate, preserve candidate role
-        console.log(`⚠️  Email ${magicLink.email} already registered as candidate (history check). Preserving candidate role.`);
-        let user = existingCandidate;
-        if (!user) {
-          // Shouldn't happen, but handle gracefully
-          user = await storage.createCandidate({
-            email: magicLink.email,
-            name: magicLink.email.split("@")[0],
-          });
-        }
-        userId = user.id;
-        actualRole = "candidate";
-      } else if (hasBusinessHistory && magicLink.role === "candidate") {
-        // Email already used as business, preserve business role
-        console.log(`⚠️  Email ${magicLink.email} already registered as business (history check). Preserving business role.`);
-        userId = magicLink.email;
-        actualRole = "business";
-      } else if (magicLink.role === "candidate") {
-        // New or existing candidate (no conflicts)
-        let user = existingCandidate;
-        if (!user) {
-          user = await storage.createCandidate({
-            email: magicLink.email,
-            name: magicLink.email.split("@")[0],
-          });
-          console.log(`✨ New candidate user created: ${magicLink.email}`);
-        }
-        userId = user.id;
-        actualRole = "candidate";
-      } else {
-        // Business user - use email as userId
-        userId = magicLink.email;
-        actualRole = "business";
-        if (!hasBusinessHistory) {
-          console.log(`✨ New business user: ${magicLink.email}`);
-        }
-      }
-
-      // Create server-side session with ACTUAL role (may differ from requested)
-      req.session.userId = userId;
-      req.session.email = magicLink.email;
-      req.session.role = actualRole; // Use actualRole, not magicLink.role
+      const role = isUserRole(magicLink.role) ? magicLink.role : "candidate";
+      const user = await recordLogin(await getOrCreateUser(magicLink.email), role);
+      await startRoleSession(req, user, role);
 
-      console.log(`✅ Session created for ${magicLink.email} (role: ${actualRole}${actualRole !== magicLink.role ? `, requested: ${magicLink.role}` : ''})`);
+      console.log(`✅ Session created for ${magicLink.email} (role: ${role})`);
 
       res.json({
         success: true,
         user: {
-          id: userId,
-          email: magicLink.email,
-          role: actualRole, // Return actual role
+          id: req.session.userId,
+          email: user.email,
+          role,
+          roles: getUserRoles(user),
         },
-        redirectTo: actualRole === "business" ? "/business" : "/candidate/dashboard",
+        redirectTo: getPortalPath(role),
       });
     } catch (error: any) {
       console.error("Error verifying magic link:", error);
@@ -1411,11 +1761,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ user: null });
       }
 
+      const user = await storage.getUserByEmail(req.session.email);
+
       res.json({
         user: {
           id: req.session.userId,
           email: req.session.email,
           role: req.session.role,
+          roles: user ? getUserRoles(user) : [req.session.role],
         },
       });
     } catch (error: any) {
@@ -1424,6 +1777,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Switch the session to another role the user holds (dual-role accounts)
+  app.post("/api/auth/switch-role", requireAuth, async (req, res) => {
+    try {
+      const { role } = req.body;
+      if (!isUserRole(role)) {
+        return res.status(400).json({ error: "role must be business or candidate" });
+      }
+
+      const user = await storage.getUserByEmail(req.session.email!);
+      if (!user || !getUserRoles(user).includes(role)) {
+        return res.status(403).json({ error: `Your account does not have the ${role} role. Log in through the ${role} portal to add it.` });
+      }
+
+      await startRoleSession(req, user, role);
+      console.log(`🔄 ${user.email} switched to ${role}`);
+
+      res.json({
+        success: true,
+        user: {
+          id: req.session.userId,
+          email: user.email,
+          role,
+          roles: getUserRoles(user),
+        },
+        redirectTo: getPortalPath(role),
+      });
+    } catch (error: any) {
+      console.error("Error switching role:", error);
+      res.status(500).json({ error: "Failed to switch role" });
+    }
+  });
+
   // Logout (destroy session)
   app.post("/api/auth/logout", async (req, res) => {
     try {
@@ -1445,12 +1830,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========== ORGANIZATIONS ==========
+
+  // Get the logged-in user's organization, members and (for owners) invitations
+  app.get("/api/organization", requireBusiness, async (req, res) => {
+    try {
+      const organizationId = req.session.organizationId!;
+      const organization = await storage.getOrganization(organizationId);
+      if (!organization) {
+        return res.status(404).json({ error: "Organization not found" });
+      }
+
+      const members = await storage.getOrganizationMembers(organizationId);
+      const invitations = req.session.organizationRole === "owner"
+        ? (await storage.getOrganizationInvitations(organizationId)).filter(i => i.status === "pending")
+        : [];
+
+      res.json({ organization, role: req.session.organizationRole, members, invitations });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Rename the organization
+  app.patch("/api/organization", requireBusiness, requireOwner, async (req, res) => {
+    try {
+      const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+      if (!name) {
+        return res.status(400).json({ error: "name is required" });
+      }
+
+      const organization = await storage.updateOrganization(req.session.organizationId!, { name });
+      res.json(organization);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Invite a teammate by email (sends a magic link)
+  app.post("/api/organization/invitations", requireBusiness, requireOwner, async (req, res) => {
+    try {
+      const { email, role } = req.body;
+      const result = await inviteMember(req.session.organizationId!, email, role || "viewer", req.session.email!);
+
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+      res.status(201).json(result.invitation);
+    } catch (error: any) {
+      console.error("Error inviting organization member:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/organization/invitations/:id", requireBusiness, requireOwner, async (req, res) => {
+    try {
+      const result = await revokeInvitation(req.session.organizationId!, req.params.id);
+
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+      res.json(result.invitation);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Change a member's role
+  app.patch("/api/organization/members/:id", requireBusiness, requireOwner, async (req, res) => {
+    try {
+      const result = await updateMemberRole(req.session.organizationId!, req.params.id, req.body.role);
+
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+      res.json(result.member);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/organization/members/:id", requireBusiness, requireOwner, async (req, res) => {
+    try {
+      const result = await removeMember(req.session.organizationId!, req.params.id);
+
+      if (!result.success) {
+        return res.status(result.statusCode || 400).json({ error: result.error });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ========== BUSINESS INTERESTS (Multi-Business Competition) ==========
   
   // Business expresses interest in a candidate for a milestone
-  app.post("/api/business-interests", async (req, res) => {
+  app.post("/api/business-interests", requireBusiness, requireManager, async (req, res) => {
     try {
-      const { businessUserId, candidateId, milestoneId, projectId, offerBudget, notes } = req.body;
+      const { candidateId, milestoneId, offerBudget, notes } = req.body;
+      const businessUserId = req.session.userId!;
+
+      const milestone = await getOwnedMilestone(req.session.organizationId!, milestoneId);
+      if (!milestone) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
       
       // Get fit score to calculate priority
       const fitScores = await storage.getFitScoresByCandidate(candidateId);
@@ -1471,7 +1955,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         businessUserId,
         candidateId,
         milestoneId,
-        projectId,
+        projectId: milestone.projectId,
         status: "interested",
         offerBudget: offerBudget || null,
         priorityScore,
@@ -1484,11 +1968,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get competing offers for a candidate (top 3)
-  app.get("/api/business-interests/candidate/:candidateId/competing", async (req, res) => {
+  // Get the top 3 competing offers for the logged-in candidate
+  app.get("/api/business-interests/competing", requireCandidate, async (req, res) => {
     try {
-      const { candidateId } = req.params;
-      const interests = await storage.getCompetingOffersForCandidate(candidateId);
+      const interests = await storage.getCompetingOffersForCandidate(req.session.userId!);
       
       // Recalculate priority scores with normalized budgets
       const { calculateCompetingPriorityScores, getTopCompetingOffers } = await import("./priority-scorer.js");
@@ -1540,9 +2023,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get all business interests for a milestone
-  app.get("/api/business-interests/milestone/:milestoneId", async (req, res) => {
+  app.get("/api/business-interests/milestone/:milestoneId", requireBusiness, async (req, res) => {
     try {
       const { milestoneId } = req.params;
+      if (!(await getOwnedMilestone(req.session.organizationId!, milestoneId))) {
+        return res.status(404).json({ error: "Milestone not found" });
+      }
+
       const interests = await storage.getBusinessInterestsByMilestone(milestoneId);
       res.json(interests);
     } catch (error: any) {
@@ -1551,14 +2038,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update business interest (e.g., adjust offer)
-  app.patch("/api/business-interests/:id", async (req, res) => {
+  app.patch("/api/business-interests/:id", requireBusiness, requireManager, async (req, res) => {
     try {
       const { id } = req.params;
       const { offerBudget, status, notes } = req.body;
       
       // Get existing interest
       const existing = await storage.getBusinessInterest(id);
-      if (!existing) {
+      if (!existing || !(await getOwnedProject(req.session.organizationId!, existing.projectId))) {
         return res.status(404).json({ error: "Business interest not found" });
       }
       
@@ -1593,7 +2080,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Candidate rates an opportunity
-  app.post("/api/business-interests/:id/rate", async (req, res) => {
+  app.post("/api/business-interests/:id/rate", requireCandidate, async (req, res) => {
     try {
       const { id } = req.params;
       const { rating } = req.body; // 1-5 stars
@@ -1603,7 +2090,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const existing = await storage.getBusinessInterest(id);
-      if (!existing) {
+      if (!existing || existing.candidateId !== req.session.userId) {
         return res.status(404).json({ error: "Business interest not found" });
       }
       
@@ -1633,13 +2120,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========== SKILL TAXONOMY ==========
+
+  // Canonical skills with aliases, parents and categories
+  app.get("/api/skills/taxonomy", requireAuth, async (req, res) => {
+    res.json({ categories: SKILL_CATEGORIES, skills: getSkillTaxonomy() });
+  });
+
+  // Add a skill, or replace the aliases/parents/category of one by canonical name
+  app.post("/api/admin/skills", requireAdmin, async (req, res) => {
+    try {
+      const canonicalName = typeof req.body.canonicalName === "string" ? req.body.canonicalName.trim() : "";
+      if (!canonicalName) {
+        return res.status(400).json({ error: "canonicalName is required" });
+      }
+      if (!isSkillCategory(req.body.category)) {
+        return res.status(400).json({ error: `category must be one of: ${SKILL_CATEGORIES.join(", ")}` });
+      }
+
+      const toStringList = (value: unknown): string[] | null =>
+        value === undefined ? [] : Array.isArray(value) && value.every(v => typeof v === "string") ? value : null;
+      const aliases = toStringList(req.body.aliases);
+      const parents = toStringList(req.body.parents);
+      if (!aliases || !parents) {
+        return res.status(400).json({ error: "aliases and parents must be arrays of strings" });
+      }
+
+      const unknownParents = parents.filter(parent => !findSkill(parent));
+      if (unknownParents.length > 0) {
+        return res.status(400).json({ error: `Unknown parent skills: ${unknownParents.join(", ")}` });
+      }
+
+      const entry = await storage.upsertSkillTaxonomyEntry({
+        canonicalName,
+        category: req.body.category,
+        aliases: Array.from(new Set(aliases.map(alias => alias.trim()).filter(Boolean))),
+        parents: normalizeSkills(parents).filter(parent => parent.toLowerCase() !== canonicalName.toLowerCase()),
+        createdBy: req.session.email!,
+      });
+      await refreshSkillTaxonomy();
+
+      console.log(`[Skill Taxonomy] ${req.session.email} saved "${entry.canonicalName}"`);
+      res.status(201).json(entry);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Remove a custom skill (a built-in with the same name applies again)
+  app.delete("/api/admin/skills/:id", requireAdmin, async (req, res) => {
+    try {
+      const entry = await storage.getSkillTaxonomyEntry(req.params.id);
+      if (!entry) {
+        return res.status(404).json({ error: "Skill not found" });
+      }
+
+      await storage.deleteSkillTaxonomyEntry(entry.id);
+      await refreshSkillTaxonomy();
+
+      console.log(`[Skill Taxonomy] ${req.session.email} removed "${entry.canonicalName}"`);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ========== BACKGROUND JOBS ==========
   
   // Get job status
-  app.get("/api/jobs/:jobId", async (req, res) => {
+  app.get("/api/jobs/:jobId", requireAuth, async (req, res) => {
     try {
       const job = await storage.getJob(req.params.jobId);
-      if (!job) {
+      if (!job || job.userId !== req.session.userId) {
         return res.status(404).json({ error: "Job not found" });
       }
       res.json(job);
@@ -1648,20 +2200,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get user's jobs
-  app.get("/api/jobs/user/:userId", async (req, res) => {
+  // Get the logged-in user's jobs
+  app.get("/api/jobs", requireAuth, async (req, res) => {
     try {
-      const jobs = await storage.getJobsByUser(req.params.userId);
+      const jobs = await storage.getJobsByUser(req.session.userId!);
       res.json(jobs);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  // Load admin-defined skills before any matching runs
+  await refreshSkillTaxonomy();
+
   // Start background job worker
   console.log('[Server] Starting background job worker...');
   startJobWorker();
 
+  // Start scheduled delay monitoring for Jira-linked projects
+  startDelayMonitor();
+
   const httpServer = createServer(app);
   return httpServer;
 }
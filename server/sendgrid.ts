@@ -89,7 +89,9 @@ export async function sendJobCompletionEmail(
       'cv_processing': 'CV Processing',
       'fit_score_calculation': 'Job Matching',
       'skill_map_generation': 'Skill Analysis',
-      'jira_sync': 'Jira Synchronization'
+      'jira_sync': 'Jira Synchronization',
+      'jira_import': 'Jira Project Import',
+      'jira_writeback': 'Jira Write-back'
     }[jobType] || jobType;
     
     const subject = status === "success" 
@@ -139,3 +141,64 @@ export async function sendJobCompletionEmail(
     // Don't throw - email failure shouldn't break the job
   }
 }
+
+/**
+ * Send risk escalation email (business notification or management escalation)
+ */
+export async function sendRiskEscalationEmail(
+  to: string,
+  details: {
+    projectName: string;
+    milestoneName: string;
+    tier: string;
+    delayPercentage: number;
+    recommendedAction: string;
+    backupCandidates?: Array<{ name: string; score: number }>;
+    decisionDeadline?: Date;
+    isManagementEscalation?: boolean;
+  }
+): Promise<void> {
+  const {client, fromEmail} = await getUncachableSendGridClient();
+  
+  const tierLabel = details.tier.toUpperCase();
+  const subject = details.isManagementEscalation
+    ? `⚠ Escalation: ${tierLabel} risk on ${details.projectName}`
+    : `${tierLabel} risk: ${details.milestoneName} (${details.projectName})`;
+  
+  const backupList = details.backupCandidates && details.backupCandidates.length > 0
+    ? `
+        <p><strong>Backup candidates:</strong></p>
+        <ol>
+          ${details.backupCandidates.map(c => `<li>${c.name} (fit score ${c.score})</li>`).join('')}
+        </ol>
+      `
+    : '';
+  
+  const deadline = details.decisionDeadline
+    ? `<p><strong>Decision required by:</strong> ${details.decisionDeadline.toUTCString()}</p>`
+    : '';
+  
+  const msg = {
+    to,
+    from: fromEmail,
+    subject,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #000000;">${tierLabel} Risk Detected</h2>
+        <p><strong>${details.milestoneName}</strong> in <strong>${details.projectName}</strong> is running ${details.delayPercentage}% over its estimate.</p>
+        <p><strong>Recommended action:</strong> ${details.recommendedAction}</p>
+        ${deadline}
+        ${backupList}
+        <div style="margin: 30px 0;">
+          <a href="${process.env.REPLIT_DOMAINS || 'http://localhost:5000'}" 
+             style="background-color: #000000; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block;">
+            Review Project
+          </a>
+        </div>
+      </div>
+    `
+  };
+  
+  await client.send(msg);
+  console.log(`✅ Risk escalation email sent to ${to} (${details.tier})`);
+}
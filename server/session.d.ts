@@ -5,5 +5,7 @@ declare module "express-session" {
     userId: string;
     email: string;
     role: "business" | "candidate";
+    organizationId?: string;
+    organizationRole?: "owner" | "manager" | "viewer";
   }
 }
@@ -0,0 +1,73 @@
+/**
+ * Skill Maps - Read any stored skill map shape as the current (v2) SkillMap
+ *
+ * Milestones created before skill map version 2 hold one of two older shapes:
+ * - AI v1: { milestone, required_skills, experience_level, soft_skills }
+ * - Rule-based: { requiredSkills, niceToHave, experienceLevel, domain }
+ * Old required skills become "must" requirements and nice-to-haves "nice".
+ * migrations/upgrade_skill_maps.sql applies the same rules to stored rows;
+ * upgradeSkillMap covers rows written by older code and client input.
+ */
+
+import {
+  SKILL_MAP_VERSION,
+  skillMapSchema,
+  type SkillImportance,
+  type SkillMap,
+  type SkillRequirement,
+} from '@shared/schema';
+
+const DEFAULT_EXPERIENCE_LEVEL = 'mid-level';
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0) : [];
+}
+
+function toRequirements(names: string[], importance: SkillImportance): SkillRequirement[] {
+  return names.map(name => ({ name: name.trim(), importance }));
+}
+
+/**
+ * Parse a stored or submitted skill map into the current version.
+ * Returns null when the value is not a skill map in any known shape.
+ */
+export function upgradeSkillMap(raw: unknown, milestoneName: string = ''): SkillMap | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const value = raw as Record<string, any>;
+
+  if (value.version !== undefined) {
+    const parsed = skillMapSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+  }
+
+  const legacyRequired = value.required_skills ?? value.requiredSkills;
+  if (!Array.isArray(legacyRequired)) return null;
+
+  const required = toStringList(legacyRequired);
+  const niceToHave = toStringList(value.niceToHave);
+  const domain = typeof value.domain === 'string' && value.domain.trim() ? value.domain.trim() : undefined;
+  return {
+    version: SKILL_MAP_VERSION,
+    milestone: typeof value.milestone === 'string' ? value.milestone : milestoneName,
+    skills: [...toRequirements(required, 'must'), ...toRequirements(niceToHave, 'nice')],
+    experience_level: String(value.experience_level || value.experienceLevel || DEFAULT_EXPERIENCE_LEVEL),
+    soft_skills: toStringList(value.soft_skills),
+    ...(domain && { domain }),
+  };
+}
+
+export function getSkillNames(skillMap: SkillMap, importance?: SkillImportance): string[] {
+  return skillMap.skills
+    .filter(skill => !importance || skill.importance === importance)
+    .map(skill => skill.name);
+}
+
+/**
+ * One requirement as prompt text, e.g. "React (must, advanced, 3+ years)"
+ */
+export function formatSkillRequirement(skill: SkillRequirement): string {
+  const details: string[] = [skill.importance];
+  if (skill.min_proficiency) details.push(skill.min_proficiency);
+  if (skill.min_years !== undefined) details.push(`${skill.min_years}+ years`);
+  return `${skill.name} (${details.join(', ')})`;
+}
@@ -0,0 +1,345 @@
+/**
+ * Skill Taxonomy - Canonical skill names, aliases, parents and categories
+ *
+ * Every skill string that enters the system (CV analysis, AI skill maps,
+ * rule-based extraction) is normalized to one canonical name, so "k8s",
+ * "Kubernetes" and "kubernetes " are the same skill and "Java" is never
+ * confused with "JavaScript".
+ *
+ * Parents describe what a skill implies: a React developer knows JavaScript,
+ * so a candidate listing React fully satisfies a JavaScript requirement, while
+ * a candidate listing only JavaScript gets partial credit for React.
+ *
+ * The built-in list below is extended (or overridden by canonical name) by
+ * admins through /api/admin/skills; custom entries are loaded from the
+ * skill_taxonomy_entries table at startup and after every change.
+ */
+
+import { storage } from './storage';
+import { SKILL_IMPORTANCES, SKILL_PROFICIENCIES, type SkillMap, type SkillRequirement } from '@shared/schema';
+
+export const SKILL_CATEGORIES = [
+  'language', 'frontend', 'backend', 'database', 'cloud', 'devops',
+  'data', 'mobile', 'testing', 'soft', 'other',
+] as const;
+
+export type SkillCategory = typeof SKILL_CATEGORIES[number];
+
+export interface SkillDefinition {
+  name: string;
+  category: SkillCategory;
+  aliases?: string[];
+  parents?: string[];
+  ambiguous?: boolean; // Name is a common word ("Go"); only its aliases are extracted from free text
+}
+
+export interface TaxonomySkill extends Required<Omit<SkillDefinition, 'ambiguous'>> {
+  id?: string; // Set for custom entries
+  source: 'built_in' | 'custom';
+}
+
+// Credit a candidate skill earns toward a required skill
+const EXACT_MATCH_CREDIT = 1;
+const PARENT_MATCH_CREDIT = 0.5; // Candidate knows the parent (JavaScript) of the required skill (React)
+
+const BUILT_IN_SKILLS: SkillDefinition[] = [
+  // Languages
+  { name: 'JavaScript', category: 'language', aliases: ['js', 'ecmascript', 'es6'] },
+  { name: 'TypeScript', category: 'language', aliases: ['ts'], parents: ['JavaScript'] },
+  { name: 'Python', category: 'language', aliases: ['py', 'python3'] },
+  { name: 'Java', category: 'language', aliases: ['java se', 'java ee', 'j2ee'] },
+  { name: 'Kotlin', category: 'language' },
+  { name: 'C#', category: 'language', aliases: ['csharp', 'c sharp'] },
+  { name: 'C++', category: 'language', aliases: ['cpp'] },
+  { name: 'Go', category: 'language', aliases: ['golang'], ambiguous: true },
+  { name: 'Rust', category: 'language' },
+  { name: 'Ruby', category: 'language' },
+  { name: 'PHP', category: 'language' },
+  { name: 'Swift', category: 'language' },
+  { name: 'SQL', category: 'language' },
+  { name: 'HTML', category: 'frontend', aliases: ['html5'] },
+  { name: 'CSS', category: 'frontend', aliases: ['css3'] },
+
+  // Frontend
+  { name: 'React', category: 'frontend', aliases: ['reactjs', 'react.js'], parents: ['JavaScript'] },
+  { name: 'Next.js', category: 'frontend', aliases: ['nextjs'], parents: ['React'] },
+  { name: 'Angular', category: 'frontend', aliases: ['angularjs', 'angular 2+'], parents: ['TypeScript'] },
+  { name: 'Vue', category: 'frontend', aliases: ['vuejs', 'vue.js'], parents: ['JavaScript'] },
+  { name: 'Redux', category: 'frontend', parents: ['React'] },
+  { name: 'Tailwind CSS', category: 'frontend', aliases: ['tailwind', 'tailwindcss'], parents: ['CSS'] },
+  { name: 'Bootstrap', category: 'frontend', parents: ['CSS'] },
+  { name: 'Sass', category: 'frontend', aliases: ['scss'], parents: ['CSS'] },
+
+  // Backend
+  { name: 'Node.js', category: 'backend', aliases: ['node', 'nodejs'], parents: ['JavaScript'] },
+  { name: 'Express', category: 'backend', aliases: ['expressjs', 'express.js'], parents: ['Node.js'] },
+  { name: 'NestJS', category: 'backend', parents: ['Node.js', 'TypeScript'] },
+  { name: 'Django', category: 'backend', parents: ['Python'] },
+  { name: 'Flask', category: 'backend', parents: ['Python'] },
+  { name: 'FastAPI', category: 'backend', parents: ['Python'] },
+  { name: 'Spring', category: 'backend', aliases: ['spring boot', 'springboot', 'spring framework'], parents: ['Java'] },
+  { name: '.NET', category: 'backend', aliases: ['dotnet', 'asp.net', 'net core', '.net core'], parents: ['C#'], ambiguous: true },
+  { name: 'Ruby on Rails', category: 'backend', aliases: ['rails', 'ror'], parents: ['Ruby'] },
+  { name: 'Laravel', category: 'backend', parents: ['PHP'] },
+  { name: 'REST API', category: 'backend', aliases: ['restful', 'rest apis', 'restful api'] },
+  { name: 'GraphQL', category: 'backend' },
+
+  // Databases
+  { name: 'PostgreSQL', category: 'database', aliases: ['postgres', 'psql'], parents: ['SQL'] },
+  { name: 'MySQL', category: 'database', aliases: ['mariadb'], parents: ['SQL'] },
+  { name: 'SQL Server', category: 'database', aliases: ['mssql', 'ms sql'], parents: ['SQL'] },
+  { name: 'MongoDB', category: 'database', aliases: ['mongo'] },
+  { name: 'Redis', category: 'database' },
+  { name: 'Elasticsearch', category: 'database', aliases: ['elastic search', 'elk'] },
+
+  // Cloud & DevOps
+  { name: 'AWS', category: 'cloud', aliases: ['amazon web services'] },
+  { name: 'Azure', category: 'cloud', aliases: ['microsoft azure'] },
+  { name: 'Google Cloud', category: 'cloud', aliases: ['gcp', 'google cloud platform'] },
+  { name: 'Docker', category: 'devops' },
+  { name: 'Kubernetes', category: 'devops', aliases: ['k8s'], parents: ['Docker'] },
+  { name: 'Terraform', category: 'devops' },
+  { name: 'CI/CD', category: 'devops', aliases: ['ci cd', 'continuous integration', 'continuous delivery'] },
+  { name: 'Git', category: 'devops', aliases: ['github', 'gitlab'] },
+  { name: 'Linux', category: 'devops', aliases: ['unix'] },
+
+  // Data
+  { name: 'Pandas', category: 'data', parents: ['Python'] },
+  { name: 'Machine Learning', category: 'data', aliases: ['ml'] },
+  { name: 'TensorFlow', category: 'data', parents: ['Machine Learning', 'Python'] },
+  { name: 'PyTorch', category: 'data', parents: ['Machine Learning', 'Python'] },
+  { name: 'Apache Spark', category: 'data', aliases: ['spark', 'pyspark'] },
+
+  // Mobile
+  { name: 'React Native', category: 'mobile', aliases: ['react-native'], parents: ['React'] },
+  { name: 'Flutter', category: 'mobile', aliases: ['dart'] },
+  { name: 'Android', category: 'mobile', parents: ['Kotlin'] },
+  { name: 'iOS', category: 'mobile', parents: ['Swift'] },
+
+  // Testing
+  { name: 'Jest', category: 'testing', parents: ['JavaScript'] },
+  { name: 'Cypress', category: 'testing', parents: ['JavaScript'] },
+  { name: 'Playwright', category: 'testing' },
+  { name: 'Selenium', category: 'testing' },
+
+  // Soft skills and practices
+  { name: 'Communication', category: 'soft', aliases: ['communication skills'] },
+  { name: 'Leadership', category: 'soft', aliases: ['team leadership'] },
+  { name: 'Teamwork', category: 'soft', aliases: ['collaboration', 'team player'] },
+  { name: 'Problem Solving', category: 'soft', aliases: ['problem-solving', 'analytical thinking'] },
+  { name: 'Agile', category: 'soft', aliases: ['agile methodology'] },
+  { name: 'Scrum', category: 'soft', parents: ['Agile'] },
+  { name: 'Project Management', category: 'soft' },
+];
+
+interface TaxonomyIndex {
+  skills: TaxonomySkill[];
+  byKey: Map<string, TaxonomySkill>;
+  textPatterns: Array<{ pattern: RegExp; skill: TaxonomySkill }>;
+}
+
+let index: TaxonomyIndex = buildIndex([]);
+
+/**
+ * Lookup key: case, whitespace and separator insensitive ("Node.js" = "node js" = "NodeJS").
+ * "+" and "#" are kept so C, C++ and C# stay distinct.
+ */
+function toKey(skill: string): string {
+  return skill.toLowerCase().replace(/[\s._-]+/g, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toTaxonomySkill(definition: SkillDefinition, source: TaxonomySkill['source'], id?: string): TaxonomySkill {
+  return {
+    ...(id && { id }),
+    name: definition.name,
+    category: definition.category,
+    aliases: definition.aliases || [],
+    parents: definition.parents || [],
+    source,
+  };
+}
+
+function buildIndex(customEntries: Array<SkillDefinition & { id: string }>): TaxonomyIndex {
+  const byName = new Map<string, TaxonomySkill>();
+  const ambiguous: string[] = [];
+
+  for (const definition of BUILT_IN_SKILLS) {
+    byName.set(toKey(definition.name), toTaxonomySkill(definition, 'built_in'));
+    if (definition.ambiguous) ambiguous.push(definition.name);
+  }
+  // Custom entries add skills or replace a built-in with the same canonical name
+  for (const entry of customEntries) {
+    byName.set(toKey(entry.name), toTaxonomySkill(entry, 'custom', entry.id));
+  }
+
+  const skills = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+  const byKey = new Map<string, TaxonomySkill>();
+  const textPatterns: TaxonomyIndex['textPatterns'] = [];
+
+  // Aliases first so a canonical name always wins a key collision
+  for (const skill of skills) {
+    for (const alias of skill.aliases) {
+      if (!byKey.has(toKey(alias))) byKey.set(toKey(alias), skill);
+    }
+  }
+  for (const skill of skills) {
+    byKey.set(toKey(skill.name), skill);
+
+    const terms = ambiguous.includes(skill.name) && skill.source === 'built_in'
+      ? skill.aliases
+      : [skill.name, ...skill.aliases];
+    for (const term of terms) {
+      if (term.trim().length < 2) continue;
+      // Word boundaries that treat "+" and "#" as part of a skill ("C++", "C#")
+      const body = term.trim().split(/[\s._-]+/).map(escapeRegExp).join('[\\s._-]?');
+      textPatterns.push({ pattern: new RegExp(`(^|[^a-z0-9+#])${body}(?![a-z0-9+#])`, 'i'), skill });
+    }
+  }
+
+  return { skills, byKey, textPatterns };
+}
+
+/**
+ * Load admin-defined entries from the database into the in-memory index.
+ * Called at startup and after every admin change; on failure the previous
+ * index (built-ins at least) stays in use.
+ */
+export async function refreshSkillTaxonomy(): Promise<void> {
+  try {
+    const entries = await storage.getSkillTaxonomyEntries();
+    index = buildIndex(entries.map(entry => ({
+      id: entry.id,
+      name: entry.canonicalName,
+      category: isSkillCategory(entry.category) ? entry.category : 'other',
+      aliases: entry.aliases,
+      parents: entry.parents,
+    })));
+    console.log(`[Skill Taxonomy] Loaded ${index.skills.length} skills (${entries.length} custom)`);
+  } catch (error) {
+    console.error('[Skill Taxonomy] Failed to load custom entries, using built-in skills:', error);
+  }
+}
+
+export function isSkillCategory(value: unknown): value is SkillCategory {
+  return typeof value === 'string' && (SKILL_CATEGORIES as readonly string[]).includes(value);
+}
+
+export function getSkillTaxonomy(): TaxonomySkill[] {
+  return index.skills;
+}
+
+export function findSkill(skill: string): TaxonomySkill | undefined {
+  return index.byKey.get(toKey(skill));
+}
+
+/**
+ * Canonical name for a skill; unknown skills are returned trimmed as given
+ */
+export function canonicalizeSkill(skill: string): string {
+  const trimmed = skill.trim().replace(/\s+/g, ' ');
+  return findSkill(trimmed)?.name || trimmed;
+}
+
+/**
+ * Canonicalize a list of skills, dropping blanks and duplicates (first spelling wins)
+ */
+export function normalizeSkills(skills: string[] | null | undefined): string[] {
+  const result: string[] = [];
+  const seen: string[] = [];
+  for (const skill of skills || []) {
+    if (typeof skill !== 'string') continue;
+    const canonical = canonicalizeSkill(skill);
+    const key = toKey(canonical);
+    if (!key || seen.includes(key)) continue;
+    seen.push(key);
+    result.push(canonical);
+  }
+  return result;
+}
+
+export function getSkillCategory(skill: string): SkillCategory | undefined {
+  return findSkill(skill)?.category;
+}
+
+/**
+ * Every skill a skill implies, transitively (Next.js → React → JavaScript)
+ */
+export function getAncestors(skill: string): string[] {
+  const ancestors: string[] = [];
+  const queue = [...(findSkill(skill)?.parents || [])];
+  while (queue.length > 0) {
+    const parent = canonicalizeSkill(queue.shift()!);
+    if (ancestors.includes(parent)) continue;
+    ancestors.push(parent);
+    queue.push(...(findSkill(parent)?.parents || []));
+  }
+  return ancestors;
+}
+
+/**
+ * Credit (0-1) the candidate's skills earn toward one required skill:
+ * 1 for the skill itself or a skill that implies it (React for JavaScript),
+ * 0.5 for a skill it builds on (JavaScript for React), otherwise 0
+ */
+export function getSkillMatchCredit(candidateSkills: string[], requiredSkill: string): number {
+  const required = toKey(canonicalizeSkill(requiredSkill));
+  const requiredAncestors = getAncestors(requiredSkill).map(toKey);
+  let credit = 0;
+
+  for (const candidateSkill of candidateSkills) {
+    const canonical = canonicalizeSkill(candidateSkill);
+    if (toKey(canonical) === required || getAncestors(canonical).map(toKey).includes(required)) {
+      return EXACT_MATCH_CREDIT;
+    }
+    if (requiredAncestors.includes(toKey(canonical))) {
+      credit = PARENT_MATCH_CREDIT;
+    }
+  }
+  return credit;
+}
+
+/**
+ * Find known skills mentioned in free text (CVs, milestone descriptions)
+ */
+export function extractSkillsFromText(text: string): string[] {
+  const found: string[] = [];
+  for (const { pattern, skill } of index.textPatterns) {
+    if (!found.includes(skill.name) && pattern.test(text)) {
+      found.push(skill.name);
+    }
+  }
+  return found;
+}
+
+/**
+ * Canonicalize the skills of a skill map. Requirements that name the same
+ * skill are merged, keeping the highest importance and the strictest minimums.
+ */
+export function normalizeSkillMap(skillMap: SkillMap): SkillMap {
+  const skills: SkillRequirement[] = [];
+  for (const requirement of skillMap.skills) {
+    const name = canonicalizeSkill(requirement.name);
+    const existing = skills.find(skill => toKey(skill.name) === toKey(name));
+    if (!existing) {
+      skills.push({ ...requirement, name });
+      continue;
+    }
+
+    if (SKILL_IMPORTANCES.indexOf(requirement.importance) < SKILL_IMPORTANCES.indexOf(existing.importance)) {
+      existing.importance = requirement.importance;
+    }
+    if (requirement.min_proficiency && (!existing.min_proficiency ||
+        SKILL_PROFICIENCIES.indexOf(requirement.min_proficiency) > SKILL_PROFICIENCIES.indexOf(existing.min_proficiency))) {
+      existing.min_proficiency = requirement.min_proficiency;
+    }
+    if (requirement.min_years !== undefined) {
+      existing.min_years = Math.max(existing.min_years ?? 0, requirement.min_years);
+    }
+  }
+
+  return { ...skillMap, skills, soft_skills: normalizeSkills(skillMap.soft_skills) };
+}
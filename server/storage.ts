@@ -1,7 +1,14 @@
 import {
   projects, milestones, candidates, fitScores, riskAlerts, jiraSettings,
   savedJobs, applications, candidateActions, magicLinks, backgroundJobs, jiraSyncLogs,
-  businessInterests,
+  businessInterests, applicationStatusHistory, riskEscalationActions, milestoneBackups, assignmentEvents,
+  candidateUnavailability, candidateRatings, organizations, organizationMembers, organizationInvitations, users,
+  skillTaxonomyEntries,
+  type User, type InsertUser,
+  type SkillTaxonomyEntry, type InsertSkillTaxonomyEntry,
+  type Organization, type InsertOrganization,
+  type OrganizationMember, type InsertOrganizationMember,
+  type OrganizationInvitation, type InsertOrganizationInvitation,
   type Project, type InsertProject,
   type Milestone, type InsertMilestone,
   type Candidate, type InsertCandidate,
@@ -14,25 +21,68 @@ import {
   type MagicLink, type InsertMagicLink,
   type BackgroundJob, type InsertBackgroundJob,
   type JiraSyncLog, type InsertJiraSyncLog,
-  type BusinessInterest, type InsertBusinessInterest
+  type BusinessInterest, type InsertBusinessInterest,
+  type ApplicationStatusHistory, type InsertApplicationStatusHistory,
+  type RiskEscalationAction, type InsertRiskEscalationAction,
+  type MilestoneBackup, type InsertMilestoneBackup,
+  type AssignmentEvent, type InsertAssignmentEvent,
+  type CandidateUnavailability, type InsertCandidateUnavailability,
+  type CandidateRating, type InsertCandidateRating
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte } from "drizzle-orm";
+import { eq, ne, desc, and, or, gte, inArray, isNull } from "drizzle-orm";
 
 // Storage interface for Lean Workforce
 export interface IStorage {
+  // Organizations
+  getOrganization(id: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: string, data: Partial<InsertOrganization>): Promise<Organization | undefined>;
+  deleteOrganization(id: string): Promise<void>;
+  
+  // Organization Members
+  getOrganizationMember(id: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMemberByEmail(email: string): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]>;
+  createOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMember(id: string, data: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined>;
+  deleteOrganizationMember(id: string): Promise<void>;
+  
+  // Organization Invitations
+  getOrganizationInvitation(id: string): Promise<OrganizationInvitation | undefined>;
+  getOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]>;
+  getPendingInvitationsByEmail(email: string): Promise<OrganizationInvitation[]>;
+  createOrganizationInvitation(invitation: InsertOrganizationInvitation): Promise<OrganizationInvitation>;
+  updateOrganizationInvitation(id: string, data: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation | undefined>;
+  
   // Projects
   getProject(id: string): Promise<Project | undefined>;
   getAllProjects(): Promise<Project[]>;
+  getProjectsByBusinessUser(businessUserId: string): Promise<Project[]>;
+  getProjectsByOrganization(organizationId: string): Promise<Project[]>;
+  assignUnownedProjects(businessUserId: string, organizationId: string): Promise<number>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: string, data: Partial<InsertProject>): Promise<Project | undefined>;
   
   // Milestones
   getMilestone(id: string): Promise<Milestone | undefined>;
   getMilestonesByProject(projectId: string): Promise<Milestone[]>;
+  getMilestonesByAssignedCandidate(candidateId: string): Promise<Milestone[]>;
+  getCandidateCommitments(candidateId: string): Promise<Milestone[]>;
   createMilestone(milestone: InsertMilestone): Promise<Milestone>;
   updateMilestone(id: string, data: Partial<InsertMilestone>): Promise<Milestone | undefined>;
   
+  // Milestone Backups
+  getMilestoneBackup(id: string): Promise<MilestoneBackup | undefined>;
+  getMilestoneBackups(milestoneId: string): Promise<MilestoneBackup[]>;
+  createMilestoneBackup(backup: InsertMilestoneBackup): Promise<MilestoneBackup>;
+  updateMilestoneBackup(id: string, data: Partial<InsertMilestoneBackup>): Promise<MilestoneBackup | undefined>;
+  deleteMilestoneBackup(id: string): Promise<void>;
+
+  // Assignment Events
+  createAssignmentEvent(event: InsertAssignmentEvent): Promise<AssignmentEvent>;
+  getAssignmentEvents(milestoneId: string): Promise<AssignmentEvent[]>;
+  
   // Candidates
   getCandidate(id: string): Promise<Candidate | undefined>;
   getCandidateByEmail(email: string): Promise<Candidate | undefined>;
@@ -40,11 +90,22 @@ export interface IStorage {
   createCandidate(candidate: InsertCandidate): Promise<Candidate>;
   updateCandidate(id: string, data: Partial<InsertCandidate>): Promise<Candidate | undefined>;
   
+  // Candidate Unavailability
+  getCandidateUnavailability(candidateId: string): Promise<CandidateUnavailability[]>;
+  createCandidateUnavailability(entry: InsertCandidateUnavailability): Promise<CandidateUnavailability>;
+  deleteCandidateUnavailability(id: string, candidateId: string): Promise<boolean>;
+  
+  // Candidate Ratings
+  getCandidateRatings(candidateId: string): Promise<CandidateRating[]>;
+  getMilestoneRatings(milestoneId: string): Promise<CandidateRating[]>;
+  createCandidateRating(rating: InsertCandidateRating): Promise<CandidateRating>;
+  
   // Fit Scores
   getFitScore(id: string): Promise<FitScore | undefined>;
   getFitScoresByMilestone(milestoneId: string): Promise<FitScore[]>;
   getFitScoresByCandidate(candidateId: string): Promise<FitScore[]>;
-  createFitScore(fitScore: InsertFitScore): Promise<FitScore>;
+  getFitScoreForPair(candidateId: string, milestoneId: string): Promise<FitScore | undefined>;
+  upsertFitScore(fitScore: InsertFitScore): Promise<FitScore>;
   updateFitScore(id: string, data: Partial<InsertFitScore>): Promise<FitScore | undefined>;
   getTopCandidatesForMilestone(milestoneId: string, limit: number): Promise<Array<FitScore & { candidate: Candidate }>>;
   
@@ -52,9 +113,15 @@ export interface IStorage {
   getRiskAlert(id: string): Promise<RiskAlert | undefined>;
   getRiskAlertsByMilestone(milestoneId: string): Promise<RiskAlert[]>;
   createRiskAlert(riskAlert: InsertRiskAlert): Promise<RiskAlert>;
+  updateRiskAlert(id: string, data: Partial<InsertRiskAlert>): Promise<RiskAlert | undefined>;
+  
+  // Risk Escalation Actions
+  createRiskEscalationAction(action: InsertRiskEscalationAction): Promise<RiskEscalationAction>;
+  getRiskEscalationActions(riskAlertId: string): Promise<RiskEscalationAction[]>;
   
   // Jira Settings
   getJiraSettings(businessUserId: string): Promise<JiraSettings | undefined>;
+  getJiraSettingsByOrganization(organizationId: string): Promise<JiraSettings | undefined>;
   saveJiraSettings(settings: InsertJiraSettings): Promise<JiraSettings>;
   updateJiraSettings(businessUserId: string, data: Partial<InsertJiraSettings>): Promise<JiraSettings | undefined>;
   
@@ -69,13 +136,28 @@ export interface IStorage {
   getApplication(id: string): Promise<Application | undefined>;
   getApplicationsByCandidate(candidateId: string): Promise<Application[]>;
   getApplicationsByMilestone(milestoneId: string): Promise<Application[]>;
-  updateApplicationStatus(id: string, status: string): Promise<Application | undefined>;
+  updateApplicationStatus(id: string, status: string, fromStatus?: string): Promise<Application | undefined>;
+  
+  // Application Status History
+  createApplicationStatusHistory(entry: InsertApplicationStatusHistory): Promise<ApplicationStatusHistory>;
+  getApplicationStatusHistory(applicationId: string): Promise<ApplicationStatusHistory[]>;
   
   // Candidate Actions (Save/Skip/View tracking)
   recordAction(candidateId: string, milestoneId: string, action: string): Promise<CandidateAction>;
   getActions(candidateId: string): Promise<CandidateAction[]>;
   hasAction(candidateId: string, milestoneId: string, action: string): Promise<boolean>;
   
+  // Users
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
+
+  // Skill Taxonomy
+  getSkillTaxonomyEntries(): Promise<SkillTaxonomyEntry[]>;
+  getSkillTaxonomyEntry(id: string): Promise<SkillTaxonomyEntry | undefined>;
+  upsertSkillTaxonomyEntry(entry: InsertSkillTaxonomyEntry): Promise<SkillTaxonomyEntry>;
+  deleteSkillTaxonomyEntry(id: string): Promise<void>;
+
   // Magic Links
   createMagicLink(magicLink: InsertMagicLink): Promise<MagicLink>;
   getMagicLinkByToken(token: string): Promise<MagicLink | undefined>;
@@ -93,9 +175,10 @@ export interface IStorage {
   // Jira Sync Logs
   createJiraSyncLog(log: InsertJiraSyncLog): Promise<JiraSyncLog>;
   updateJiraSyncLog(id: string, data: Partial<InsertJiraSyncLog>): Promise<JiraSyncLog | undefined>;
-  getJiraSyncLogs(businessUserId: string, limit?: number): Promise<JiraSyncLog[]>;
+  getJiraSyncLog(id: string): Promise<JiraSyncLog | undefined>;
+  getJiraSyncLogs(businessUserIds: string[], limit?: number): Promise<JiraSyncLog[]>;
   getJiraSyncLogsByProject(projectId: string): Promise<JiraSyncLog[]>;
-  getFailedJiraSyncLogs(businessUserId: string): Promise<JiraSyncLog[]>;
+  getFailedJiraSyncLogs(businessUserIds: string[]): Promise<JiraSyncLog[]>;
   
   // Business Interests (Multi-Business Competition)
   createBusinessInterest(interest: InsertBusinessInterest): Promise<BusinessInterest>;
@@ -107,6 +190,109 @@ export interface IStorage {
 }
 
 export class DatabaseStorage implements IStorage {
+  // Organizations
+  async getOrganization(id: string): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization || undefined;
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await db.insert(organizations).values(insertOrganization).returning();
+    return organization;
+  }
+
+  async updateOrganization(id: string, data: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const [organization] = await db
+      .update(organizations)
+      .set(data)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization || undefined;
+  }
+
+  async deleteOrganization(id: string): Promise<void> {
+    await db.delete(organizations).where(eq(organizations.id, id));
+  }
+
+  // Organization Members
+  async getOrganizationMember(id: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db.select().from(organizationMembers).where(eq(organizationMembers.id, id));
+    return member || undefined;
+  }
+
+  async getOrganizationMemberByEmail(email: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db.select().from(organizationMembers).where(eq(organizationMembers.email, email));
+    return member || undefined;
+  }
+
+  async getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    return await db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+  }
+
+  async createOrganizationMember(insertMember: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [member] = await db.insert(organizationMembers).values(insertMember).returning();
+    return member;
+  }
+
+  async updateOrganizationMember(id: string, data: Partial<InsertOrganizationMember>): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set(data)
+      .where(eq(organizationMembers.id, id))
+      .returning();
+    return member || undefined;
+  }
+
+  async deleteOrganizationMember(id: string): Promise<void> {
+    await db.delete(organizationMembers).where(eq(organizationMembers.id, id));
+  }
+
+  // Organization Invitations
+  async getOrganizationInvitation(id: string): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select().from(organizationInvitations).where(eq(organizationInvitations.id, id));
+    return invitation || undefined;
+  }
+
+  async getOrganizationInvitations(organizationId: string): Promise<OrganizationInvitation[]> {
+    return await db
+      .select()
+      .from(organizationInvitations)
+      .where(eq(organizationInvitations.organizationId, organizationId))
+      .orderBy(desc(organizationInvitations.createdAt));
+  }
+
+  async getPendingInvitationsByEmail(email: string): Promise<OrganizationInvitation[]> {
+    return await db
+      .select()
+      .from(organizationInvitations)
+      .where(
+        and(
+          eq(organizationInvitations.email, email),
+          eq(organizationInvitations.status, "pending"),
+          gte(organizationInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(organizationInvitations.createdAt));
+  }
+
+  async createOrganizationInvitation(insertInvitation: InsertOrganizationInvitation): Promise<OrganizationInvitation> {
+    const [invitation] = await db.insert(organizationInvitations).values(insertInvitation).returning();
+    return invitation;
+  }
+
+  async updateOrganizationInvitation(id: string, data: Partial<InsertOrganizationInvitation>): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db
+      .update(organizationInvitations)
+      .set(data)
+      .where(eq(organizationInvitations.id, id))
+      .returning();
+    return invitation || undefined;
+  }
+
   // Projects
   async getProject(id: string): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
@@ -117,6 +303,32 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(projects).orderBy(desc(projects.createdAt));
   }
 
+  async getProjectsByBusinessUser(businessUserId: string): Promise<Project[]> {
+    return await db
+      .select()
+      .from(projects)
+      .where(eq(projects.businessUserId, businessUserId))
+      .orderBy(desc(projects.createdAt));
+  }
+
+  async getProjectsByOrganization(organizationId: string): Promise<Project[]> {
+    return await db
+      .select()
+      .from(projects)
+      .where(eq(projects.organizationId, organizationId))
+      .orderBy(desc(projects.createdAt));
+  }
+
+  // Move a user's projects from before organizations existed into their organization
+  async assignUnownedProjects(businessUserId: string, organizationId: string): Promise<number> {
+    const updated = await db
+      .update(projects)
+      .set({ organizationId })
+      .where(and(eq(projects.businessUserId, businessUserId), isNull(projects.organizationId)))
+      .returning();
+    return updated.length;
+  }
+
   async createProject(insertProject: InsertProject): Promise<Project> {
     const [project] = await db.insert(projects).values(insertProject).returning();
     return project;
@@ -137,6 +349,31 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(milestones).where(eq(milestones.projectId, projectId)).orderBy(desc(milestones.createdAt));
   }
 
+  async getMilestonesByAssignedCandidate(candidateId: string): Promise<Milestone[]> {
+    return await db.select().from(milestones).where(eq(milestones.assignedCandidateId, candidateId)).orderBy(desc(milestones.createdAt));
+  }
+
+  // Open (non-archived, not completed) milestones the candidate is committed to: confirmed/active primary or active backup
+  async getCandidateCommitments(candidateId: string): Promise<Milestone[]> {
+    return await db
+      .select()
+      .from(milestones)
+      .where(and(
+        isNull(milestones.archivedAt),
+        ne(milestones.status, 'completed'),
+        or(
+          and(
+            eq(milestones.assignedCandidateId, candidateId),
+            inArray(milestones.assignmentStatus, ['confirmed', 'active'])
+          ),
+          and(
+            eq(milestones.backupCandidateId, candidateId),
+            eq(milestones.backupAssignmentStatus, 'active')
+          )
+        )
+      ));
+  }
+
   async createMilestone(insertMilestone: InsertMilestone): Promise<Milestone> {
     const [milestone] = await db.insert(milestones).values(insertMilestone).returning();
     return milestone;
@@ -147,6 +384,52 @@ export class DatabaseStorage implements IStorage {
     return milestone || undefined;
   }
 
+  // Milestone Backups
+  async getMilestoneBackup(id: string): Promise<MilestoneBackup | undefined> {
+    const [backup] = await db.select().from(milestoneBackups).where(eq(milestoneBackups.id, id));
+    return backup || undefined;
+  }
+
+  async getMilestoneBackups(milestoneId: string): Promise<MilestoneBackup[]> {
+    return await db
+      .select()
+      .from(milestoneBackups)
+      .where(eq(milestoneBackups.milestoneId, milestoneId))
+      .orderBy(milestoneBackups.position);
+  }
+
+  async createMilestoneBackup(insertBackup: InsertMilestoneBackup): Promise<MilestoneBackup> {
+    const [backup] = await db.insert(milestoneBackups).values(insertBackup).returning();
+    return backup;
+  }
+
+  async updateMilestoneBackup(id: string, data: Partial<InsertMilestoneBackup>): Promise<MilestoneBackup | undefined> {
+    const [backup] = await db
+      .update(milestoneBackups)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(milestoneBackups.id, id))
+      .returning();
+    return backup || undefined;
+  }
+
+  async deleteMilestoneBackup(id: string): Promise<void> {
+    await db.delete(milestoneBackups).where(eq(milestoneBackups.id, id));
+  }
+
+  // Assignment Events
+  async createAssignmentEvent(insertEvent: InsertAssignmentEvent): Promise<AssignmentEvent> {
+    const [event] = await db.insert(assignmentEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getAssignmentEvents(milestoneId: string): Promise<AssignmentEvent[]> {
+    return await db
+      .select()
+      .from(assignmentEvents)
+      .where(eq(assignmentEvents.milestoneId, milestoneId))
+      .orderBy(assignmentEvents.createdAt);
+  }
+
   // Candidates
   async getCandidate(id: string): Promise<Candidate | undefined> {
     const [candidate] = await db.select().from(candidates).where(eq(candidates.id, id));
@@ -172,6 +455,50 @@ export class DatabaseStorage implements IStorage {
     return candidate || undefined;
   }
 
+  // Candidate Unavailability
+  async getCandidateUnavailability(candidateId: string): Promise<CandidateUnavailability[]> {
+    return await db
+      .select()
+      .from(candidateUnavailability)
+      .where(eq(candidateUnavailability.candidateId, candidateId))
+      .orderBy(candidateUnavailability.startDate);
+  }
+
+  async createCandidateUnavailability(insertEntry: InsertCandidateUnavailability): Promise<CandidateUnavailability> {
+    const [entry] = await db.insert(candidateUnavailability).values(insertEntry).returning();
+    return entry;
+  }
+
+  async deleteCandidateUnavailability(id: string, candidateId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(candidateUnavailability)
+      .where(and(eq(candidateUnavailability.id, id), eq(candidateUnavailability.candidateId, candidateId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Candidate Ratings
+  async getCandidateRatings(candidateId: string): Promise<CandidateRating[]> {
+    return await db
+      .select()
+      .from(candidateRatings)
+      .where(eq(candidateRatings.candidateId, candidateId))
+      .orderBy(desc(candidateRatings.createdAt));
+  }
+
+  async getMilestoneRatings(milestoneId: string): Promise<CandidateRating[]> {
+    return await db
+      .select()
+      .from(candidateRatings)
+      .where(eq(candidateRatings.milestoneId, milestoneId))
+      .orderBy(desc(candidateRatings.createdAt));
+  }
+
+  async createCandidateRating(insertRating: InsertCandidateRating): Promise<CandidateRating> {
+    const [rating] = await db.insert(candidateRatings).values(insertRating).returning();
+    return rating;
+  }
+
   // Fit Scores
   async getFitScore(id: string): Promise<FitScore | undefined> {
     const [fitScore] = await db.select().from(fitScores).where(eq(fitScores.id, id));
@@ -186,13 +513,30 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(fitScores).where(eq(fitScores.candidateId, candidateId)).orderBy(desc(fitScores.score));
   }
 
-  async createFitScore(insertFitScore: InsertFitScore): Promise<FitScore> {
-    const [fitScore] = await db.insert(fitScores).values(insertFitScore).returning();
+  async getFitScoreForPair(candidateId: string, milestoneId: string): Promise<FitScore | undefined> {
+    const [fitScore] = await db
+      .select()
+      .from(fitScores)
+      .where(and(eq(fitScores.candidateId, candidateId), eq(fitScores.milestoneId, milestoneId)));
+    return fitScore || undefined;
+  }
+
+  // Insert or replace the score for a (candidate, milestone) pair; the review status is kept
+  async upsertFitScore(insertFitScore: InsertFitScore): Promise<FitScore> {
+    const { candidateId, milestoneId, status, ...scores } = insertFitScore;
+    const [fitScore] = await db
+      .insert(fitScores)
+      .values(insertFitScore)
+      .onConflictDoUpdate({
+        target: [fitScores.candidateId, fitScores.milestoneId],
+        set: { ...scores, updatedAt: new Date() },
+      })
+      .returning();
     return fitScore;
   }
 
   async updateFitScore(id: string, data: Partial<InsertFitScore>): Promise<FitScore | undefined> {
-    const [fitScore] = await db.update(fitScores).set(data).where(eq(fitScores.id, id)).returning();
+    const [fitScore] = await db.update(fitScores).set({ ...data, updatedAt: new Date() }).where(eq(fitScores.id, id)).returning();
     return fitScore || undefined;
   }
 
@@ -230,18 +574,45 @@ export class DatabaseStorage implements IStorage {
     return riskAlert;
   }
 
+  async updateRiskAlert(id: string, data: Partial<InsertRiskAlert>): Promise<RiskAlert | undefined> {
+    const [riskAlert] = await db.update(riskAlerts).set(data).where(eq(riskAlerts.id, id)).returning();
+    return riskAlert || undefined;
+  }
+
+  // Risk Escalation Actions
+  async createRiskEscalationAction(insertAction: InsertRiskEscalationAction): Promise<RiskEscalationAction> {
+    const [action] = await db.insert(riskEscalationActions).values(insertAction).returning();
+    return action;
+  }
+
+  async getRiskEscalationActions(riskAlertId: string): Promise<RiskEscalationAction[]> {
+    return await db
+      .select()
+      .from(riskEscalationActions)
+      .where(eq(riskEscalationActions.riskAlertId, riskAlertId))
+      .orderBy(riskEscalationActions.createdAt);
+  }
+
   // Jira Settings
   async getJiraSettings(businessUserId: string): Promise<JiraSettings | undefined> {
     const [settings] = await db.select().from(jiraSettings).where(eq(jiraSettings.businessUserId, businessUserId));
     return settings || undefined;
   }
 
+  async getJiraSettingsByOrganization(organizationId: string): Promise<JiraSettings | undefined> {
+    const [settings] = await db.select().from(jiraSettings).where(eq(jiraSettings.organizationId, organizationId));
+    return settings || undefined;
+  }
+
   async saveJiraSettings(insertSettings: InsertJiraSettings): Promise<JiraSettings> {
-    const existing = await this.getJiraSettings(insertSettings.businessUserId);
+    // Organization settings are shared: any member updates the same row
+    const existing = insertSettings.organizationId
+      ? await this.getJiraSettingsByOrganization(insertSettings.organizationId)
+      : await this.getJiraSettings(insertSettings.businessUserId);
     
     if (existing) {
       // Preserve existing API token if new one is not provided
-      const updateData: any = { ...insertSettings, updatedAt: new Date() };
+      const updateData: any = { ...insertSettings, businessUserId: existing.businessUserId, updatedAt: new Date() };
       if (!insertSettings.jiraApiToken && existing.jiraApiToken) {
         updateData.jiraApiToken = existing.jiraApiToken;
       }
@@ -249,7 +620,7 @@ export class DatabaseStorage implements IStorage {
       const [updated] = await db
         .update(jiraSettings)
         .set(updateData)
-        .where(eq(jiraSettings.businessUserId, insertSettings.businessUserId))
+        .where(eq(jiraSettings.id, existing.id))
         .returning();
       return updated;
     } else {
@@ -315,15 +686,32 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(applications).where(eq(applications.milestoneId, milestoneId)).orderBy(desc(applications.createdAt));
   }
 
-  async updateApplicationStatus(id: string, status: string): Promise<Application | undefined> {
+  // With fromStatus, only updates if the application is still in that status
+  async updateApplicationStatus(id: string, status: string, fromStatus?: string): Promise<Application | undefined> {
     const [application] = await db
       .update(applications)
       .set({ status, updatedAt: new Date() })
-      .where(eq(applications.id, id))
+      .where(fromStatus === undefined
+        ? eq(applications.id, id)
+        : and(eq(applications.id, id), eq(applications.status, fromStatus)))
       .returning();
     return application || undefined;
   }
 
+  // Application Status History
+  async createApplicationStatusHistory(insertEntry: InsertApplicationStatusHistory): Promise<ApplicationStatusHistory> {
+    const [entry] = await db.insert(applicationStatusHistory).values(insertEntry).returning();
+    return entry;
+  }
+
+  async getApplicationStatusHistory(applicationId: string): Promise<ApplicationStatusHistory[]> {
+    return await db
+      .select()
+      .from(applicationStatusHistory)
+      .where(eq(applicationStatusHistory.applicationId, applicationId))
+      .orderBy(applicationStatusHistory.createdAt);
+  }
+
   // Candidate Actions
   async recordAction(candidateId: string, milestoneId: string, action: string): Promise<CandidateAction> {
     const [candidateAction] = await db.insert(candidateActions).values({ candidateId, milestoneId, action }).returning();
@@ -345,6 +733,53 @@ export class DatabaseStorage implements IStorage {
     return !!candidateAction;
   }
 
+  // Users
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  // Skill Taxonomy
+  async getSkillTaxonomyEntries(): Promise<SkillTaxonomyEntry[]> {
+    return await db.select().from(skillTaxonomyEntries).orderBy(skillTaxonomyEntries.canonicalName);
+  }
+
+  async getSkillTaxonomyEntry(id: string): Promise<SkillTaxonomyEntry | undefined> {
+    const [entry] = await db.select().from(skillTaxonomyEntries).where(eq(skillTaxonomyEntries.id, id));
+    return entry || undefined;
+  }
+
+  async upsertSkillTaxonomyEntry(insertEntry: InsertSkillTaxonomyEntry): Promise<SkillTaxonomyEntry> {
+    const { canonicalName, ...data } = insertEntry;
+    const [entry] = await db
+      .insert(skillTaxonomyEntries)
+      .values(insertEntry)
+      .onConflictDoUpdate({
+        target: skillTaxonomyEntries.canonicalName,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return entry;
+  }
+
+  async deleteSkillTaxonomyEntry(id: string): Promise<void> {
+    await db.delete(skillTaxonomyEntries).where(eq(skillTaxonomyEntries.id, id));
+  }
+
   // Magic Links
   async createMagicLink(insertMagicLink: InsertMagicLink): Promise<MagicLink> {
     const [magicLink] = await db.insert(magicLinks).values(insertMagicLink).returning();
@@ -439,11 +874,17 @@ export class DatabaseStorage implements IStorage {
     return log || undefined;
   }
   
-  async getJiraSyncLogs(businessUserId: string, limit: number = 50): Promise<JiraSyncLog[]> {
+  async getJiraSyncLog(id: string): Promise<JiraSyncLog | undefined> {
+    const [log] = await db.select().from(jiraSyncLogs).where(eq(jiraSyncLogs.id, id));
+    return log || undefined;
+  }
+  
+  async getJiraSyncLogs(businessUserIds: string[], limit: number = 50): Promise<JiraSyncLog[]> {
+    if (businessUserIds.length === 0) return [];
     return await db
       .select()
       .from(jiraSyncLogs)
-      .where(eq(jiraSyncLogs.businessUserId, businessUserId))
+      .where(inArray(jiraSyncLogs.businessUserId, businessUserIds))
       .orderBy(desc(jiraSyncLogs.createdAt))
       .limit(limit);
   }
@@ -456,13 +897,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(jiraSyncLogs.createdAt));
   }
   
-  async getFailedJiraSyncLogs(businessUserId: string): Promise<JiraSyncLog[]> {
+  async getFailedJiraSyncLogs(businessUserIds: string[]): Promise<JiraSyncLog[]> {
+    if (businessUserIds.length === 0) return [];
     return await db
       .select()
       .from(jiraSyncLogs)
       .where(
         and(
-          eq(jiraSyncLogs.businessUserId, businessUserId),
+          inArray(jiraSyncLogs.businessUserId, businessUserIds),
           eq(jiraSyncLogs.status, "failed")
         )
       )
@@ -0,0 +1,130 @@
+/**
+ * User Accounts - One login per email, holding one or both portal roles
+ *
+ * A user can be a business user, a candidate, or both. A role is granted when
+ * a login link for that portal is verified (which proves the email), and the
+ * session holds the active role; /api/auth/switch-role moves between granted
+ * roles without a new link.
+ *
+ * Accounts from before the users table are backfilled on first lookup from
+ * the records that used to imply a role: a candidate profile, or an
+ * organization membership / owned projects for business.
+ */
+
+import type { Request } from 'express';
+import { storage } from './storage';
+import { ensureOrganization, type OrganizationRole } from './organizations';
+import type { User } from '@shared/schema';
+
+export const USER_ROLES = ['business', 'candidate'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+const PORTAL_PATHS: Record<UserRole, string> = {
+  business: '/business',
+  candidate: '/candidate/dashboard',
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function getPortalPath(role: UserRole): string {
+  return PORTAL_PATHS[role];
+}
+
+export function getUserRoles(user: User): UserRole[] {
+  return user.roles.filter(isUserRole);
+}
+
+async function detectLegacyRoles(email: string): Promise<UserRole[]> {
+  const roles: UserRole[] = [];
+
+  const membership = await storage.getOrganizationMemberByEmail(email);
+  const projects = membership ? [] : await storage.getProjectsByBusinessUser(email);
+  if (membership || projects.length > 0) roles.push('business');
+
+  if (await storage.getCandidateByEmail(email)) roles.push('candidate');
+  return roles;
+}
+
+/**
+ * Get the user for an email, creating (and backfilling roles for) unknown ones
+ */
+export async function getOrCreateUser(email: string): Promise<User> {
+  const existing = await storage.getUserByEmail(email);
+  if (existing) return existing;
+
+  const roles = await detectLegacyRoles(email);
+  const user = await storage.createUser({ email, roles, defaultRole: roles[0] ?? null });
+
+  console.log(`[Users] Created account for ${email} (roles: ${roles.join(', ') || 'none'})`);
+  return user;
+}
+
+/**
+ * Role a new login link should open: the requested portal, else the portal
+ * the user last used, else their only role. Unknown users default to
+ * candidate unless they have a pending organization invitation.
+ */
+export async function chooseLoginRole(user: User, requestedRole: unknown): Promise<UserRole> {
+  if (isUserRole(requestedRole)) return requestedRole;
+  if (isUserRole(user.defaultRole)) return user.defaultRole;
+
+  const roles = getUserRoles(user);
+  if (roles.length > 0) return roles[0];
+
+  const invitations = await storage.getPendingInvitationsByEmail(user.email);
+  return invitations.length > 0 ? 'business' : 'candidate';
+}
+
+/**
+ * Record a verified login, granting the role if the user did not have it yet
+ */
+export async function recordLogin(user: User, role: UserRole): Promise<User> {
+  const roles = getUserRoles(user);
+  const granted = roles.includes(role);
+  if (!granted) {
+    console.log(`[Users] Granted ${role} role to ${user.email}`);
+  }
+
+  const updated = await storage.updateUser(user.id, {
+    roles: granted ? roles : [...roles, role],
+    lastLoginAt: new Date(),
+  });
+  return updated || user;
+}
+
+/**
+ * Put the user's role into the session. Business sessions resolve the
+ * organization; candidate sessions use the candidate profile id, creating the
+ * profile on first login.
+ */
+export async function startRoleSession(req: Request, user: User, role: UserRole): Promise<void> {
+  req.session.email = user.email;
+  req.session.role = role;
+
+  if (role === 'business') {
+    const member = await ensureOrganization(user.email);
+    req.session.userId = user.email;
+    req.session.organizationId = member.organizationId;
+    req.session.organizationRole = member.role as OrganizationRole;
+  } else {
+    let candidate = await storage.getCandidateByEmail(user.email);
+    if (!candidate) {
+      candidate = await storage.createCandidate({
+        email: user.email,
+        name: user.email.split('@')[0],
+      });
+      console.log(`[Users] Created candidate profile for ${user.email}`);
+    }
+    req.session.userId = candidate.id;
+    delete req.session.organizationId;
+    delete req.session.organizationRole;
+  }
+
+  // The portal used last opens by default on the next login
+  if (user.defaultRole !== role) {
+    await storage.updateUser(user.id, { defaultRole: role });
+  }
+}
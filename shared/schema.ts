@@ -1,13 +1,91 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, timestamp, jsonb, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// ========== ORGANIZATIONS (Business accounts and team members) ==========
+export const organizations = pgTable("organizations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdBy: text("created_by").notNull(), // Email of the founding owner
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  members: many(organizationMembers),
+  invitations: many(organizationInvitations),
+  projects: many(projects),
+}));
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+
+export const organizationMembers = pgTable("organization_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  email: text("email").notNull().unique(), // A business user belongs to one organization
+  role: text("role").notNull().default("viewer"), // owner, manager, viewer
+  invitedBy: text("invited_by"), // Null for the founding owner
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("organization_members_organization_idx").on(table.organizationId),
+]);
+
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role").notNull().default("viewer"), // Role granted on acceptance
+  invitedBy: text("invited_by").notNull(),
+  status: text("status").notNull().default("pending"), // pending, accepted, revoked
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("organization_invitations_email_idx").on(table.email),
+]);
+
+export const organizationInvitationsRelations = relations(organizationInvitations, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationInvitations.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const insertOrganizationInvitationSchema = createInsertSchema(organizationInvitations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOrganizationInvitation = z.infer<typeof insertOrganizationInvitationSchema>;
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+
 // ========== PROJECTS ==========
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  businessUserId: varchar("business_user_id").notNull(),
+  businessUserId: varchar("business_user_id").notNull(), // Email of the member who created it
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }), // Owning organization
   name: text("name").notNull(),
   description: text("description").notNull(),
   status: text("status").notNull().default("active"), // active, completed, on-hold
@@ -15,10 +93,18 @@ export const projects = pgTable("projects", {
   lastJiraSyncAt: timestamp("last_jira_sync_at"),
   lastJiraSyncStatus: text("last_jira_sync_status"), // success, failed, partial
   lastJiraSyncError: text("last_jira_sync_error"),
+  jiraSyncCursor: timestamp("jira_sync_cursor"), // Start time of the last successful sync (incremental sync cursor)
+  aiMatchLimit: integer("ai_match_limit"), // Top K prefiltered candidates AI-scored per milestone (null = MATCH_AI_TOP_K)
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
-
-export const projectsRelations = relations(projects, ({ many }) => ({
+}, (table) => [
+  index("projects_organization_idx").on(table.organizationId),
+]);
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [projects.organizationId],
+    references: [organizations.id],
+  }),
   milestones: many(milestones),
 }));
 
@@ -36,24 +122,34 @@ export const milestones = pgTable("milestones", {
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description").notNull(),
-  status: text("status").notNull().default("pending"), // pending, in-progress, completed, delayed
+  status: text("status").notNull().default("pending"), // pending, in-progress, completed, delayed, archived
   estimatedHours: integer("estimated_hours"),
+  startDate: timestamp("start_date"), // Planned schedule; sprint dates are used when not set
+  endDate: timestamp("end_date"),
   assignedCandidateId: varchar("assigned_candidate_id"),
-  assignmentStatus: text("assignment_status").default("unassigned"), // unassigned, offered, confirmed, active, completed
+  assignmentStatus: text("assignment_status").default("unassigned"), // unassigned, offered, confirmed, active, completed, replaced
   assignmentConfirmedAt: timestamp("assignment_confirmed_at"),
-  backupCandidateId: varchar("backup_candidate_id"),
-  backupAssignmentStatus: text("backup_assignment_status").default("none"), // none, standby, offered, active
+  backupCandidateId: varchar("backup_candidate_id"), // Head of the milestone_backups queue (kept in sync by backup-queue.ts)
+  backupAssignmentStatus: text("backup_assignment_status").default("none"), // none, standby, offered, active, completed
   jiraIssueKey: text("jira_issue_key"),
   jiraEpicKey: text("jira_epic_key"),
   jiraSprintId: text("jira_sprint_id"),
   jiraSprintName: text("jira_sprint_name"),
+  jiraSprintStartDate: timestamp("jira_sprint_start_date"),
+  jiraSprintEndDate: timestamp("jira_sprint_end_date"),
+  jiraContentHash: text("jira_content_hash"), // Hash of Jira summary + description, used to skip skill map regeneration
   delayPercentage: integer("delay_percentage").default(0),
   riskLevel: text("risk_level"), // low, medium, high, critical
-  skillMap: jsonb("skill_map"), // AI-generated skill requirements
+  skillMap: jsonb("skill_map"), // AI-generated skill requirements (SkillMap, versioned)
   skillMapApproved: boolean("skill_map_approved").default(false), // Business approved skill map
   candidatesNotified: boolean("candidates_notified").default(false), // Candidates have been notified
+  archivedAt: timestamp("archived_at"), // Set when the linked Jira issue was deleted or moved
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [
+  // Commitment lookups for the capacity check (assignment-validator.ts)
+  index("milestones_assigned_candidate_idx").on(table.assignedCandidateId),
+  index("milestones_backup_candidate_idx").on(table.backupCandidateId),
+]);
 
 export const milestonesRelations = relations(milestones, ({ one, many }) => ({
   project: one(projects, {
@@ -61,6 +157,8 @@ export const milestonesRelations = relations(milestones, ({ one, many }) => ({
     references: [projects.id],
   }),
   fitScores: many(fitScores),
+  backups: many(milestoneBackups),
+  assignmentEvents: many(assignmentEvents),
 }));
 
 export const insertMilestoneSchema = createInsertSchema(milestones).omit({
@@ -71,6 +169,75 @@ export const insertMilestoneSchema = createInsertSchema(milestones).omit({
 export type InsertMilestone = z.infer<typeof insertMilestoneSchema>;
 export type Milestone = typeof milestones.$inferSelect;
 
+// ========== MILESTONE BACKUPS (Ordered backup queue) ==========
+export const milestoneBackups = pgTable("milestone_backups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  milestoneId: varchar("milestone_id").notNull().references(() => milestones.id, { onDelete: "cascade" }),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // Queue order, lowest first
+  status: text("status").notNull().default("standby"), // standby, offered, active, rejected, completed
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  // At most one active backup per milestone, enforced even for concurrent activations
+  uniqueIndex("milestone_backups_one_active_idx").on(table.milestoneId).where(sql`${table.status} = 'active'`),
+]);
+
+export const milestoneBackupsRelations = relations(milestoneBackups, ({ one }) => ({
+  milestone: one(milestones, {
+    fields: [milestoneBackups.milestoneId],
+    references: [milestones.id],
+  }),
+  candidate: one(candidates, {
+    fields: [milestoneBackups.candidateId],
+    references: [candidates.id],
+  }),
+}));
+
+export const insertMilestoneBackupSchema = createInsertSchema(milestoneBackups).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertMilestoneBackup = z.infer<typeof insertMilestoneBackupSchema>;
+export type MilestoneBackup = typeof milestoneBackups.$inferSelect;
+
+// ========== ASSIGNMENT EVENTS (Assignment audit log) ==========
+export const assignmentEvents = pgTable("assignment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  milestoneId: varchar("milestone_id").notNull().references(() => milestones.id, { onDelete: "cascade" }),
+  candidateId: varchar("candidate_id").references(() => candidates.id, { onDelete: "set null" }),
+  role: text("role").notNull(), // primary, backup
+  eventType: text("event_type").notNull(), // offer, confirm, reject, activate, complete, fail
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  actor: text("actor"), // Email of the user who made the change, null for system actions
+  actorRole: text("actor_role").notNull(), // business, candidate, system
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const assignmentEventsRelations = relations(assignmentEvents, ({ one }) => ({
+  milestone: one(milestones, {
+    fields: [assignmentEvents.milestoneId],
+    references: [milestones.id],
+  }),
+  candidate: one(candidates, {
+    fields: [assignmentEvents.candidateId],
+    references: [candidates.id],
+  }),
+}));
+
+export const insertAssignmentEventSchema = createInsertSchema(assignmentEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAssignmentEvent = z.infer<typeof insertAssignmentEventSchema>;
+export type AssignmentEvent = typeof assignmentEvents.$inferSelect;
+
 // ========== CANDIDATES ==========
 export const candidates = pgTable("candidates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -86,12 +253,17 @@ export const candidates = pgTable("candidates", {
   githubUrl: text("github_url"),
   availableFrom: timestamp("available_from"),
   availableUntil: timestamp("available_until"),
-  isAvailable: boolean("is_available").default(true),
+  isAvailable: boolean("is_available").default(true), // Legacy flag, no longer read: capacity and unavailable ranges decide availability
+  weeklyCapacityHours: integer("weekly_capacity_hours").default(40), // Hours per week the candidate can commit
+  reputationScore: real("reputation_score"), // Average post-project rating (1-5), null until first rated
+  ratingCount: integer("rating_count").default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const candidatesRelations = relations(candidates, ({ many }) => ({
   fitScores: many(fitScores),
+  unavailability: many(candidateUnavailability),
+  ratings: many(candidateRatings),
 }));
 
 export const insertCandidateSchema = createInsertSchema(candidates).omit({
@@ -102,19 +274,89 @@ export const insertCandidateSchema = createInsertSchema(candidates).omit({
 export type InsertCandidate = z.infer<typeof insertCandidateSchema>;
 export type Candidate = typeof candidates.$inferSelect;
 
+// ========== CANDIDATE UNAVAILABILITY (Blocked date ranges) ==========
+export const candidateUnavailability = pgTable("candidate_unavailability", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: "cascade" }),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason"), // e.g. vacation, other engagement
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("candidate_unavailability_candidate_idx").on(table.candidateId),
+]);
+
+export const candidateUnavailabilityRelations = relations(candidateUnavailability, ({ one }) => ({
+  candidate: one(candidates, {
+    fields: [candidateUnavailability.candidateId],
+    references: [candidates.id],
+  }),
+}));
+
+export const insertCandidateUnavailabilitySchema = createInsertSchema(candidateUnavailability).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCandidateUnavailability = z.infer<typeof insertCandidateUnavailabilitySchema>;
+export type CandidateUnavailability = typeof candidateUnavailability.$inferSelect;
+
+// ========== CANDIDATE RATINGS (Post-project evaluation) ==========
+export const candidateRatings = pgTable("candidate_ratings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: "cascade" }),
+  milestoneId: varchar("milestone_id").notNull().references(() => milestones.id, { onDelete: "cascade" }),
+  ratedBy: text("rated_by").notNull(), // Email of the business user
+  skills: integer("skills").notNull(), // 1-5
+  communication: integer("communication").notNull(), // 1-5
+  timeliness: integer("timeliness").notNull(), // 1-5
+  feedback: text("feedback"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("candidate_ratings_candidate_idx").on(table.candidateId),
+]);
+
+export const candidateRatingsRelations = relations(candidateRatings, ({ one }) => ({
+  candidate: one(candidates, {
+    fields: [candidateRatings.candidateId],
+    references: [candidates.id],
+  }),
+  milestone: one(milestones, {
+    fields: [candidateRatings.milestoneId],
+    references: [milestones.id],
+  }),
+}));
+
+export const insertCandidateRatingSchema = createInsertSchema(candidateRatings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCandidateRating = z.infer<typeof insertCandidateRatingSchema>;
+export type CandidateRating = typeof candidateRatings.$inferSelect;
+
 // ========== FIT SCORES ==========
 export const fitScores = pgTable("fit_scores", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: "cascade" }),
   milestoneId: varchar("milestone_id").notNull().references(() => milestones.id, { onDelete: "cascade" }),
-  score: integer("score").notNull(), // 0-100
+  score: integer("score").notNull(), // 0-100, includes the reputation adjustment
+  baseScore: integer("base_score"), // Score before the reputation adjustment
+  reputationAdjustment: integer("reputation_adjustment").default(0), // Points added/removed by reputation
   skillOverlap: integer("skill_overlap"),
   experienceMatch: integer("experience_match"),
   softSkillRelevance: integer("soft_skill_relevance"),
+  prefilterScore: integer("prefilter_score"), // Local rule-based rank score (matching-pipeline.ts)
   reasoning: text("reasoning"), // AI reasoning for the score
+  scoringMethod: text("scoring_method"), // ai, rule_based (null for scores saved before tracking)
+  inputFingerprint: text("input_fingerprint"), // Hash of the scorer inputs; null forces a re-score (fit-score-cache.ts)
   status: text("status").default("pending"), // pending, accepted, rejected
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One score per pair; run migrations/dedupe_fit_scores.sql on databases created before this index
+  uniqueIndex("fit_scores_candidate_milestone_idx").on(table.candidateId, table.milestoneId),
+]);
 
 export const fitScoresRelations = relations(fitScores, ({ one }) => ({
   candidate: one(candidates, {
@@ -130,6 +372,7 @@ export const fitScoresRelations = relations(fitScores, ({ one }) => ({
 export const insertFitScoreSchema = createInsertSchema(fitScores).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
 });
 
 export type InsertFitScore = z.infer<typeof insertFitScoreSchema>;
@@ -139,18 +382,21 @@ export type FitScore = typeof fitScores.$inferSelect;
 export const riskAlerts = pgTable("risk_alerts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   milestoneId: varchar("milestone_id").notNull().references(() => milestones.id, { onDelete: "cascade" }),
-  riskLevel: text("risk_level").notNull(), // low, medium, high
+  riskLevel: text("risk_level").notNull(), // low, medium, high, critical
   delayPercentage: integer("delay_percentage").notNull(),
   aiAnalysis: jsonb("ai_analysis"), // Gemini risk prediction
   backupActivated: boolean("backup_activated").default(false),
+  backupCandidates: jsonb("backup_candidates"), // Ranked backup list [{ candidateId, name, score }]
+  decisionDeadline: timestamp("decision_deadline"), // High tier: business must decide by this time
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const riskAlertsRelations = relations(riskAlerts, ({ one }) => ({
+export const riskAlertsRelations = relations(riskAlerts, ({ one, many }) => ({
   milestone: one(milestones, {
     fields: [riskAlerts.milestoneId],
     references: [milestones.id],
   }),
+  escalationActions: many(riskEscalationActions),
 }));
 
 export const insertRiskAlertSchema = createInsertSchema(riskAlerts).omit({
@@ -161,6 +407,37 @@ export const insertRiskAlertSchema = createInsertSchema(riskAlerts).omit({
 export type InsertRiskAlert = z.infer<typeof insertRiskAlertSchema>;
 export type RiskAlert = typeof riskAlerts.$inferSelect;
 
+// ========== RISK ESCALATION ACTIONS ==========
+export const riskEscalationActions = pgTable("risk_escalation_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  riskAlertId: varchar("risk_alert_id").notNull().references(() => riskAlerts.id, { onDelete: "cascade" }),
+  milestoneId: varchar("milestone_id").notNull().references(() => milestones.id, { onDelete: "cascade" }),
+  tier: text("tier").notNull(), // low, medium, high, critical
+  action: text("action").notNull(), // notify_business, prepare_backup_list, set_decision_deadline, activate_backup, escalate_management
+  status: text("status").notNull().default("completed"), // completed, skipped, failed
+  details: jsonb("details"), // Action-specific data (recipients, backup list, deadline, candidate)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const riskEscalationActionsRelations = relations(riskEscalationActions, ({ one }) => ({
+  riskAlert: one(riskAlerts, {
+    fields: [riskEscalationActions.riskAlertId],
+    references: [riskAlerts.id],
+  }),
+  milestone: one(milestones, {
+    fields: [riskEscalationActions.milestoneId],
+    references: [milestones.id],
+  }),
+}));
+
+export const insertRiskEscalationActionSchema = createInsertSchema(riskEscalationActions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertRiskEscalationAction = z.infer<typeof insertRiskEscalationActionSchema>;
+export type RiskEscalationAction = typeof riskEscalationActions.$inferSelect;
+
 // ========== SAVED JOBS ==========
 export const savedJobs = pgTable("saved_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -194,14 +471,14 @@ export const applications = pgTable("applications", {
   candidateId: varchar("candidate_id").notNull().references(() => candidates.id, { onDelete: "cascade" }),
   milestoneId: varchar("milestone_id").notNull().references(() => milestones.id, { onDelete: "cascade" }),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
-  status: text("status").notNull().default("submitted"), // submitted, under_review, interview, accepted, rejected
+  status: text("status").notNull().default("submitted"), // submitted, under_review, interview, accepted, rejected, active, completed, withdrawn
   coverLetter: text("cover_letter"),
   notes: text("notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
-export const applicationsRelations = relations(applications, ({ one }) => ({
+export const applicationsRelations = relations(applications, ({ one, many }) => ({
   candidate: one(candidates, {
     fields: [applications.candidateId],
     references: [candidates.id],
@@ -214,6 +491,7 @@ export const applicationsRelations = relations(applications, ({ one }) => ({
     fields: [applications.projectId],
     references: [projects.id],
   }),
+  statusHistory: many(applicationStatusHistory),
 }));
 
 export const insertApplicationSchema = createInsertSchema(applications).omit({
@@ -225,6 +503,33 @@ export const insertApplicationSchema = createInsertSchema(applications).omit({
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
 export type Application = typeof applications.$inferSelect;
 
+// ========== APPLICATION STATUS HISTORY ==========
+export const applicationStatusHistory = pgTable("application_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  applicationId: varchar("application_id").notNull().references(() => applications.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status"), // Null for the initial submission
+  toStatus: text("to_status").notNull(),
+  changedBy: text("changed_by"), // Email of the user who made the change
+  changedByRole: text("changed_by_role"), // business, candidate, system
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const applicationStatusHistoryRelations = relations(applicationStatusHistory, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationStatusHistory.applicationId],
+    references: [applications.id],
+  }),
+}));
+
+export const insertApplicationStatusHistorySchema = createInsertSchema(applicationStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertApplicationStatusHistory = z.infer<typeof insertApplicationStatusHistorySchema>;
+export type ApplicationStatusHistory = typeof applicationStatusHistory.$inferSelect;
+
 // ========== CANDIDATE ACTIONS (Save/Skip) ==========
 export const candidateActions = pgTable("candidate_actions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -294,13 +599,32 @@ export type InsertBusinessInterest = z.infer<typeof insertBusinessInterestSchema
 export type BusinessInterest = typeof businessInterests.$inferSelect;
 
 // ========== SKILL MAP TYPE ==========
+// Version 2: weighted, leveled skill requirements. Older maps (flat required_skills)
+// are upgraded by server/skill-map.ts and migrations/upgrade_skill_maps.sql.
+export const SKILL_MAP_VERSION = 2;
+
+export const SKILL_IMPORTANCES = ["must", "should", "nice"] as const;
+export const SKILL_PROFICIENCIES = ["beginner", "intermediate", "advanced", "expert"] as const;
+
+export const skillRequirementSchema = z.object({
+  name: z.string().min(1),
+  importance: z.enum(SKILL_IMPORTANCES),
+  min_proficiency: z.enum(SKILL_PROFICIENCIES).optional(),
+  min_years: z.number().min(0).max(50).optional(),
+});
+
 export const skillMapSchema = z.object({
+  version: z.literal(SKILL_MAP_VERSION),
   milestone: z.string(),
-  required_skills: z.array(z.string()),
+  skills: z.array(skillRequirementSchema),
   experience_level: z.string(),
   soft_skills: z.array(z.string()),
+  domain: z.string().optional(),
 });
 
+export type SkillImportance = typeof SKILL_IMPORTANCES[number];
+export type SkillProficiency = typeof SKILL_PROFICIENCIES[number];
+export type SkillRequirement = z.infer<typeof skillRequirementSchema>;
 export type SkillMap = z.infer<typeof skillMapSchema>;
 
 // ========== CV ANALYSIS TYPE ==========
@@ -316,14 +640,37 @@ export const cvAnalysisSchema = z.object({
 
 export type CVAnalysis = z.infer<typeof cvAnalysisSchema>;
 
+// ========== SKILL TAXONOMY (Admin extensions to the built-in list in server/skill-taxonomy.ts) ==========
+export const skillTaxonomyEntries = pgTable("skill_taxonomy_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  canonicalName: text("canonical_name").notNull().unique(), // e.g. "Kubernetes"
+  category: text("category").notNull(), // language, frontend, backend, database, cloud, devops, data, mobile, testing, soft, other
+  aliases: text("aliases").array().notNull().default(sql`ARRAY[]::text[]`), // e.g. ["k8s"]
+  parents: text("parents").array().notNull().default(sql`ARRAY[]::text[]`), // Canonical names implied by this skill, e.g. React -> JavaScript
+  createdBy: text("created_by"), // Email of the admin who added it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertSkillTaxonomyEntrySchema = createInsertSchema(skillTaxonomyEntries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertSkillTaxonomyEntry = z.infer<typeof insertSkillTaxonomyEntrySchema>;
+export type SkillTaxonomyEntry = typeof skillTaxonomyEntries.$inferSelect;
+
 // ========== JIRA SETTINGS ==========
 export const jiraSettings = pgTable("jira_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  businessUserId: varchar("business_user_id").notNull().unique(),
+  businessUserId: varchar("business_user_id").notNull().unique(), // Email of the member who configured it
+  organizationId: varchar("organization_id").unique().references(() => organizations.id, { onDelete: "cascade" }), // Shared by the whole team
   jiraDomain: text("jira_domain"), // e.g., "company.atlassian.net"
   jiraEmail: text("jira_email"),
   jiraApiToken: text("jira_api_token"), // Encrypted API token
   connectionType: text("connection_type").default("replit_connector"), // replit_connector or manual
+  webhookSecret: text("webhook_secret"), // Encrypted shared secret for the Jira webhook receiver
   isConfigured: boolean("is_configured").default(false),
   lastSyncedAt: timestamp("last_synced_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -341,6 +688,24 @@ export const insertJiraSettingsSchema = createInsertSchema(jiraSettings).omit({
 export type InsertJiraSettings = z.infer<typeof insertJiraSettingsSchema>;
 export type JiraSettings = typeof jiraSettings.$inferSelect;
 
+// ========== USERS (Login accounts and their portal roles) ==========
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull().unique(),
+  roles: text("roles").array().notNull().default(sql`ARRAY[]::text[]`), // business and/or candidate
+  defaultRole: text("default_role"), // Portal opened when a login link doesn't ask for one
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+
 // ========== MAGIC LINKS ==========
 export const magicLinks = pgTable("magic_links", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -367,7 +732,7 @@ export type MagicLink = typeof magicLinks.$inferSelect;
 // ========== BACKGROUND JOBS ==========
 export const backgroundJobs = pgTable("background_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  jobType: text("job_type").notNull(), // cv_processing, fit_score_calculation, jira_sync
+  jobType: text("job_type").notNull(), // cv_processing, fit_score_calculation, skill_map_generation, jira_import, jira_sync, jira_writeback
   status: text("status").notNull().default("pending"), // pending, processing, completed, failed
   userId: varchar("user_id").notNull(), // candidate or business user id
   userEmail: text("user_email"), // for email notifications
@@ -394,12 +759,17 @@ export type BackgroundJob = typeof backgroundJobs.$inferSelect;
 export const jiraSyncLogs = pgTable("jira_sync_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   businessUserId: varchar("business_user_id").notNull(),
-  syncType: text("sync_type").notNull(), // import_projects, sync_project, sync_milestone
+  syncType: text("sync_type").notNull(), // import_projects, sync_project, sync_milestone, jira_writeback
   status: text("status").notNull(), // success, failed, partial
   projectId: varchar("project_id"),
   jiraProjectKey: text("jira_project_key"),
+  milestoneId: varchar("milestone_id"), // Milestone whose Jira issue was written to (write-back)
+  payload: jsonb("payload"), // Write-back request, replayed on retry
   milestonesCreated: integer("milestones_created").default(0),
   milestonesUpdated: integer("milestones_updated").default(0),
+  milestonesArchived: integer("milestones_archived").default(0),
+  milestonesUnchanged: integer("milestones_unchanged").default(0),
+  report: jsonb("report"), // Per-milestone sync report (created/updated/archived/unchanged)
   error: text("error"), // Error message if failed
   errorDetails: jsonb("error_details"), // Detailed error stack/context
   canRetry: boolean("can_retry").default(true),